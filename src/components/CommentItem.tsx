@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { Comment } from '../services/api';
+
+interface CommentItemProps {
+  comment: Comment;
+  formatDate: (dateString: string) => string;
+  canEdit: boolean;
+  canDelete: boolean;
+  // Retorna true quando a edição foi salva, para fechar o formulário
+  onSave: (content: string) => Promise<boolean>;
+  onDelete: () => void;
+  // Quando informado, exibe a ação "Responder"
+  onReply?: (content: string) => Promise<boolean>;
+  // Quando informado, exibe a ação "Denunciar"
+  onReport?: () => void;
+  // Exibe o contador de denúncias (professores)
+  showReports?: boolean;
+  // Nome do autor respondido, exibido quando a thread é achatada
+  replyTo?: string;
+  children?: React.ReactNode;
+}
+
+const MIN_CONTENT_LENGTH = 3;
+
+const isCommentEdited = (comment: Comment) =>
+  new Date(comment.updatedAt).getTime() > new Date(comment.createdAt).getTime();
+
+const CommentItem: React.FC<CommentItemProps> = ({
+  comment,
+  formatDate,
+  canEdit,
+  canDelete,
+  onSave,
+  onDelete,
+  onReply,
+  onReport,
+  showReports = false,
+  replyTo,
+  children
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.content);
+  const [saving, setSaving] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
+
+  const trimmedDraft = draft.trim();
+  const canSave =
+    !saving &&
+    trimmedDraft.length >= MIN_CONTENT_LENGTH &&
+    trimmedDraft !== comment.content;
+
+  const startEditing = () => {
+    setDraft(comment.content);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    setSaving(true);
+    const saved = await onSave(trimmedDraft);
+    setSaving(false);
+    if (saved) setIsEditing(false);
+  };
+
+  const canSendReply = !sendingReply && replyDraft.trim().length >= MIN_CONTENT_LENGTH;
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onReply || !canSendReply) return;
+
+    setSendingReply(true);
+    const sent = await onReply(replyDraft.trim());
+    setSendingReply(false);
+    if (sent) {
+      setReplyDraft('');
+      setIsReplying(false);
+    }
+  };
+
+  const isHidden = comment.status === 'hidden';
+
+  return (
+    <li className={`border-b border-gray-200 pb-4 last:border-b-0 ${isHidden ? 'opacity-60' : ''}`}>
+      <div className="flex items-start space-x-3">
+        <div className="flex-shrink-0">
+          <div className="h-8 w-8 rounded-full bg-gray-300 flex items-center justify-center">
+            <span className="text-sm font-medium text-gray-700">
+              {comment.author.charAt(0).toUpperCase()}
+            </span>
+          </div>
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-medium text-gray-900">
+                {comment.author}
+              </span>
+              {replyTo && (
+                <span className="text-xs text-gray-500">
+                  em resposta a {replyTo}
+                </span>
+              )}
+              <span className="text-xs text-gray-500">
+                {formatDate(comment.createdAt)}
+              </span>
+              {isHidden && (
+                <span
+                  className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700"
+                  title="Visível apenas para professores"
+                >
+                  Oculto
+                </span>
+              )}
+              {showReports && comment.reportCount > 0 && (
+                <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                  {comment.reportCount} {comment.reportCount === 1 ? 'denúncia' : 'denúncias'}
+                </span>
+              )}
+              {isCommentEdited(comment) && (
+                <span
+                  className="text-xs text-gray-400 italic"
+                  title={`Editado em ${formatDate(comment.updatedAt)}`}
+                >
+                  (editado)
+                </span>
+              )}
+            </div>
+
+            {!isEditing && (onReply || onReport || canEdit || canDelete) && (
+              <div className="flex space-x-3 text-xs">
+                {onReply && (
+                  <button
+                    type="button"
+                    onClick={() => setIsReplying(!isReplying)}
+                    aria-expanded={isReplying}
+                    className="text-gray-600 hover:text-gray-800"
+                  >
+                    Responder
+                  </button>
+                )}
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={startEditing}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Editar
+                  </button>
+                )}
+                {canDelete && (
+                  <button
+                    type="button"
+                    onClick={onDelete}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Excluir
+                  </button>
+                )}
+                {onReport &&
+                  (comment.reportedByMe ? (
+                    <span className="text-gray-400">Denunciado</span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={onReport}
+                      className="text-gray-500 hover:text-red-700"
+                    >
+                      Denunciar
+                    </button>
+                  ))}
+              </div>
+            )}
+          </div>
+
+          {isEditing ? (
+            <form onSubmit={handleSave}>
+              <label htmlFor={`comment-edit-${comment._id}`} className="sr-only">
+                Editar comentário
+              </label>
+              <textarea
+                id={`comment-edit-${comment._id}`}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={3}
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+              <div className="mt-2 flex space-x-2">
+                <button
+                  type="submit"
+                  disabled={!canSave}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Salvando...' : 'Salvar'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(false)}
+                  disabled={saving}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  Cancelar
+                </button>
+              </div>
+            </form>
+          ) : (
+            <p className={`text-sm whitespace-pre-wrap ${isHidden ? 'text-gray-500 italic' : 'text-gray-700'}`}>
+              {comment.content}
+            </p>
+          )}
+
+          {isReplying && (
+            <form onSubmit={handleReply} className="mt-3">
+              <label htmlFor={`comment-reply-${comment._id}`} className="sr-only">
+                Responder a {comment.author}
+              </label>
+              <textarea
+                id={`comment-reply-${comment._id}`}
+                value={replyDraft}
+                onChange={(e) => setReplyDraft(e.target.value)}
+                placeholder={`Responder a ${comment.author}...`}
+                rows={2}
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+              <div className="mt-2 flex space-x-2">
+                <button
+                  type="submit"
+                  disabled={!canSendReply}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {sendingReply ? 'Enviando...' : 'Responder'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsReplying(false)}
+                  disabled={sendingReply}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  Cancelar
+                </button>
+              </div>
+            </form>
+          )}
+
+          {children}
+        </div>
+      </div>
+    </li>
+  );
+};
+
+export default CommentItem;
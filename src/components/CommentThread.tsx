@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Comment } from '../services/api';
+import { CommentNode, flattenReplies } from '../utils/commentThreads';
+import CommentItem from './CommentItem';
+
+interface CommentThreadProps {
+  node: CommentNode;
+  formatDate: (dateString: string) => string;
+  canEdit: (comment: Comment) => boolean;
+  canDelete: (comment: Comment) => boolean;
+  // Ausente quando o usuário não pode responder (ex.: não autenticado)
+  onReply?: (parentId: string, content: string) => Promise<boolean>;
+  onSave: (commentId: string, content: string) => Promise<boolean>;
+  onDelete: (comment: Comment) => void;
+  canReport: (comment: Comment) => boolean;
+  onReport: (comment: Comment) => void;
+  showReports?: boolean;
+  // Níveis de indentação exibidos; abaixo disso as respostas são achatadas
+  maxDepth?: number;
+  depth?: number;
+}
+
+const DEFAULT_MAX_DEPTH = 3;
+
+const CommentThread: React.FC<CommentThreadProps> = ({
+  node,
+  formatDate,
+  canEdit,
+  canDelete,
+  onReply,
+  onSave,
+  onDelete,
+  canReport,
+  onReport,
+  showReports = false,
+  maxDepth = DEFAULT_MAX_DEPTH,
+  depth = 0
+}) => {
+  const [expanded, setExpanded] = useState(true);
+  const { comment, replies, replyCount } = node;
+
+  const itemProps = (target: Comment) => ({
+    comment: target,
+    formatDate,
+    canEdit: canEdit(target),
+    canDelete: canDelete(target),
+    onSave: (content: string) => onSave(target._id, content),
+    onDelete: () => onDelete(target),
+    onReply: onReply ? (content: string) => onReply(target._id, content) : undefined,
+    onReport: canReport(target) ? () => onReport(target) : undefined,
+    showReports
+  });
+
+  const nestsReplies = depth + 1 < maxDepth;
+
+  return (
+    <CommentItem {...itemProps(comment)}>
+      {replyCount > 0 && (
+        <div className="mt-3">
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            aria-expanded={expanded}
+            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            {expanded
+              ? 'Ocultar respostas'
+              : `Mostrar ${replyCount} ${replyCount === 1 ? 'resposta' : 'respostas'}`}
+          </button>
+
+          {expanded && (
+            <ul className="mt-3 space-y-4 pl-4 border-l-2 border-gray-100">
+              {nestsReplies
+                ? replies.map((reply) => (
+                    <CommentThread
+                      key={reply.comment._id}
+                      node={reply}
+                      formatDate={formatDate}
+                      canEdit={canEdit}
+                      canDelete={canDelete}
+                      onReply={onReply}
+                      onSave={onSave}
+                      onDelete={onDelete}
+                      canReport={canReport}
+                      onReport={onReport}
+                      showReports={showReports}
+                      maxDepth={maxDepth}
+                      depth={depth + 1}
+                    />
+                  ))
+                : flattenReplies(node).map(({ comment: reply, replyTo }) => (
+                    <CommentItem
+                      key={reply._id}
+                      {...itemProps(reply)}
+                      replyTo={replyTo}
+                    />
+                  ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </CommentItem>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { useConnectivity } from '../contexts/ConnectivityContext';
+
+// A revalidação ao reconectar fica no PostsProvider
+const ConnectivityBanner: React.FC = () => {
+  const { status, checkNow } = useConnectivity();
+
+  if (status === 'online') return null;
+
+  const isOffline = status === 'offline';
+
+  return (
+    <div
+      className={`border-b ${isOffline ? 'bg-red-50 border-red-200 text-red-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}
+      role="status"
+      aria-live="polite"
+    >
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between text-sm">
+        <p>
+          <span className="font-medium">
+            {isOffline ? 'Sem conexão.' : 'Servidor acordando…'}
+          </span>{' '}
+          {isOffline
+            ? 'Verifique sua internet. Os dados serão atualizados quando a conexão voltar.'
+            : 'O servidor está demorando para responder. Tentaremos novamente automaticamente.'}
+        </p>
+        {!isOffline && (
+          <button
+            type="button"
+            onClick={() => checkNow()}
+            className="ml-4 font-medium underline hover:no-underline"
+          >
+            Tentar agora
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConnectivityBanner;
@@ -0,0 +1,155 @@
+import React from 'react';
+import { Post, PostStatus, POST_STATUS_LABELS } from '../services/api';
+import { DiffPart, diffWords } from '../utils/diff';
+
+export interface PostVersion {
+  title: string;
+  content: string;
+  status: PostStatus;
+  tags: string[];
+}
+
+interface EditConflictModalProps {
+  isOpen: boolean;
+  mine: PostVersion;
+  current: Post;
+  onOverwrite: () => void;
+  onDiscard: () => void;
+  onMerge: () => void;
+  onClose: () => void;
+  isLoading?: boolean;
+}
+
+const FIELDS: Array<{ label: string; value: (version: PostVersion) => string }> = [
+  { label: 'Título', value: (version) => version.title },
+  { label: 'Status', value: (version) => POST_STATUS_LABELS[version.status] },
+  { label: 'Tags', value: (version) => version.tags.join(', ') },
+  { label: 'Conteúdo', value: (version) => version.content }
+];
+
+// Mostra os trechos comuns e destaca o que só existe nesta coluna
+const DiffColumn: React.FC<{ parts: DiffPart[]; highlight: 'added' | 'removed' }> = ({
+  parts,
+  highlight
+}) => (
+  <div className="h-full max-h-64 overflow-y-auto rounded-md border border-gray-200 bg-gray-50 p-3 font-mono text-xs text-gray-800 whitespace-pre-wrap break-words">
+    {parts
+      .filter((part) => part.type === 'equal' || part.type === highlight)
+      .map((part, index) =>
+        part.type === 'equal' ? (
+          <span key={index}>{part.value}</span>
+        ) : (
+          <mark
+            key={index}
+            className={highlight === 'added' ? 'bg-green-200 text-green-900' : 'bg-red-200 text-red-900'}
+          >
+            {part.value}
+          </mark>
+        )
+      )}
+  </div>
+);
+
+const EditConflictModal: React.FC<EditConflictModalProps> = ({
+  isOpen,
+  mine,
+  current,
+  onOverwrite,
+  onDiscard,
+  onMerge,
+  onClose,
+  isLoading = false
+}) => {
+  if (!isOpen) return null;
+
+  const changedFields = FIELDS.map(({ label, value }) => ({
+    label,
+    parts: diffWords(value(current), value(mine))
+  })).filter(({ parts }) => parts.some((part) => part.type !== 'equal'));
+
+  const updatedAt = new Date(current.updatedAt).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  const buttonClasses =
+    'w-full inline-flex justify-center rounded-md border shadow-sm px-4 py-2 text-base font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="conflict-modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-5xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="conflict-modal-title">
+              Este post foi alterado por outra pessoa
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Outra edição foi salva em {updatedAt}, depois que você abriu o post. Compare as
+              versões e escolha como continuar.
+            </p>
+
+            <div className="mt-4 grid grid-cols-2 gap-4 text-sm font-medium text-gray-700">
+              <span>Sua versão</span>
+              <span>Versão atual</span>
+            </div>
+            <div className="mt-2 space-y-4">
+              {changedFields.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  As duas versões têm o mesmo conteúdo.
+                </p>
+              ) : (
+                changedFields.map(({ label, parts }) => (
+                  <section key={label}>
+                    <h4 className="mb-1 text-xs font-medium uppercase tracking-wider text-gray-500">
+                      {label}
+                    </h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      <DiffColumn parts={parts} highlight="added" />
+                      <DiffColumn parts={parts} highlight="removed" />
+                    </div>
+                  </section>
+                ))
+              )}
+            </div>
+          </div>
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse sm:space-x-reverse sm:space-x-3">
+            <button
+              type="button"
+              onClick={onMerge}
+              disabled={isLoading}
+              className={`${buttonClasses} border-transparent text-white bg-blue-600 hover:bg-blue-700 focus:ring-blue-500`}
+            >
+              Mesclar alterações
+            </button>
+            <button
+              type="button"
+              onClick={onOverwrite}
+              disabled={isLoading}
+              className={`${buttonClasses} mt-3 sm:mt-0 border-transparent text-white bg-red-600 hover:bg-red-700 focus:ring-red-500`}
+            >
+              {isLoading ? 'Salvando...' : 'Sobrescrever com a minha'}
+            </button>
+            <button
+              type="button"
+              onClick={onDiscard}
+              disabled={isLoading}
+              className={`${buttonClasses} mt-3 sm:mt-0 border-gray-300 bg-white text-gray-700 hover:bg-gray-50 focus:ring-indigo-500`}
+            >
+              Descartar a minha
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditConflictModal;
@@ -1,7 +1,13 @@
 import React, { useState } from "react";
 import { Button, Input, Card, CardHeader, CardContent } from "../../ui";
-import { usePosts, usePostsList, usePost } from "../../contexts/PostsContext";
+import {
+  usePosts,
+  usePostsList,
+  usePost,
+  useMutationState,
+} from "../../contexts/PostsContext";
 import Container from "../Layout/Container";
+import { getErrorMessage } from "../../services/apiError";
 
 /**
  * Exemplo de uso do PostsContext
@@ -17,12 +23,11 @@ const PostsContextExample: React.FC = () => {
   const {
     posts,
     currentPost,
-    loading,
-    error,
+    listStatus,
     createPost,
     updatePost,
     deletePost,
-    clearError,
+    clearListError,
     isCacheValid,
     getPostById,
   } = usePosts();
@@ -43,12 +48,19 @@ const PostsContextExample: React.FC = () => {
     refetch: refetchPost,
   } = usePost(selectedPostId);
 
+  // Cada operação tem o próprio estado de carregamento
+  const creating = useMutationState("create");
+  const updating = useMutationState("update", selectedPostId);
+  const deleting = useMutationState("delete", selectedPostId);
+  const loading = listStatus.status === "loading";
+  const error = listStatus.error;
+
   // Exemplo de criação de post
   const handleCreatePost = async () => {
     const newPost = await createPost({
       title: "Post de Exemplo",
       content: "<p>Este é um post criado via contexto!</p>",
-      author: "user-123",
+      authorId: "user-123",
     });
 
     if (newPost) {
@@ -135,7 +147,7 @@ const PostsContextExample: React.FC = () => {
                 <h3 className="font-semibold text-secondary-900">Criar Post</h3>
                 <Button
                   onClick={handleCreatePost}
-                  loading={loading}
+                  loading={creating.isPending}
                   variant="primary"
                   fullWidth
                 >
@@ -156,7 +168,7 @@ const PostsContextExample: React.FC = () => {
                   />
                   <Button
                     onClick={() => handleUpdatePost(selectedPostId)}
-                    loading={loading}
+                    loading={updating.isPending}
                     variant="secondary"
                     disabled={!selectedPostId}
                   >
@@ -178,7 +190,7 @@ const PostsContextExample: React.FC = () => {
                   />
                   <Button
                     onClick={() => handleDeletePost(selectedPostId)}
-                    loading={loading}
+                    loading={deleting.isPending}
                     variant="danger"
                     disabled={!selectedPostId}
                   >
@@ -256,7 +268,7 @@ const PostsContextExample: React.FC = () => {
               )}
 
               {searchError && (
-                <p className="text-sm text-error-600">Erro: {searchError}</p>
+                <p className="text-sm text-error-600">Erro: {getErrorMessage(searchError)}</p>
               )}
 
               {searchResults.length > 0 && (
@@ -311,7 +323,7 @@ const PostsContextExample: React.FC = () => {
               )}
 
               {postError && (
-                <p className="text-sm text-error-600">Erro: {postError}</p>
+                <p className="text-sm text-error-600">Erro: {getErrorMessage(postError)}</p>
               )}
 
               {individualPost && (
@@ -428,11 +440,11 @@ const PostsContextExample: React.FC = () => {
 
             {error && (
               <div className="mt-4 p-3 bg-error-50 border border-error-200 rounded">
-                <p className="text-sm text-error-700">{error}</p>
+                <p className="text-sm text-error-700">{getErrorMessage(error)}</p>
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={clearError}
+                  onClick={clearListError}
                   className="mt-2"
                 >
                   Limpar Erro
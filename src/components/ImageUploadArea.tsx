@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { postsApi, MediaItem } from '../services/api';
+import { getErrorMessage } from '../services/apiError';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  MAX_UPLOAD_SIZE,
+  buildImageTag,
+  isSupportedImage,
+  resizeImage
+} from '../utils/media';
+import MediaLibraryModal from './MediaLibraryModal';
+
+interface ImageUploadAreaProps {
+  // Recebe o HTML da imagem para inserir no conteúdo
+  onInsert: (html: string) => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+interface UploadProgress {
+  filename: string;
+  percent: number;
+}
+
+const ImageUploadArea: React.FC<ImageUploadAreaProps> = ({
+  onInsert,
+  disabled = false,
+  children
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+
+  const isUploading = progress !== null;
+  const isDisabled = disabled || isUploading;
+
+  const uploadFile = async (file: File) => {
+    setProgress({ filename: file.name, percent: 0 });
+    try {
+      const image = await resizeImage(file);
+      if (image.blob.size > MAX_UPLOAD_SIZE) {
+        toast.error(`A imagem ${file.name} ultrapassa o limite de 5 MB`);
+        return;
+      }
+
+      const media = await postsApi.uploadImage({
+        file: image.blob,
+        filename: image.filename,
+        width: image.width,
+        height: image.height,
+        onProgress: (percent) => setProgress({ filename: file.name, percent })
+      });
+      onInsert(buildImageTag(media));
+    } catch (err) {
+      console.error('Error uploading image:', err);
+      toast.error(
+        getErrorMessage(err, {
+          unauthorized: 'Você precisa estar logado para enviar imagens',
+          forbidden: 'Você não tem permissão para enviar imagens',
+          unknown: `Erro ao enviar ${file.name}. Tente novamente.`
+        })
+      );
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0 || isDisabled) return;
+
+    const images = files.filter(isSupportedImage);
+    if (images.length < files.length) {
+      toast.error('Apenas imagens JPEG, PNG, GIF ou WebP podem ser enviadas');
+    }
+    // Uma por vez, para as imagens entrarem no conteúdo na ordem escolhida
+    for (const image of images) {
+      await uploadFile(image);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isDisabled ? 'none' : 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Ignora a saída para elementos filhos da área
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.files.length === 0) return;
+    e.preventDefault();
+    setIsDragging(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    // Texto colado segue o comportamento normal do textarea
+    const files = Array.from(e.clipboardData.files).filter(isSupportedImage);
+    if (files.length === 0) return;
+    e.preventDefault();
+    uploadFiles(files);
+  };
+
+  const handleSelectFromLibrary = (media: MediaItem) => {
+    setIsLibraryOpen(false);
+    onInsert(buildImageTag(media));
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isDisabled}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          🖼️ Inserir imagem
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsLibraryOpen(true)}
+          disabled={isDisabled}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          📚 Biblioteca de mídia
+        </button>
+        <span className="text-xs text-gray-500">
+          Ou arraste e cole imagens no conteúdo (até 5 MB).
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            uploadFiles(Array.from(e.target.files || []));
+            // Permite escolher o mesmo arquivo de novo
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onPaste={handlePaste}
+        className={`relative rounded-md ${isDragging ? 'ring-2 ring-blue-500 ring-offset-2' : ''}`}
+      >
+        {children}
+        {isDragging && (
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-md bg-blue-50 bg-opacity-90 text-sm font-medium text-blue-700">
+            Solte a imagem para enviar
+          </div>
+        )}
+      </div>
+
+      {progress && (
+        <div className="mt-2" role="status" aria-live="polite">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span className="truncate">Enviando {progress.filename}...</span>
+            <span>{progress.percent}%</span>
+          </div>
+          <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+            <div
+              className="h-2 bg-blue-600 transition-all"
+              style={{ width: `${progress.percent}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
+      <MediaLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        onSelect={handleSelectFromLibrary}
+      />
+    </div>
+  );
+};
+
+export default ImageUploadArea;
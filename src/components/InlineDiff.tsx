@@ -0,0 +1,31 @@
+import React from 'react';
+import { DiffPart } from '../utils/diff';
+
+interface InlineDiffProps {
+  parts: DiffPart[];
+  className?: string;
+}
+
+const InlineDiff: React.FC<InlineDiffProps> = ({ parts, className = '' }) => (
+  <div className={`whitespace-pre-wrap break-words ${className}`}>
+    {parts.map((part, index) => {
+      if (part.type === 'added') {
+        return (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">
+            {part.value}
+          </ins>
+        );
+      }
+      if (part.type === 'removed') {
+        return (
+          <del key={index} className="bg-red-100 text-red-900">
+            {part.value}
+          </del>
+        );
+      }
+      return <span key={index}>{part.value}</span>;
+    })}
+  </div>
+);
+
+export default InlineDiff;
@@ -17,7 +17,7 @@ const LoginButton: React.FC = () => {
     return (
       <div className="flex items-center space-x-4">
         <span className="text-sm text-gray-700">
-          Olá, <span className="font-medium">{user?.email}</span>
+          Olá, <span className="font-medium">{user?.name}</span>
         </span>
         {user?.role === 'professor' && (
           <Link
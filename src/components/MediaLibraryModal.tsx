@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { postsApi, MediaItem, MediaPage } from '../services/api';
+import { getErrorMessage, toApiError } from '../services/apiError';
+import Pagination from './Pagination';
+
+interface MediaLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (media: MediaItem) => void;
+}
+
+const PAGE_SIZE = 12;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const MediaLibraryModal: React.FC<MediaLibraryModalProps> = ({ isOpen, onClose, onSelect }) => {
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<MediaPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  // Cada abertura volta para as imagens mais recentes
+  useEffect(() => {
+    if (isOpen) setPage(1);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    postsApi
+      .getMedia({ page, limit: PAGE_SIZE }, { signal: controller.signal })
+      .then((response) => {
+        setResult(response);
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (toApiError(err).kind === 'cancelled') return;
+        console.error('Error fetching media:', err);
+        setError(err);
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [isOpen, page]);
+
+  if (!isOpen) return null;
+
+  const media = result?.media ?? [];
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="media-modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="media-modal-title">
+              Biblioteca de mídia
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Escolha uma imagem já enviada para inserir no conteúdo.
+            </p>
+
+            {error ? (
+              <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-sm text-red-700">
+                  {getErrorMessage(error, {
+                    forbidden: 'Apenas professores podem acessar a biblioteca de mídia'
+                  })}
+                </p>
+              </div>
+            ) : loading && !result ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : media.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-500">
+                Nenhuma imagem enviada ainda. Arraste ou cole uma imagem no conteúdo do post.
+              </p>
+            ) : (
+              <ul className={`mt-4 grid grid-cols-2 gap-4 sm:grid-cols-4 ${loading ? 'opacity-50' : ''}`}>
+                {media.map((item) => (
+                  <li key={item._id}>
+                    <button
+                      type="button"
+                      onClick={() => onSelect(item)}
+                      disabled={loading}
+                      className="group w-full text-left rounded-md border border-gray-200 overflow-hidden hover:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <img
+                        src={item.url}
+                        alt={item.filename}
+                        loading="lazy"
+                        className="h-28 w-full object-cover bg-gray-100"
+                      />
+                      <span className="block px-2 py-1 text-xs text-gray-700 truncate group-hover:text-blue-700">
+                        {item.filename}
+                      </span>
+                      <span className="block px-2 pb-1 text-xs text-gray-400">
+                        {item.width && item.height ? `${item.width}×${item.height} · ` : ''}
+                        {formatSize(item.size)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {result && (
+              <div className="mt-4">
+                <Pagination
+                  page={result.page}
+                  totalPages={result.totalPages}
+                  total={result.total}
+                  limit={result.limit}
+                  onPageChange={setPage}
+                  disabled={loading}
+                />
+              </div>
+            )}
+          </div>
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:w-auto sm:text-sm"
+            >
+              Fechar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MediaLibraryModal;
@@ -0,0 +1,60 @@
+import React from 'react';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  total: number;
+  limit: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+const Pagination: React.FC<PaginationProps> = ({
+  page,
+  totalPages,
+  total,
+  limit,
+  onPageChange,
+  disabled = false
+}) => {
+  if (totalPages <= 1) return null;
+
+  const firstItem = (page - 1) * limit + 1;
+  const lastItem = Math.min(page * limit, total);
+
+  const buttonClasses =
+    'px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <nav className="flex items-center justify-between pt-2" aria-label="Paginação">
+      <p className="text-sm text-gray-500">
+        Mostrando <span className="font-medium">{firstItem}</span>–
+        <span className="font-medium">{lastItem}</span> de{' '}
+        <span className="font-medium">{total}</span>
+      </p>
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page <= 1}
+          className={buttonClasses}
+        >
+          ← Anterior
+        </button>
+        <span className="text-sm text-gray-700" aria-current="page">
+          Página {page} de {totalPages}
+        </span>
+        <button
+          type="button"
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page >= totalPages}
+          className={buttonClasses}
+        >
+          Próxima →
+        </button>
+      </div>
+    </nav>
+  );
+};
+
+export default Pagination;
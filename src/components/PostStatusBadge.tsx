@@ -0,0 +1,42 @@
+import React from 'react';
+import { Post, POST_STATUS_LABELS } from '../services/api';
+import { isPostPublic } from '../utils/postStatus';
+
+const STATUS_CLASSES = {
+  draft: 'bg-gray-200 text-gray-700',
+  published: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  archived: 'bg-yellow-100 text-yellow-800',
+};
+
+interface PostStatusBadgeProps {
+  post: Post;
+  className?: string;
+}
+
+const PostStatusBadge: React.FC<PostStatusBadgeProps> = ({ post, className = '' }) => {
+  // Agendamentos vencidos já estão no ar, mesmo que o servidor ainda não tenha atualizado o status
+  const status = post.status === 'scheduled' && isPostPublic(post) ? 'published' : post.status;
+  const scheduledFor =
+    status === 'scheduled' && post.publishAt
+      ? new Date(post.publishAt).toLocaleString('pt-BR', {
+          day: '2-digit',
+          month: '2-digit',
+          year: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })
+      : null;
+
+  return (
+    <span
+      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[status]} ${className}`}
+      title={scheduledFor ? `Publicação em ${scheduledFor}` : undefined}
+    >
+      {POST_STATUS_LABELS[status]}
+      {scheduledFor && ` · ${scheduledFor}`}
+    </span>
+  );
+};
+
+export default PostStatusBadge;
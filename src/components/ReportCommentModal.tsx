@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { ReportReason, REPORT_REASON_LABELS } from '../services/api';
+
+interface ReportCommentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (reason: ReportReason, details: string) => void;
+  author?: string;
+  isLoading?: boolean;
+}
+
+const MAX_DETAILS_LENGTH = 500;
+
+const ReportCommentModal: React.FC<ReportCommentModalProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  author,
+  isLoading = false
+}) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+
+  // Cada abertura começa com o formulário limpo
+  useEffect(() => {
+    if (isOpen) {
+      setReason(null);
+      setDetails('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason) onSubmit(reason, details);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="report-modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full"
+        >
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="report-modal-title">
+              Denunciar comentário
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {author ? `Por que o comentário de ${author} é inadequado?` : 'Por que este comentário é inadequado?'}
+              {' '}Os professores vão analisar a denúncia.
+            </p>
+
+            <fieldset className="mt-4 space-y-2">
+              <legend className="sr-only">Motivo da denúncia</legend>
+              {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map((value) => (
+                <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    value={value}
+                    checked={reason === value}
+                    onChange={() => setReason(value)}
+                    className="h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{REPORT_REASON_LABELS[value]}</span>
+                </label>
+              ))}
+            </fieldset>
+
+            <label htmlFor="report-details" className="block mt-4 text-sm font-medium text-gray-700">
+              Detalhes (opcional)
+            </label>
+            <textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={MAX_DETAILS_LENGTH}
+              rows={3}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="submit"
+              disabled={!reason || isLoading}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 text-base font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Enviando...' : 'Denunciar'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isLoading}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancelar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReportCommentModal;
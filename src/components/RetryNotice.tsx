@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { RetryAttempt, retryMonitor } from '../services/retry';
+
+export const useRetryStatus = (): RetryAttempt | null => {
+  const [attempts, setAttempts] = useState<RetryAttempt[]>(retryMonitor.getActive);
+
+  useEffect(() => retryMonitor.subscribe(setAttempts), []);
+
+  return attempts.length > 0 ? attempts[attempts.length - 1] : null;
+};
+
+interface RetryNoticeProps {
+  className?: string;
+}
+
+const RetryNotice: React.FC<RetryNoticeProps> = ({ className = '' }) => {
+  const retry = useRetryStatus();
+
+  if (!retry) return null;
+
+  const message =
+    retry.error.kind === 'rate_limited'
+      ? 'Muitas requisições, aguardando para tentar novamente…'
+      : 'Servidor iniciando, tentando novamente…';
+
+  return (
+    <div
+      className={`bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800 ${className}`}
+      role="status"
+      aria-live="polite"
+    >
+      {message}{' '}
+      <span className="text-yellow-700">
+        (tentativa {retry.attempt} de {retry.maxAttempts})
+      </span>
+    </div>
+  );
+};
+
+export default RetryNotice;
@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { postsApi, Post, PostRevision, PostRevisionSummary } from '../services/api';
+import { getErrorMessage, toApiError } from '../services/apiError';
+import { diffWords } from '../utils/diff';
+import InlineDiff from './InlineDiff';
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  post: Post;
+  onClose: () => void;
+  onRestored: (post: Post) => void;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({
+  isOpen,
+  post,
+  onClose,
+  onRestored
+}) => {
+  const [revisions, setRevisions] = useState<PostRevisionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [details, setDetails] = useState<Record<string, PostRevision>>({});
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const requestedIds = useRef(new Set<string>());
+
+  // Recarrega a lista a cada abertura e quando o post muda
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    postsApi
+      .getRevisions(post._id, { signal: controller.signal })
+      .then((list) => {
+        setRevisions(list);
+        // Por padrão compara a versão atual com a anterior
+        setToId(list[0]?._id || '');
+        setFromId(list[1]?._id || list[0]?._id || '');
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (toApiError(err).kind === 'cancelled') return;
+        console.error('Error fetching revisions:', err);
+        setError(err);
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [isOpen, post._id, post.updatedAt]);
+
+  // Busca o conteúdo completo só das revisões comparadas
+  useEffect(() => {
+    if (!isOpen) return;
+
+    [fromId, toId]
+      .filter((id) => id && !requestedIds.current.has(id))
+      .forEach((id) => {
+        requestedIds.current.add(id);
+        postsApi
+          .getRevision(post._id, id)
+          .then((revision) => setDetails((current) => ({ ...current, [id]: revision })))
+          .catch((err) => {
+            requestedIds.current.delete(id);
+            console.error('Error fetching revision:', err);
+            toast.error(getErrorMessage(err, { not_found: 'Revisão não encontrada' }));
+          });
+      });
+  }, [isOpen, post._id, fromId, toId]);
+
+  if (!isOpen) return null;
+
+  const from = details[fromId];
+  const to = details[toId];
+
+  const handleCompare = (index: number) => {
+    setToId(revisions[index]._id);
+    setFromId(revisions[Math.min(index + 1, revisions.length - 1)]._id);
+  };
+
+  const handleRestore = async (revision: PostRevisionSummary) => {
+    try {
+      setRestoringId(revision._id);
+      const restored = await postsApi.restoreRevision(post, revision._id);
+      toast.success(`Versão de ${formatDate(revision.createdAt)} restaurada!`);
+      onRestored(restored);
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      toast.error(
+        getErrorMessage(err, {
+          conflict: 'O post foi alterado por outra pessoa. Recarregue a página antes de restaurar.',
+          forbidden: 'Você não tem permissão para restaurar este post',
+          not_found: 'Revisão não encontrada',
+          unknown: 'Erro ao restaurar a versão. Tente novamente.'
+        })
+      );
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderSelect = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium text-gray-500 mb-1">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+      >
+        {revisions.map((revision) => (
+          <option key={revision._id} value={revision._id}>
+            {formatDate(revision.createdAt)} — {revision.author}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="history-modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          aria-hidden="true"
+          onClick={onClose}
+        ></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-6xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900" id="history-modal-title">
+              Histórico de versões
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Cada gravação de "{post.title}" fica salva. Compare duas versões ou restaure uma
+              versão anterior.
+            </p>
+
+            {error ? (
+              <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-sm text-red-700">
+                  {getErrorMessage(error, {
+                    forbidden: 'Você não tem permissão para ver o histórico deste post'
+                  })}
+                </p>
+              </div>
+            ) : loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="mt-4 grid grid-cols-1 gap-6 md:grid-cols-3">
+                <ol className="space-y-2 md:max-h-[32rem] md:overflow-y-auto" aria-label="Revisões">
+                  {revisions.map((revision, index) => (
+                    <li
+                      key={revision._id}
+                      className={`rounded-md border p-3 ${
+                        revision._id === toId ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <time dateTime={revision.createdAt} className="text-sm font-medium text-gray-900">
+                          {formatDate(revision.createdAt)}
+                        </time>
+                        {index === 0 && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Atual
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">por {revision.author}</p>
+                      <p className="text-xs text-gray-500 truncate">{revision.title}</p>
+                      <div className="mt-2 flex space-x-3">
+                        <button
+                          type="button"
+                          onClick={() => handleCompare(index)}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          Ver alterações
+                        </button>
+                        {index > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => handleRestore(revision)}
+                            disabled={restoringId !== null}
+                            className="text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {restoringId === revision._id ? 'Restaurando...' : 'Restaurar'}
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+
+                <div className="md:col-span-2 space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    {renderSelect('revision-from', 'De', fromId, setFromId)}
+                    {renderSelect('revision-to', 'Para', toId, setToId)}
+                  </div>
+
+                  {revisions.length < 2 ? (
+                    <p className="text-sm text-gray-500">Este post ainda não foi editado.</p>
+                  ) : !from || !to ? (
+                    <div className="flex justify-center py-12">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                    </div>
+                  ) : fromId === toId ? (
+                    <p className="text-sm text-gray-500">Escolha duas versões diferentes para comparar.</p>
+                  ) : (
+                    <>
+                      <section>
+                        <h4 className="mb-1 text-xs font-medium uppercase tracking-wider text-gray-500">Título</h4>
+                        <InlineDiff parts={diffWords(from.title, to.title)} className="text-sm text-gray-900" />
+                      </section>
+                      <section>
+                        <h4 className="mb-1 text-xs font-medium uppercase tracking-wider text-gray-500">Tags</h4>
+                        <InlineDiff
+                          parts={diffWords(from.tags.join(', '), to.tags.join(', '))}
+                          className="text-sm text-gray-900"
+                        />
+                      </section>
+                      <section>
+                        <h4 className="mb-1 text-xs font-medium uppercase tracking-wider text-gray-500">Conteúdo</h4>
+                        <InlineDiff
+                          parts={diffWords(from.content, to.content)}
+                          className="max-h-96 overflow-y-auto rounded-md border border-gray-200 bg-gray-50 p-3 font-mono text-xs text-gray-800"
+                        />
+                      </section>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 sm:w-auto sm:text-sm"
+            >
+              Fechar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistoryModal;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { TagSummary } from '../services/api';
+import { hasTag } from '../utils/tags';
+
+interface TagFilterProps {
+  tags: TagSummary[];
+  selected: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+const TagFilter: React.FC<TagFilterProps> = ({
+  tags,
+  selected,
+  onChange,
+  disabled = false
+}) => {
+  // Tags selecionadas continuam visíveis mesmo sem posts no resultado atual
+  const options = [
+    ...selected
+      .filter((tag) => !tags.some((summary) => hasTag([summary.name], tag)))
+      .map((name) => ({ name, count: 0 })),
+    ...tags
+  ];
+
+  if (options.length === 0) return null;
+
+  const toggle = (tag: string) => {
+    onChange(
+      hasTag(selected, tag)
+        ? selected.filter((candidate) => !hasTag([tag], candidate))
+        : [...selected, tag]
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-medium text-gray-700">Filtrar por tags</span>
+        {selected.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            disabled={disabled}
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            Limpar tags
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Filtrar por tags">
+        {options.map(({ name, count }) => {
+          const isSelected = hasTag(selected, name);
+          return (
+            <button
+              key={name}
+              type="button"
+              onClick={() => toggle(name)}
+              disabled={disabled}
+              aria-pressed={isSelected}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                isSelected
+                  ? 'bg-blue-600 border-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              #{name}
+              {count > 0 && <span className="ml-1 opacity-75">({count})</span>}
+            </button>
+          );
+        })}
+      </div>
+      {selected.length > 1 && (
+        <p className="mt-2 text-xs text-gray-500">
+          Mostrando posts com todas as tags selecionadas.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TagFilter;
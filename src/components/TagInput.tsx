@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { MAX_TAGS, hasTag, normalizeTag } from '../utils/tags';
+
+interface TagInputProps {
+  id: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Tags já usadas em outros posts, oferecidas no autocomplete
+  suggestions: string[];
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const TagInput: React.FC<TagInputProps> = ({
+  id,
+  value,
+  onChange,
+  suggestions,
+  disabled = false
+}) => {
+  const [draft, setDraft] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const query = normalizeTag(draft).toLocaleLowerCase('pt-BR');
+  const matches = suggestions
+    .filter(
+      (tag) =>
+        !hasTag(value, tag) && (!query || tag.toLocaleLowerCase('pt-BR').includes(query))
+    )
+    .slice(0, MAX_SUGGESTIONS);
+  const isFull = value.length >= MAX_TAGS;
+  const suggestionsOpen = showSuggestions && !isFull && matches.length > 0;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft('');
+    if (!tag || isFull || hasTag(value, tag)) return;
+    // Reaproveita a grafia de uma tag existente ("matemática" → "Matemática")
+    const existing = suggestions.find((candidate) => hasTag([candidate], tag));
+    onChange([...value, existing || tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((candidate) => candidate !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-blue-50 text-blue-700"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              disabled={disabled}
+              className="ml-1 text-blue-500 hover:text-blue-800"
+              aria-label={`Remover tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setShowSuggestions(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => {
+            if (draft) addTag(draft);
+            setShowSuggestions(false);
+          }}
+          disabled={disabled}
+          placeholder={isFull ? `Máximo de ${MAX_TAGS} tags` : 'Digite e pressione Enter...'}
+          className="flex-1 min-w-[10rem] py-1 text-sm outline-none bg-transparent"
+          role="combobox"
+          aria-expanded={suggestionsOpen}
+          aria-controls={`${id}-suggestions`}
+          aria-autocomplete="list"
+        />
+      </div>
+
+      {suggestionsOpen && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {matches.map((tag) => (
+            <li key={tag} role="option" aria-selected="false">
+              <button
+                type="button"
+                // Mantém o foco no input para o blur não fechar a lista antes do clique
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
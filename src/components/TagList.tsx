@@ -0,0 +1,29 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { tagPath } from '../utils/tags';
+
+interface TagListProps {
+  tags: string[];
+  className?: string;
+}
+
+const TagList: React.FC<TagListProps> = ({ tags, className = '' }) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul className={`flex flex-wrap gap-2 ${className}`} aria-label="Tags">
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Link
+            to={tagPath(tag)}
+            className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 hover:bg-blue-100"
+          >
+            #{tag}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default TagList;
@@ -5,7 +5,22 @@ import React, {
   useEffect,
   ReactNode,
 } from "react";
-import { authApi, LoginCredentials, User, AuthTokens } from "../services/api";
+import {
+  authApi,
+  refreshAccessToken,
+  LoginCredentials,
+  User,
+  AuthTokens,
+} from "../services/api";
+import { getErrorMessage } from "../services/apiError";
+import { tokenStorage } from "../services/tokenStorage";
+import { decodeUser } from "../services/decoders";
+import { getTokenExpiry, isTokenExpired } from "../utils/jwt";
+
+// Renova o access token um pouco antes de expirar
+const REFRESH_LEAD_TIME_MS = 60 * 1000;
+// setTimeout não aceita atrasos maiores que ~24,8 dias
+const MAX_TIMER_DELAY_MS = 2147483647;
 
 interface AuthContextType {
   user: User | null;
@@ -14,6 +29,7 @@ interface AuthContextType {
   logout: () => Promise<void>;
   isLoading: boolean;
   error: string | null;
+  expiresAt: number | null;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -22,17 +38,9 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
-const storeTokens = (tokens: AuthTokens) => {
-  sessionStorage.setItem("accessToken", tokens.accessToken);
-
-  if (tokens.refreshToken) {
-    localStorage.setItem("refreshToken", tokens.refreshToken);
-  }
-};
-
 const getStoredTokens = (): AuthTokens | null => {
-  const accessToken = sessionStorage.getItem("accessToken");
-  const refreshToken = localStorage.getItem("refreshToken");
+  const accessToken = tokenStorage.getAccessToken();
+  const refreshToken = tokenStorage.getRefreshToken();
 
   if (!accessToken) return null;
 
@@ -42,33 +50,67 @@ const getStoredTokens = (): AuthTokens | null => {
   };
 };
 
-const clearTokens = () => {
-  sessionStorage.removeItem("accessToken");
-  localStorage.removeItem("refreshToken");
-};
-
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
 
   useEffect(() => {
     const tokens = getStoredTokens();
-    if (tokens) {
-      const savedUser = localStorage.getItem("user");
+    if (tokens && isTokenExpired(tokens.accessToken)) {
+      tokenStorage.clear();
+    } else if (tokens) {
+      const savedUser = tokenStorage.getUser();
       if (savedUser) {
         try {
-          setUser(JSON.parse(savedUser));
+          setUser(decodeUser(JSON.parse(savedUser)));
+          setExpiresAt(getTokenExpiry(tokens.accessToken));
         } catch (error) {
           console.error("Error parsing saved user:", error);
-          clearTokens();
-          localStorage.removeItem("user");
+          tokenStorage.clear();
         }
       }
     }
     setIsLoading(false);
   }, []);
 
+  useEffect(() => {
+    return tokenStorage.subscribe((accessToken) => {
+      if (accessToken) {
+        setExpiresAt(getTokenExpiry(accessToken));
+      } else {
+        setExpiresAt(null);
+        setUser(null);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user || expiresAt === null) return;
+
+    // Sem refresh token não há como renovar: a sessão termina na expiração
+    const canRefresh = !!tokenStorage.getRefreshToken();
+    const leadTime = canRefresh ? REFRESH_LEAD_TIME_MS : 0;
+    const delay = Math.min(
+      Math.max(expiresAt - Date.now() - leadTime, 0),
+      MAX_TIMER_DELAY_MS
+    );
+
+    const timer = setTimeout(() => {
+      if (!canRefresh) {
+        tokenStorage.clear();
+        return;
+      }
+
+      refreshAccessToken().catch((err) => {
+        console.error("Silent token refresh failed:", err);
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [user, expiresAt]);
+
   const login = async (credentials: LoginCredentials) => {
     try {
       setIsLoading(true);
@@ -76,25 +118,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       const response = await authApi.login(credentials);
 
-      storeTokens({
+      tokenStorage.setTokens({
         accessToken: response.accessToken,
         refreshToken: response.refreshToken,
       });
-
-      setUser({ ...response.user, role: "professor", name: response.user.email });
-      localStorage.setItem(
-        "user",
-        JSON.stringify({
-          ...response.user,
-          role: "professor",
-          name: response.user.email,
-        })
-      );
-    } catch (err: any) {
+      tokenStorage.setUser(response.user);
+      setUser(response.user);
+    } catch (err) {
       console.error("Login error:", err);
       setError(
-        err.response?.data?.message ||
-          "Erro ao fazer login. Verifique suas credenciais."
+        getErrorMessage(err, {
+          unknown: "Erro ao fazer login. Verifique suas credenciais.",
+        })
       );
       throw err;
     } finally {
@@ -109,8 +144,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.error("Logout error:", err);
     } finally {
       setUser(null);
-      clearTokens();
-      localStorage.removeItem("user");
+      tokenStorage.clear();
     }
   };
 
@@ -121,6 +155,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     logout,
     isLoading,
     error,
+    expiresAt,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
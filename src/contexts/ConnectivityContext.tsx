@@ -0,0 +1,73 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  ReactNode,
+} from "react";
+import {
+  connectivityMonitor,
+  ConnectivityState,
+  ConnectivityStatus,
+} from "../services/connectivity";
+
+interface ConnectivityContextType {
+  status: ConnectivityStatus;
+  isOnline: boolean;
+  consecutiveFailures: number;
+  lastSuccessAt: number | null;
+  checkNow: () => Promise<void>;
+}
+
+const ConnectivityContext = createContext<
+  ConnectivityContextType | undefined
+>(undefined);
+
+interface ConnectivityProviderProps {
+  children: ReactNode;
+}
+
+export const ConnectivityProvider: React.FC<ConnectivityProviderProps> = ({
+  children,
+}) => {
+  const [state, setState] = useState<ConnectivityState>(
+    connectivityMonitor.getState
+  );
+
+  useEffect(() => {
+    const unsubscribe = connectivityMonitor.subscribe(setState);
+    connectivityMonitor.start();
+
+    return () => {
+      unsubscribe();
+      connectivityMonitor.stop();
+    };
+  }, []);
+
+  const checkNow = useCallback(() => connectivityMonitor.checkNow(), []);
+
+  const value: ConnectivityContextType = {
+    status: state.status,
+    isOnline: state.status === "online",
+    consecutiveFailures: state.consecutiveFailures,
+    lastSuccessAt: state.lastSuccessAt,
+    checkNow,
+  };
+
+  return (
+    <ConnectivityContext.Provider value={value}>
+      {children}
+    </ConnectivityContext.Provider>
+  );
+};
+
+export const useConnectivity = (): ConnectivityContextType => {
+  const context = useContext(ConnectivityContext);
+  if (context === undefined) {
+    throw new Error(
+      "useConnectivity must be used within a ConnectivityProvider"
+    );
+  }
+  return context;
+};
@@ -0,0 +1,495 @@
+import { Post } from "../services/api";
+import { ApiError } from "../services/apiError";
+import {
+  initialPostsState,
+  postsReducer,
+  PostsAction,
+  PostsState,
+} from "./PostsContext";
+
+/**
+ * Regras do cache normalizado de posts, testadas direto no reducer
+ *
+ * `Date.now` é fixado para que validade e `fetchedAt` sejam previsíveis.
+ */
+
+const NOW = Date.parse("2026-10-19T12:00:00.000Z");
+
+const makePost = (id: string, overrides: Partial<Post> = {}): Post => ({
+  _id: id,
+  title: `Post ${id}`,
+  author: "João Silva",
+  authorId: "user-1",
+  content: `<p>Conteúdo do post ${id}</p>`,
+  status: "published",
+  tags: [],
+  createdAt: "2026-10-01T10:00:00.000Z",
+  updatedAt: "2026-10-01T10:00:00.000Z",
+  ...overrides,
+});
+
+const pagination = (total: number) => ({
+  page: 1,
+  limit: 10,
+  total,
+  totalPages: 1,
+});
+
+const reduce = (state: PostsState, ...actions: PostsAction[]) =>
+  actions.reduce(postsReducer, state);
+
+// Busca `posts` na listagem `key`, como o fetchPosts faria
+const fetchList = (state: PostsState, key: string, posts: Post[]) =>
+  reduce(
+    state,
+    { type: "FETCH_POSTS_START", payload: { key, revalidate: !!state.lists[key] } },
+    {
+      type: "FETCH_POSTS_SUCCESS",
+      payload: { key, posts, pagination: pagination(posts.length) },
+    }
+  );
+
+const networkError = () => new ApiError({ kind: "network" });
+
+let now = NOW;
+
+beforeEach(() => {
+  now = NOW;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("stale-while-revalidate", () => {
+  it("guarda a lista como ids e os posts uma única vez", () => {
+    const a = makePost("a");
+    const b = makePost("b");
+
+    let state = fetchList(initialPostsState, "todos", [a, b]);
+    state = fetchList(state, "busca", [b]);
+
+    expect(state.lists.todos.ids).toEqual(["a", "b"]);
+    expect(state.lists.busca.ids).toEqual(["b"]);
+    expect(Object.keys(state.entities)).toEqual(["a", "b"]);
+    expect(state.fetchedAt).toEqual({ a: NOW, b: NOW });
+    expect(state.listStatus.status).toBe("success");
+  });
+
+  it("revalida a lista em cache sem tirá-la da tela", () => {
+    let state = fetchList(initialPostsState, "todos", [makePost("a")]);
+    now = NOW + 2 * 60 * 1000;
+
+    state = postsReducer(state, {
+      type: "FETCH_POSTS_START",
+      payload: { key: "todos", revalidate: true },
+    });
+
+    expect(state.listStatus).toEqual({ status: "revalidating", error: null });
+    expect(state.lists.todos.ids).toEqual(["a"]);
+    expect(state.entities.a).toBeDefined();
+  });
+
+  it("substitui a lista e atualiza o post quando a revalidação responde", () => {
+    let state = fetchList(initialPostsState, "todos", [makePost("a")]);
+    now = NOW + 2 * 60 * 1000;
+    const updated = makePost("a", { title: "Título novo" });
+
+    state = fetchList(state, "todos", [updated, makePost("c")]);
+
+    expect(state.lists.todos.ids).toEqual(["a", "c"]);
+    expect(state.lists.todos.fetchedAt).toBe(now);
+    expect(state.entities.a.title).toBe("Título novo");
+    expect(state.fetchedAt.a).toBe(now);
+  });
+
+  it("mantém a lista em cache quando a revalidação falha", () => {
+    let state = fetchList(initialPostsState, "todos", [makePost("a")]);
+    const error = networkError();
+
+    state = reduce(
+      state,
+      { type: "FETCH_POSTS_START", payload: { key: "todos", revalidate: true } },
+      { type: "FETCH_POSTS_ERROR", payload: { key: "todos", error } }
+    );
+
+    expect(state.listStatus).toEqual({ status: "error", error });
+    expect(state.lists.todos.ids).toEqual(["a"]);
+    expect(state.lists.todos.fetchedAt).toBe(NOW);
+  });
+
+  it("serve o cache válido sem mudar os dados", () => {
+    const state = fetchList(initialPostsState, "todos", [makePost("a")]);
+
+    const next = postsReducer(
+      { ...state, activeListKey: "outra" },
+      { type: "FETCH_POSTS_CACHED", payload: "todos" }
+    );
+
+    expect(next.activeListKey).toBe("todos");
+    expect(next.listStatus.status).toBe("success");
+    expect(next.lists).toBe(state.lists);
+    expect(next.entities).toBe(state.entities);
+  });
+
+  it("ignora a falha de uma listagem que já saiu da tela", () => {
+    let state = fetchList(initialPostsState, "todos", [makePost("a")]);
+    state = postsReducer(state, {
+      type: "FETCH_POSTS_START",
+      payload: { key: "busca", revalidate: false },
+    });
+
+    const next = postsReducer(state, {
+      type: "FETCH_POSTS_ERROR",
+      payload: { key: "todos", error: networkError() },
+    });
+
+    expect(next).toBe(state);
+  });
+});
+
+describe("estado por operação e por post", () => {
+  it("acompanha a busca de cada post separadamente", () => {
+    const error = networkError();
+
+    const state = reduce(
+      initialPostsState,
+      { type: "FETCH_POST_START", payload: { id: "a", revalidate: false } },
+      { type: "FETCH_POST_START", payload: { id: "b", revalidate: false } },
+      { type: "FETCH_POST_SUCCESS", payload: makePost("a") },
+      { type: "FETCH_POST_ERROR", payload: { id: "b", error } }
+    );
+
+    expect(state.postStatus.a).toEqual({ status: "success", error: null });
+    expect(state.postStatus.b).toEqual({ status: "error", error });
+    expect(state.listStatus.status).toBe("idle");
+  });
+
+  it("mantém a cópia do post quando a revalidação falha", () => {
+    const state = reduce(
+      initialPostsState,
+      { type: "FETCH_POST_SUCCESS", payload: makePost("a") },
+      { type: "FETCH_POST_START", payload: { id: "a", revalidate: true } },
+      { type: "FETCH_POST_ERROR", payload: { id: "a", error: networkError() } }
+    );
+
+    expect(state.entities.a).toBeDefined();
+    expect(state.postStatus.a.status).toBe("error");
+  });
+
+  it("remove de todas as listas o post que o servidor não encontrou", () => {
+    let state = fetchList(initialPostsState, "todos", [makePost("a"), makePost("b")]);
+
+    state = postsReducer(state, {
+      type: "FETCH_POST_ERROR",
+      payload: { id: "a", error: new ApiError({ kind: "not_found", status: 404 }) },
+    });
+
+    expect(state.entities.a).toBeUndefined();
+    expect(state.lists.todos.ids).toEqual(["b"]);
+    expect(state.lists.todos.pagination.total).toBe(1);
+  });
+
+  it("não trata busca cancelada como erro", () => {
+    const cancelled = new ApiError({ kind: "cancelled" });
+
+    const withCopy = reduce(
+      initialPostsState,
+      { type: "FETCH_POST_SUCCESS", payload: makePost("a") },
+      { type: "FETCH_POST_START", payload: { id: "a", revalidate: true } },
+      { type: "FETCH_POST_ERROR", payload: { id: "a", error: cancelled } }
+    );
+    const withoutCopy = reduce(
+      initialPostsState,
+      { type: "FETCH_POST_START", payload: { id: "b", revalidate: false } },
+      { type: "FETCH_POST_ERROR", payload: { id: "b", error: cancelled } }
+    );
+
+    expect(withCopy.postStatus.a.status).toBe("success");
+    expect(withoutCopy.postStatus.b.status).toBe("idle");
+  });
+
+  it("registra mutações por id sem colocar a lista em carregamento", () => {
+    let state = fetchList(initialPostsState, "todos", [makePost("a"), makePost("b")]);
+
+    state = reduce(
+      state,
+      { type: "DELETE_POST_START", payload: "a" },
+      { type: "DELETE_POST_START", payload: "b" },
+      { type: "DELETE_POST_ERROR", payload: { id: "b", error: networkError() } }
+    );
+
+    expect(state.listStatus.status).toBe("success");
+    expect(state.mutations.delete.a).toEqual({ status: "pending", error: null });
+    expect(state.mutations.delete.b.status).toBe("error");
+  });
+
+  it("descarta o erro de uma mutação ou de todas do tipo", () => {
+    const state = reduce(
+      initialPostsState,
+      { type: "DELETE_POST_START", payload: "a" },
+      { type: "DELETE_POST_ERROR", payload: { id: "a", error: networkError() } },
+      { type: "DELETE_POST_START", payload: "b" },
+      { type: "DELETE_POST_ERROR", payload: { id: "b", error: networkError() } }
+    );
+
+    const one = postsReducer(state, {
+      type: "RESET_MUTATION",
+      payload: { kind: "delete", id: "a" },
+    });
+    const all = postsReducer(state, {
+      type: "RESET_MUTATION",
+      payload: { kind: "delete" },
+    });
+
+    expect(Object.keys(one.mutations.delete)).toEqual(["b"]);
+    expect(all.mutations.delete).toEqual({});
+  });
+});
+
+describe("mutações otimistas", () => {
+  it("devolve o post excluído à mesma posição e versão em cada lista", () => {
+    const b = makePost("b");
+    let state = fetchList(initialPostsState, "busca", [b, makePost("c")]);
+    state = fetchList(state, "todos", [makePost("a"), b, makePost("c")]);
+    const before = state;
+
+    state = postsReducer(state, { type: "DELETE_POST_START", payload: "b" });
+    expect(state.lists.todos.ids).toEqual(["a", "c"]);
+    expect(state.lists.busca.ids).toEqual(["c"]);
+    expect(state.entities.b).toBeUndefined();
+
+    state = postsReducer(state, {
+      type: "DELETE_POST_ERROR",
+      payload: { id: "b", error: networkError() },
+    });
+
+    expect(state.lists).toEqual(before.lists);
+    expect(state.entities).toEqual(before.entities);
+    expect(state.fetchedAt).toEqual(before.fetchedAt);
+    expect(state.snapshots).toEqual({});
+  });
+
+  it("desfaz a edição otimista sem marcar a cópia como sincronizada", () => {
+    const original = makePost("a");
+    let state = fetchList(initialPostsState, "todos", [original]);
+    now = NOW + 30 * 1000;
+
+    state = postsReducer(state, {
+      type: "UPDATE_POST_START",
+      payload: { id: "a", post: { ...original, title: "Rascunho de título" } },
+    });
+    expect(state.entities.a.title).toBe("Rascunho de título");
+    expect(state.fetchedAt.a).toBe(NOW);
+
+    state = postsReducer(state, {
+      type: "UPDATE_POST_ERROR",
+      payload: { id: "a", error: networkError() },
+    });
+
+    expect(state.entities.a).toBe(original);
+    expect(state.fetchedAt.a).toBe(NOW);
+    expect(state.mutations.update.a.status).toBe("error");
+  });
+
+  it("restaura a versão anterior à primeira de duas edições seguidas", () => {
+    const original = makePost("a");
+    const state = reduce(
+      fetchList(initialPostsState, "todos", [original]),
+      {
+        type: "UPDATE_POST_START",
+        payload: { id: "a", post: { ...original, title: "Primeira" } },
+      },
+      {
+        type: "UPDATE_POST_START",
+        payload: { id: "a", post: { ...original, title: "Segunda" } },
+      },
+      { type: "UPDATE_POST_ERROR", payload: { id: "a", error: networkError() } }
+    );
+
+    expect(state.entities.a).toBe(original);
+  });
+
+  it("remove o post criado quando o servidor recusa", () => {
+    let state = fetchList(initialPostsState, "todos", [makePost("a")]);
+    const before = state;
+
+    state = reduce(
+      state,
+      { type: "CREATE_POST_START", payload: makePost("temp-1") },
+      {
+        type: "CREATE_POST_ERROR",
+        payload: { id: "temp-1", error: networkError() },
+      }
+    );
+
+    expect(state.lists).toEqual(before.lists);
+    expect(state.entities).toEqual(before.entities);
+    expect(state.mutations.create["temp-1"].status).toBe("error");
+  });
+
+  it("troca o id temporário pelo definitivo em todas as listas", () => {
+    let state = fetchList(initialPostsState, "busca", [makePost("b")]);
+    state = fetchList(state, "todos", [makePost("a")]);
+    state = postsReducer(state, {
+      type: "CREATE_POST_START",
+      payload: makePost("temp-1"),
+    });
+    // Outra listagem que já mostra o post temporário, ex.: aberta durante o envio
+    state = {
+      ...state,
+      lists: {
+        ...state.lists,
+        recentes: { ...state.lists.todos, ids: ["a", "temp-1"] },
+      },
+      currentPostId: "temp-1",
+    };
+
+    const saved = makePost("post-9", { title: "Post salvo" });
+    state = postsReducer(state, {
+      type: "CREATE_POST_SUCCESS",
+      payload: { tempId: "temp-1", post: saved },
+    });
+
+    expect(state.lists.todos.ids).toEqual(["post-9", "a"]);
+    expect(state.lists.recentes.ids).toEqual(["a", "post-9"]);
+    expect(state.entities["temp-1"]).toBeUndefined();
+    expect(state.entities["post-9"]).toBe(saved);
+    expect(state.currentPostId).toBe("post-9");
+    expect(state.mutations.create).toEqual({});
+    expect(state.snapshots).toEqual({});
+    // Listas sem o post temporário podem precisar dele: são revalidadas
+    expect(state.lists.busca.ids).toEqual(["b"]);
+    expect(state.lists.busca.fetchedAt).toBe(0);
+  });
+
+  it("não duplica o post que chegou pelo servidor antes da confirmação", () => {
+    let state = fetchList(initialPostsState, "todos", [makePost("a")]);
+    state = postsReducer(state, {
+      type: "CREATE_POST_START",
+      payload: makePost("temp-1"),
+    });
+    state = {
+      ...state,
+      lists: {
+        ...state.lists,
+        todos: { ...state.lists.todos, ids: ["post-9", "temp-1", "a"] },
+      },
+    };
+
+    state = postsReducer(state, {
+      type: "CREATE_POST_SUCCESS",
+      payload: { tempId: "temp-1", post: makePost("post-9") },
+    });
+
+    expect(state.lists.todos.ids).toEqual(["post-9", "a"]);
+  });
+});
+
+describe("cópia do dispositivo", () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  it("não sobrescreve um post que veio do servidor depois da cópia", () => {
+    const fresh = makePost("a", { title: "Versão do servidor" });
+    const state = fetchList(initialPostsState, "todos", [fresh]);
+
+    const next = postsReducer(state, {
+      type: "HYDRATE",
+      payload: {
+        posts: [
+          { post: makePost("a", { title: "Versão salva" }), syncedAt: NOW - DAY_MS },
+        ],
+        lists: [],
+        offlineIds: [],
+      },
+    });
+
+    expect(next.entities.a).toBe(fresh);
+    expect(next.fetchedAt.a).toBe(NOW);
+  });
+
+  it("entra como dado vencido, com a data da última sincronização", () => {
+    const saved = makePost("a");
+
+    const state = postsReducer(initialPostsState, {
+      type: "HYDRATE",
+      payload: {
+        posts: [{ post: saved, syncedAt: NOW - DAY_MS }],
+        lists: [
+          {
+            key: "todos",
+            ids: ["a"],
+            pagination: pagination(1),
+            syncedAt: NOW - DAY_MS,
+          },
+        ],
+        offlineIds: ["a"],
+      },
+    });
+
+    expect(state.entities.a).toBe(saved);
+    expect(state.fetchedAt.a).toBe(NOW - DAY_MS);
+    expect(state.lists.todos).toEqual({
+      ids: ["a"],
+      pagination: pagination(1),
+      fetchedAt: NOW - DAY_MS,
+      syncedAt: NOW - DAY_MS,
+    });
+    expect(state.offlineIds).toEqual({ a: true });
+  });
+
+  it("mantém a lista já buscada e descarta listas com posts ausentes", () => {
+    const state = fetchList(initialPostsState, "todos", [makePost("a")]);
+
+    const next = postsReducer(state, {
+      type: "HYDRATE",
+      payload: {
+        posts: [{ post: makePost("b"), syncedAt: NOW - DAY_MS }],
+        lists: [
+          { key: "todos", ids: ["b"], pagination: pagination(1), syncedAt: NOW - DAY_MS },
+          { key: "busca", ids: ["b", "x"], pagination: pagination(2), syncedAt: NOW - DAY_MS },
+        ],
+        offlineIds: [],
+      },
+    });
+
+    expect(next.lists.todos.ids).toEqual(["a"]);
+    expect(next.lists.busca).toBeUndefined();
+  });
+
+  it("passa a busca em andamento para revalidação quando a cópia cobre a tela", () => {
+    const state = reduce(
+      initialPostsState,
+      { type: "FETCH_POSTS_START", payload: { key: "todos", revalidate: false } },
+      { type: "FETCH_POST_START", payload: { id: "a", revalidate: false } },
+      {
+        type: "HYDRATE",
+        payload: {
+          posts: [{ post: makePost("a"), syncedAt: NOW - DAY_MS }],
+          lists: [
+            { key: "todos", ids: ["a"], pagination: pagination(1), syncedAt: NOW - DAY_MS },
+          ],
+          offlineIds: [],
+        },
+      }
+    );
+
+    expect(state.listStatus.status).toBe("revalidating");
+    expect(state.postStatus.a.status).toBe("revalidating");
+  });
+
+  it("limpa as marcações offline quando a cópia troca de dono", () => {
+    const state = reduce(
+      initialPostsState,
+      { type: "SET_AVAILABLE_OFFLINE", payload: { id: "a", available: true } },
+      { type: "SET_AVAILABLE_OFFLINE", payload: { id: "b", available: true } },
+      { type: "SET_AVAILABLE_OFFLINE", payload: { id: "a", available: false } }
+    );
+    expect(state.offlineIds).toEqual({ b: true });
+
+    expect(
+      postsReducer(state, { type: "CLEAR_AVAILABLE_OFFLINE" }).offlineIds
+    ).toEqual({});
+  });
+});
@@ -4,185 +4,727 @@ import React, {
   useReducer,
   useCallback,
   useEffect,
+  useRef,
+  useState,
+  useMemo,
 } from "react";
 import {
   postsApi,
   Post,
   PostsResponse,
+  PostsParams,
+  RequestOptions,
   CreatePostParams,
   UpdatePostParams,
+  TagSummary,
+  RealtimeEvent,
+  DEFAULT_PAGE_SIZE,
 } from "../services/api";
+import toast from "react-hot-toast";
+import { ApiError, getErrorMessage, toApiError } from "../services/apiError";
+import { realtimeClient } from "../services/realtime";
+import { connectivityMonitor } from "../services/connectivity";
+import { offlineCache, OfflineSnapshot } from "../services/offlineCache";
+import { useAuth } from "./AuthContext";
+import { isPostPublic } from "../utils/postStatus";
 
-interface PostsState {
-  posts: Post[];
-  currentPost: Post | null;
-  loading: boolean;
-  error: string | null;
-  lastFetch: number | null;
+export interface PostsPagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+// Uma página da listagem, guardada como ids para compartilhar os posts
+interface PostsListCache {
+  ids: string[];
+  pagination: PostsPagination;
+  // `fetchedAt` zera quando a lista é invalidada; `syncedAt` guarda a última resposta
+  fetchedAt: number;
+  syncedAt: number;
+}
+
+// "revalidating" indica que há dados na tela sendo atualizados
+export type FetchStatus =
+  | "idle"
+  | "loading"
+  | "revalidating"
+  | "success"
+  | "error";
+
+export interface FetchState {
+  status: FetchStatus;
+  error: ApiError | null;
+}
+
+export type MutationKind = "create" | "update" | "delete" | "restore";
+
+// Sem entrada para a operação significa que nada está em andamento
+export interface MutationState {
+  status: "pending" | "error";
+  error: ApiError | null;
+}
+
+// Operações por id do post; criações usam o id temporário
+type MutationsState = Record<MutationKind, Record<string, MutationState>>;
+
+// O que uma mutação otimista alterou, para desfazer se o servidor recusar
+interface MutationSnapshot {
+  // Versão anterior do post; null quando ele ainda não existia
+  post: Post | null;
+  fetchedAt?: number;
+  // Posição do post em cada listagem em cache
+  positions: Record<string, number>;
+}
+
+export interface PostsState {
+  // Posts normalizados por id: listas e a página do post leem daqui
+  entities: Record<string, Post>;
+  // Quando cada post veio do servidor pela última vez
+  fetchedAt: Record<string, number>;
+  // Listagens já buscadas, indexadas por `listKey`
+  lists: Record<string, PostsListCache>;
+  activeListKey: string | null;
+  currentPostId: string | null;
+  // Posts anunciados em tempo real que ainda não entraram na lista
+  pendingPostIds: string[];
+  // Cada busca e mutação tem o próprio estado: uma não apaga a outra
+  listStatus: FetchState;
+  postStatus: Record<string, FetchState>;
+  mutations: MutationsState;
+  // Estado anterior às mutações em andamento, por `snapshotKey`
+  snapshots: Record<string, MutationSnapshot>;
+  // Posts marcados como "disponível offline"
+  offlineIds: Record<string, boolean>;
   cacheExpiry: number;
 }
 
-type PostsAction =
-  | { type: "FETCH_POSTS_START" }
-  | { type: "FETCH_POSTS_SUCCESS"; payload: Post[] }
-  | { type: "FETCH_POSTS_ERROR"; payload: string }
-  | { type: "FETCH_POST_START" }
+export type PostsAction =
+  | { type: "FETCH_POSTS_START"; payload: { key: string; revalidate: boolean } }
+  | { type: "FETCH_POSTS_CACHED"; payload: string }
+  | {
+      type: "FETCH_POSTS_SUCCESS";
+      payload: { key: string; posts: Post[]; pagination: PostsPagination };
+    }
+  | { type: "FETCH_POSTS_ERROR"; payload: { key: string; error: ApiError } }
+  | { type: "FETCH_POST_START"; payload: { id: string; revalidate: boolean } }
+  | { type: "FETCH_POST_CACHED"; payload: string }
   | { type: "FETCH_POST_SUCCESS"; payload: Post }
-  | { type: "FETCH_POST_ERROR"; payload: string }
-  | { type: "CREATE_POST_START" }
-  | { type: "CREATE_POST_SUCCESS"; payload: Post }
-  | { type: "CREATE_POST_ERROR"; payload: string }
-  | { type: "UPDATE_POST_START" }
+  | { type: "FETCH_POST_ERROR"; payload: { id: string; error: ApiError } }
+  | { type: "CREATE_POST_START"; payload: Post }
+  | { type: "CREATE_POST_SUCCESS"; payload: { tempId: string; post: Post } }
+  | { type: "CREATE_POST_ERROR"; payload: { id: string; error: ApiError } }
+  | { type: "UPDATE_POST_START"; payload: { id: string; post: Post | null } }
   | { type: "UPDATE_POST_SUCCESS"; payload: Post }
-  | { type: "UPDATE_POST_ERROR"; payload: string }
-  | { type: "DELETE_POST_START" }
+  | { type: "UPDATE_POST_ERROR"; payload: { id: string; error: ApiError } }
+  | { type: "DELETE_POST_START"; payload: string }
   | { type: "DELETE_POST_SUCCESS"; payload: string }
-  | { type: "DELETE_POST_ERROR"; payload: string }
-  | { type: "CLEAR_ERROR" }
-  | { type: "CLEAR_CURRENT_POST" };
-
-const initialState: PostsState = {
-  posts: [],
-  currentPost: null,
-  loading: false,
-  error: null,
-  lastFetch: null,
-  cacheExpiry: 5 * 60 * 1000,
+  | { type: "DELETE_POST_ERROR"; payload: { id: string; error: ApiError } }
+  | { type: "RESTORE_POST_START"; payload: string }
+  | { type: "RESTORE_POST_SUCCESS"; payload: Post }
+  | { type: "RESTORE_POST_ERROR"; payload: { id: string; error: ApiError } }
+  | { type: "RESET_MUTATION"; payload: { kind: MutationKind; id?: string } }
+  | { type: "POST_RECEIVED"; payload: Post }
+  | { type: "REALTIME_POST_CREATED"; payload: Post }
+  | { type: "REALTIME_POST_UPDATED"; payload: Post }
+  | { type: "REALTIME_POST_DELETED"; payload: string }
+  | { type: "CLEAR_PENDING_POSTS" }
+  | { type: "CLEAR_LIST_ERROR" }
+  | { type: "CLEAR_POST_ERROR"; payload: string }
+  | { type: "CLEAR_CURRENT_POST" }
+  | { type: "HYDRATE"; payload: OfflineSnapshot }
+  | {
+      type: "SET_AVAILABLE_OFFLINE";
+      payload: { id: string; available: boolean };
+    }
+  | { type: "CLEAR_AVAILABLE_OFFLINE" };
+
+// Depois disso os dados ainda aparecem, mas são revalidados em segundo plano
+const STALE_AFTER_MS = 60 * 1000;
+// Combinações de filtros guardadas; as mais antigas saem primeiro
+const MAX_CACHED_LISTS = 20;
+
+const initialPagination: PostsPagination = {
+  page: 1,
+  limit: DEFAULT_PAGE_SIZE,
+  total: 0,
+  totalPages: 0,
+};
+
+export const initialPostsState: PostsState = {
+  entities: {},
+  fetchedAt: {},
+  lists: {},
+  activeListKey: null,
+  currentPostId: null,
+  pendingPostIds: [],
+  listStatus: { status: "idle", error: null },
+  postStatus: {},
+  mutations: { create: {}, update: {}, delete: {}, restore: {} },
+  snapshots: {},
+  offlineIds: {},
+  cacheExpiry: STALE_AFTER_MS,
+};
+
+const IDLE: FetchState = { status: "idle", error: null };
+const SUCCESS: FetchState = { status: "success", error: null };
+const PENDING: MutationState = { status: "pending", error: null };
+
+// Posts criados aparecem com este prefixo até o servidor devolver o id real
+const TEMP_ID_PREFIX = "temp-";
+let tempIdSequence = 0;
+
+export const isTemporaryPostId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+// Mesmos filtros geram a mesma chave, independente da ordem dos campos
+const listKey = (params: PostsParams = {}) =>
+  JSON.stringify([
+    params.search?.trim() || "",
+    params.page || 1,
+    params.limit || DEFAULT_PAGE_SIZE,
+    params.sort || "",
+    params.order || "",
+    params.status || "",
+    params.tags || [],
+  ]);
+
+const isFresh = (fetchedAt: number | undefined, cacheExpiry: number) =>
+  fetchedAt !== undefined && Date.now() - fetchedAt < cacheExpiry;
+
+const setPostStatus = (
+  state: PostsState,
+  id: string,
+  status: FetchState
+): PostsState => ({
+  ...state,
+  postStatus: { ...state.postStatus, [id]: status },
+});
+
+// `null` encerra a operação (sucesso ou erro descartado)
+const setMutation = (
+  state: PostsState,
+  kind: MutationKind,
+  id: string,
+  mutation: MutationState | null
+): PostsState => {
+  const { [id]: previous, ...others } = state.mutations[kind];
+  return {
+    ...state,
+    mutations: {
+      ...state.mutations,
+      [kind]: mutation ? { ...others, [id]: mutation } : others,
+    },
+  };
+};
+
+const upsertPosts = (state: PostsState, posts: Post[]): PostsState => {
+  const now = Date.now();
+  const entities = { ...state.entities };
+  const fetchedAt = { ...state.fetchedAt };
+  posts.forEach((post) => {
+    entities[post._id] = post;
+    fetchedAt[post._id] = now;
+  });
+  return { ...state, entities, fetchedAt };
+};
+
+const removeEntity = (state: PostsState, id: string): PostsState => {
+  const { [id]: removed, ...entities } = state.entities;
+  const { [id]: removedAt, ...fetchedAt } = state.fetchedAt;
+  return { ...state, entities, fetchedAt };
+};
+
+const removePost = (state: PostsState, id: string): PostsState => {
+  const lists: Record<string, PostsListCache> = {};
+  Object.keys(state.lists).forEach((key) => {
+    const list = state.lists[key];
+    lists[key] = list.ids.includes(id)
+      ? {
+          ...list,
+          ids: list.ids.filter((listedId) => listedId !== id),
+          pagination: {
+            ...list.pagination,
+            total: Math.max(0, list.pagination.total - 1),
+          },
+        }
+      : list;
+  });
+
+  return {
+    ...removeEntity(state, id),
+    lists,
+    pendingPostIds: state.pendingPostIds.filter((pendingId) => pendingId !== id),
+  };
+};
+
+const snapshotKey = (kind: MutationKind, id: string) => `${kind}:${id}`;
+
+// Registra o post e suas posições antes de aplicar uma mutação otimista
+const takeSnapshot = (
+  state: PostsState,
+  kind: MutationKind,
+  id: string
+): PostsState => {
+  const key = snapshotKey(kind, id);
+  // Com outra mutação igual em andamento vale o estado anterior à primeira
+  if (state.snapshots[key]) return state;
+
+  const positions: Record<string, number> = {};
+  Object.keys(state.lists).forEach((cachedKey) => {
+    const index = state.lists[cachedKey].ids.indexOf(id);
+    if (index >= 0) positions[cachedKey] = index;
+  });
+
+  return {
+    ...state,
+    snapshots: {
+      ...state.snapshots,
+      [key]: {
+        post: state.entities[id] ?? null,
+        fetchedAt: state.fetchedAt[id],
+        positions,
+      },
+    },
+  };
+};
+
+const dropSnapshot = (
+  state: PostsState,
+  kind: MutationKind,
+  id: string
+): PostsState => {
+  const { [snapshotKey(kind, id)]: dropped, ...snapshots } = state.snapshots;
+  return { ...state, snapshots };
+};
+
+// Desfaz a mutação otimista: o post volta à versão e às posições anteriores
+const restoreSnapshot = (
+  state: PostsState,
+  kind: MutationKind,
+  id: string
+): PostsState => {
+  const snapshot = state.snapshots[snapshotKey(kind, id)];
+  const next = dropSnapshot(state, kind, id);
+  if (!snapshot) return next;
+  if (!snapshot.post) return removePost(next, id);
+
+  const lists = { ...next.lists };
+  Object.keys(snapshot.positions).forEach((key) => {
+    const list = lists[key];
+    if (!list || list.ids.includes(id)) return;
+    const ids = [...list.ids];
+    ids.splice(snapshot.positions[key], 0, id);
+    lists[key] = {
+      ...list,
+      ids,
+      pagination: { ...list.pagination, total: list.pagination.total + 1 },
+    };
+  });
+
+  return {
+    ...next,
+    entities: { ...next.entities, [id]: snapshot.post },
+    fetchedAt:
+      snapshot.fetchedAt === undefined
+        ? next.fetchedAt
+        : { ...next.fetchedAt, [id]: snapshot.fetchedAt },
+    lists,
+  };
+};
+
+// Troca o id temporário pelo post salvo, mantendo a posição nas listas
+const replaceTemporaryPost = (
+  state: PostsState,
+  tempId: string,
+  post: Post
+): PostsState => {
+  const next = upsertPosts(removeEntity(state, tempId), [post]);
+  const lists: Record<string, PostsListCache> = {};
+  // Listas sem o post temporário são revalidadas ao voltar a elas
+  Object.keys(next.lists).forEach((key) => {
+    const list = next.lists[key];
+    if (!list.ids.includes(tempId)) {
+      lists[key] = { ...list, fetchedAt: 0 };
+    } else if (list.ids.includes(post._id)) {
+      // O post já chegou pelo servidor (tempo real ou nova busca)
+      lists[key] = {
+        ...list,
+        ids: list.ids.filter((listedId) => listedId !== tempId),
+        pagination: {
+          ...list.pagination,
+          total: Math.max(0, list.pagination.total - 1),
+        },
+      };
+    } else {
+      lists[key] = {
+        ...list,
+        ids: list.ids.map((listedId) => (listedId === tempId ? post._id : listedId)),
+      };
+    }
+  });
+
+  return {
+    ...next,
+    lists,
+    currentPostId:
+      state.currentPostId === tempId ? post._id : state.currentPostId,
+    pendingPostIds: state.pendingPostIds.filter(
+      (pendingId) => pendingId !== post._id
+    ),
+  };
+};
+
+// Mantém só as listagens mais recentes, preservando a que está na tela
+const pruneLists = (
+  lists: Record<string, PostsListCache>,
+  activeListKey: string | null
+) => {
+  const keys = Object.keys(lists);
+  if (keys.length <= MAX_CACHED_LISTS) return lists;
+
+  const kept: Record<string, PostsListCache> = {};
+  keys
+    .sort((a, b) => lists[b].fetchedAt - lists[a].fetchedAt)
+    .filter((key, index) => index < MAX_CACHED_LISTS || key === activeListKey)
+    .forEach((key) => {
+      kept[key] = lists[key];
+    });
+  return kept;
 };
 
-function postsReducer(state: PostsState, action: PostsAction): PostsState {
+export function postsReducer(state: PostsState, action: PostsAction): PostsState {
   switch (action.type) {
     case "FETCH_POSTS_START":
       return {
         ...state,
-        loading: true,
-        error: null,
+        activeListKey: action.payload.key,
+        listStatus: {
+          status: action.payload.revalidate ? "revalidating" : "loading",
+          error: null,
+        },
       };
 
-    case "FETCH_POSTS_SUCCESS":
+    case "FETCH_POSTS_CACHED":
       return {
         ...state,
-        posts: action.payload,
-        loading: false,
-        error: null,
-        lastFetch: Date.now(),
+        activeListKey: action.payload,
+        listStatus: SUCCESS,
       };
 
-    case "FETCH_POSTS_ERROR":
+    case "FETCH_POSTS_SUCCESS": {
+      const { key, posts, pagination } = action.payload;
+      const next = upsertPosts(state, posts);
       return {
-        ...state,
-        loading: false,
-        error: action.payload,
+        ...next,
+        lists: pruneLists(
+          {
+            ...next.lists,
+            [key]: {
+              ids: posts.map((post) => post._id),
+              pagination,
+              fetchedAt: Date.now(),
+              syncedAt: Date.now(),
+            },
+          },
+          state.activeListKey
+        ),
+        pendingPostIds: state.pendingPostIds.filter(
+          (pendingId) => !posts.some((post) => post._id === pendingId)
+        ),
+        listStatus: key === state.activeListKey ? SUCCESS : state.listStatus,
       };
+    }
+
+    case "FETCH_POSTS_ERROR": {
+      const { key, error } = action.payload;
+      if (key !== state.activeListKey) return state;
+      // Requisições abortadas (navegação, troca de filtro) não são erros
+      if (error.kind === "cancelled") {
+        return { ...state, listStatus: state.lists[key] ? SUCCESS : IDLE };
+      }
+      return { ...state, listStatus: { status: "error", error } };
+    }
 
     case "FETCH_POST_START":
-      return {
-        ...state,
-        loading: true,
-        error: null,
-        currentPost: null,
-      };
+      return setPostStatus(
+        { ...state, currentPostId: action.payload.id },
+        action.payload.id,
+        {
+          status: action.payload.revalidate ? "revalidating" : "loading",
+          error: null,
+        }
+      );
+
+    case "FETCH_POST_CACHED":
+      return setPostStatus(
+        { ...state, currentPostId: action.payload },
+        action.payload,
+        SUCCESS
+      );
 
     case "FETCH_POST_SUCCESS":
-      return {
-        ...state,
-        currentPost: action.payload,
-        loading: false,
-        error: null,
-      };
+      return setPostStatus(
+        upsertPosts(state, [action.payload]),
+        action.payload._id,
+        SUCCESS
+      );
 
-    case "FETCH_POST_ERROR":
-      return {
-        ...state,
-        loading: false,
-        error: action.payload,
-        currentPost: null,
-      };
+    case "FETCH_POST_ERROR": {
+      const { id, error } = action.payload;
+      if (error.kind === "cancelled") {
+        return setPostStatus(state, id, state.entities[id] ? SUCCESS : IDLE);
+      }
+      // Post removido no servidor sai do cache; outras falhas mantêm a cópia
+      const next = error.kind === "not_found" ? removePost(state, id) : state;
+      return setPostStatus(next, id, { status: "error", error });
+    }
 
-    case "CREATE_POST_START":
-      return {
-        ...state,
-        loading: true,
-        error: null,
-      };
+    // Mutações são aplicadas na hora e desfeitas se o servidor recusar
+    case "CREATE_POST_START": {
+      const post = action.payload;
+      const next = upsertPosts(takeSnapshot(state, "create", post._id), [post]);
+      const active = state.activeListKey
+        ? next.lists[state.activeListKey]
+        : undefined;
+      const lists =
+        active && state.activeListKey
+          ? {
+              ...next.lists,
+              [state.activeListKey]: {
+                ...active,
+                ids: [post._id, ...active.ids],
+                pagination: {
+                  ...active.pagination,
+                  total: active.pagination.total + 1,
+                },
+              },
+            }
+          : next.lists;
+      return setMutation({ ...next, lists }, "create", post._id, PENDING);
+    }
 
-    case "CREATE_POST_SUCCESS":
-      return {
-        ...state,
-        posts: [action.payload, ...state.posts],
-        loading: false,
-        error: null,
-      };
+    case "CREATE_POST_SUCCESS": {
+      const { tempId, post } = action.payload;
+      return setMutation(
+        dropSnapshot(replaceTemporaryPost(state, tempId, post), "create", tempId),
+        "create",
+        tempId,
+        null
+      );
+    }
 
     case "CREATE_POST_ERROR":
-      return {
-        ...state,
-        loading: false,
-        error: action.payload,
-      };
+      return setMutation(
+        restoreSnapshot(state, "create", action.payload.id),
+        "create",
+        action.payload.id,
+        { status: "error", error: action.payload.error }
+      );
 
-    case "UPDATE_POST_START":
-      return {
-        ...state,
-        loading: true,
-        error: null,
-      };
+    case "UPDATE_POST_START": {
+      const { id, post } = action.payload;
+      const next = takeSnapshot(state, "update", id);
+      // A cópia otimista não conta como vinda do servidor: `fetchedAt` fica
+      return setMutation(
+        post ? { ...next, entities: { ...next.entities, [id]: post } } : next,
+        "update",
+        id,
+        PENDING
+      );
+    }
 
     case "UPDATE_POST_SUCCESS":
-      return {
-        ...state,
-        posts: state.posts.map((post) =>
-          post._id === action.payload._id ? action.payload : post
+      return setMutation(
+        dropSnapshot(
+          upsertPosts(state, [action.payload]),
+          "update",
+          action.payload._id
         ),
-        currentPost:
-          state.currentPost?._id === action.payload._id
-            ? action.payload
-            : state.currentPost,
-        loading: false,
-        error: null,
-      };
+        "update",
+        action.payload._id,
+        null
+      );
 
     case "UPDATE_POST_ERROR":
-      return {
-        ...state,
-        loading: false,
-        error: action.payload,
-      };
+      return setMutation(
+        restoreSnapshot(state, "update", action.payload.id),
+        "update",
+        action.payload.id,
+        { status: "error", error: action.payload.error }
+      );
 
     case "DELETE_POST_START":
+      return setMutation(
+        removePost(takeSnapshot(state, "delete", action.payload), action.payload),
+        "delete",
+        action.payload,
+        PENDING
+      );
+
+    case "DELETE_POST_SUCCESS": {
+      const next = dropSnapshot(state, "delete", action.payload);
+      const lists: Record<string, PostsListCache> = {};
+      // Os posts seguintes sobem de página: as outras listas ficam vencidas
+      Object.keys(next.lists).forEach((key) => {
+        lists[key] =
+          key === state.activeListKey
+            ? next.lists[key]
+            : { ...next.lists[key], fetchedAt: 0 };
+      });
+      return setMutation({ ...next, lists }, "delete", action.payload, null);
+    }
+
+    case "DELETE_POST_ERROR":
+      return setMutation(
+        restoreSnapshot(state, "delete", action.payload.id),
+        "delete",
+        action.payload.id,
+        { status: "error", error: action.payload.error }
+      );
+
+    // Restaurar da lixeira espera o servidor: a posição do post depende dele
+    case "RESTORE_POST_START":
+      return setMutation(state, "restore", action.payload, PENDING);
+
+    case "RESTORE_POST_SUCCESS": {
+      const next = upsertPosts(state, [action.payload]);
+      const lists: Record<string, PostsListCache> = {};
+      Object.keys(next.lists).forEach((key) => {
+        lists[key] = { ...next.lists[key], fetchedAt: 0 };
+      });
+      return setMutation(
+        setMutation({ ...next, lists }, "delete", action.payload._id, null),
+        "restore",
+        action.payload._id,
+        null
+      );
+    }
+
+    case "RESTORE_POST_ERROR":
+      return setMutation(state, "restore", action.payload.id, {
+        status: "error",
+        error: action.payload.error,
+      });
+
+    case "RESET_MUTATION": {
+      const { kind, id } = action.payload;
+      return id === undefined
+        ? { ...state, mutations: { ...state.mutations, [kind]: {} } }
+        : setMutation(state, kind, id, null);
+    }
+
+    case "POST_RECEIVED": {
+      const next = upsertPosts(state, [action.payload]);
+      const lists: Record<string, PostsListCache> = {};
+      // Filtros e ordenação podem mudar com o post: as listas ficam vencidas
+      Object.keys(next.lists).forEach((key) => {
+        lists[key] = { ...next.lists[key], fetchedAt: 0 };
+      });
+      return { ...next, lists };
+    }
+
+    case "REALTIME_POST_CREATED": {
+      const known = !!state.entities[action.payload._id];
+      const next = upsertPosts(state, [action.payload]);
+      // A lista não é reordenada sob o leitor: o post espera em `pendingPostIds`
+      return known
+        ? next
+        : {
+            ...next,
+            pendingPostIds: [action.payload._id, ...state.pendingPostIds],
+          };
+    }
+
+    case "REALTIME_POST_UPDATED":
+      return state.entities[action.payload._id]
+        ? upsertPosts(state, [action.payload])
+        : state;
+
+    case "REALTIME_POST_DELETED":
+      return removePost(state, action.payload);
+
+    case "CLEAR_PENDING_POSTS":
       return {
         ...state,
-        loading: true,
-        error: null,
+        pendingPostIds: [],
       };
 
-    case "DELETE_POST_SUCCESS":
+    case "CLEAR_LIST_ERROR":
+      return state.listStatus.status === "error"
+        ? { ...state, listStatus: IDLE }
+        : state;
+
+    case "CLEAR_POST_ERROR":
+      return state.postStatus[action.payload]?.status === "error"
+        ? setPostStatus(state, action.payload, IDLE)
+        : state;
+
+    case "CLEAR_CURRENT_POST":
       return {
         ...state,
-        posts: state.posts.filter((post) => post._id !== action.payload),
-        currentPost:
-          state.currentPost?._id === action.payload ? null : state.currentPost,
-        loading: false,
-        error: null,
+        currentPostId: null,
       };
 
-    case "DELETE_POST_ERROR":
-      return {
+    // Cópia do dispositivo: entra como dado antigo e nunca substitui uma
+    // resposta do servidor que tenha chegado antes
+    case "HYDRATE": {
+      const { posts, lists: savedLists, offlineIds } = action.payload;
+      const entities = { ...state.entities };
+      const fetchedAt = { ...state.fetchedAt };
+      posts.forEach(({ post, syncedAt }) => {
+        if (entities[post._id] && (fetchedAt[post._id] ?? 0) >= syncedAt) return;
+        entities[post._id] = post;
+        fetchedAt[post._id] = syncedAt;
+      });
+
+      const lists = { ...state.lists };
+      savedLists.forEach(({ key, ids, pagination, syncedAt }) => {
+        // Uma lista com posts já descartados do dispositivo ficaria incompleta
+        if (lists[key] || !ids.every((id) => entities[id])) return;
+        lists[key] = { ids, pagination, fetchedAt: syncedAt, syncedAt };
+      });
+
+      const offline = { ...state.offlineIds };
+      offlineIds.forEach((id) => {
+        offline[id] = true;
+      });
+
+      // Se a busca inicial ainda não voltou, ela passa a revalidar a cópia
+      const { activeListKey, currentPostId } = state;
+      const listStatus: FetchState =
+        state.listStatus.status === "loading" &&
+        activeListKey &&
+        lists[activeListKey]
+          ? { status: "revalidating", error: null }
+          : state.listStatus;
+      const next: PostsState = {
         ...state,
-        loading: false,
-        error: action.payload,
+        entities,
+        fetchedAt,
+        lists: pruneLists(lists, activeListKey),
+        offlineIds: offline,
+        listStatus,
       };
+      return currentPostId &&
+        state.postStatus[currentPostId]?.status === "loading" &&
+        entities[currentPostId]
+        ? setPostStatus(next, currentPostId, { status: "revalidating", error: null })
+        : next;
+    }
 
-    case "CLEAR_ERROR":
+    case "SET_AVAILABLE_OFFLINE": {
+      const { id, available } = action.payload;
+      const { [id]: previous, ...offlineIds } = state.offlineIds;
       return {
         ...state,
-        error: null,
+        offlineIds: available ? { ...offlineIds, [id]: true } : offlineIds,
       };
+    }
 
-    case "CLEAR_CURRENT_POST":
+    case "CLEAR_AVAILABLE_OFFLINE":
       return {
         ...state,
-        currentPost: null,
+        offlineIds: {},
       };
 
     default:
@@ -190,26 +732,62 @@ function postsReducer(state: PostsState, action: PostsAction): PostsState {
   }
 }
 
+// `force` ignora o cache mesmo que ele ainda esteja dentro da validade
+export interface CacheRequestOptions extends RequestOptions {
+  force?: boolean;
+}
+
+// `onError` recebe o erro depois que a mudança otimista foi desfeita, para
+// a tela tratar o que o toast não resolve (erros por campo, conflito, login)
+export interface MutationOptions extends RequestOptions {
+  onError?: (error: ApiError) => void;
+}
+
 interface PostsContextType {
   posts: Post[];
+  pagination: PostsPagination;
   currentPost: Post | null;
-  loading: boolean;
-  error: string | null;
-
-  fetchPosts: (params?: {
-    search?: string;
-    page?: number;
-    limit?: number;
-  }) => Promise<void>;
-  fetchPost: (id: string) => Promise<void>;
-  createPost: (params: CreatePostParams) => Promise<Post | null>;
-  updatePost: (params: UpdatePostParams) => Promise<Post | null>;
+  pendingPosts: Post[];
+  listStatus: FetchState;
+  // Lista em cache vencida ou cuja revalidação falhou
+  isListStale: boolean;
+  // Quando a lista na tela veio do servidor pela última vez
+  listSyncedAt: number | null;
+  mutations: MutationsState;
+
+  fetchPosts: (
+    params?: PostsParams,
+    options?: CacheRequestOptions
+  ) => Promise<void>;
+  fetchPost: (id: string, options?: CacheRequestOptions) => Promise<void>;
+  refetchPosts: () => Promise<void>;
+  createPost: (
+    params: CreatePostParams,
+    options?: MutationOptions
+  ) => Promise<Post | null>;
+  updatePost: (
+    params: UpdatePostParams,
+    options?: MutationOptions
+  ) => Promise<Post | null>;
   deletePost: (id: string) => Promise<boolean>;
-  clearError: () => void;
+  // Tira o post da lixeira e recarrega a lista na tela
+  restorePost: (id: string) => Promise<Post | null>;
+  clearListError: () => void;
+  clearPostError: (id: string) => void;
+  // Sem id descarta todas as operações do tipo
+  resetMutation: (kind: MutationKind, id?: string) => void;
   clearCurrentPost: () => void;
+  clearPendingPosts: () => void;
+  cachePost: (post: Post) => void;
+  setAvailableOffline: (id: string, available: boolean) => void;
 
   isCacheValid: () => boolean;
+  isPostStale: (id: string) => boolean;
+  getPostStatus: (id: string) => FetchState;
   getPostById: (id: string) => Post | undefined;
+  isAvailableOffline: (id: string) => boolean;
+  // Quando a cópia do post veio do servidor pela última vez
+  getSyncedAt: (id: string) => number | null;
 }
 
 const PostsContext = createContext<PostsContextType | undefined>(undefined);
@@ -218,83 +796,345 @@ interface PostsProviderProps {
   children: React.ReactNode;
 }
 
+const describePost = (post: Post | undefined) =>
+  post ? `"${post.title}"` : "o post";
+
+// Avisa o que foi desfeito na tela e o motivo informado pelo servidor
+const notifyRollback = (message: string, error: ApiError) => {
+  toast.error(`${message} ${getErrorMessage(error)}`);
+};
+
 export const PostsProvider: React.FC<PostsProviderProps> = ({ children }) => {
-  const [state, dispatch] = useReducer(postsReducer, initialState);
+  const [state, dispatch] = useReducer(postsReducer, initialPostsState);
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const userId = user?._id ?? null;
+  const latestListRequest = useRef(0);
+  const lastListParams = useRef<PostsParams | undefined>(undefined);
+  // Mantém fetchPosts/fetchPost estáveis: trocar sua identidade a cada
+  // resposta abortaria e refaria as buscas em andamento
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // O que já foi gravado no dispositivo, para gravar só o que mudou
+  const persisted = useRef({ entities: state.entities, lists: state.lists });
+  const hydrated = useRef(false);
 
-  const isCacheValid = useCallback(() => {
-    if (!state.lastFetch) return false;
-    return Date.now() - state.lastFetch < state.cacheExpiry;
-  }, [state.lastFetch, state.cacheExpiry]);
+  // A cópia do dispositivo aparece antes da primeira resposta do servidor.
+  // Ela pertence a um usuário: só é lida depois que a sessão salva foi
+  // conferida e é apagada quando outra pessoa (ou ninguém) está logada
+  useEffect(() => {
+    if (isAuthLoading) return;
+    if (hydrated.current) {
+      offlineCache.setOwner(userId);
+      dispatch({ type: "CLEAR_AVAILABLE_OFFLINE" });
+      return;
+    }
+
+    hydrated.current = true;
+    offlineCache.load(userId).then((snapshot) => {
+      dispatch({ type: "HYDRATE", payload: snapshot });
+    });
+  }, [isAuthLoading, userId]);
+
+  useEffect(() => {
+    const previous = persisted.current;
+    persisted.current = { entities: state.entities, lists: state.lists };
+
+    // Posts temporários e edições ainda não confirmadas não vão para o disco
+    const changedPosts = Object.keys(state.entities)
+      .filter(
+        (id) =>
+          state.entities[id] !== previous.entities[id] &&
+          !isTemporaryPostId(id) &&
+          !state.snapshots[snapshotKey("update", id)]
+      )
+      .map((id) => ({
+        post: state.entities[id],
+        syncedAt: state.fetchedAt[id] ?? Date.now(),
+      }));
+    if (changedPosts.length > 0) offlineCache.savePosts(changedPosts);
+
+    const changedLists = Object.keys(state.lists)
+      .filter((key) => state.lists[key] !== previous.lists[key])
+      .map((key) => {
+        const { ids, pagination, syncedAt } = state.lists[key];
+        return {
+          key,
+          // Posts não públicos não são gravados e não podem constar da lista
+          ids: ids.filter(
+            (id) =>
+              !isTemporaryPostId(id) &&
+              !!state.entities[id] &&
+              isPostPublic(state.entities[id])
+          ),
+          pagination,
+          syncedAt,
+        };
+      });
+    if (changedLists.length > 0) offlineCache.saveLists(changedLists);
+  }, [state.entities, state.lists, state.fetchedAt, state.snapshots]);
+
+  // Excluído no servidor: sai do dispositivo mesmo se marcado offline
+  const forgetPost = useCallback((id: string) => {
+    offlineCache.removePosts([id]);
+    dispatch({ type: "SET_AVAILABLE_OFFLINE", payload: { id, available: false } });
+  }, []);
+
+  useEffect(
+    () =>
+      realtimeClient.subscribe((event) => {
+        switch (event.type) {
+          case "post.created":
+            dispatch({ type: "REALTIME_POST_CREATED", payload: event.post });
+            break;
+          case "post.updated":
+            dispatch({ type: "REALTIME_POST_UPDATED", payload: event.post });
+            break;
+          case "post.deleted":
+            dispatch({ type: "REALTIME_POST_DELETED", payload: event.postId });
+            forgetPost(event.postId);
+            break;
+        }
+      }),
+    [forgetPost]
+  );
+
+  const activeList = state.activeListKey
+    ? state.lists[state.activeListKey]
+    : undefined;
+
+  const posts = useMemo(
+    () =>
+      activeList
+        ? activeList.ids
+            .map((id) => state.entities[id])
+            .filter((post): post is Post => !!post)
+        : [],
+    [activeList, state.entities]
+  );
+
+  const pendingPosts = useMemo(
+    () =>
+      state.pendingPostIds
+        .map((id) => state.entities[id])
+        .filter((post): post is Post => !!post),
+    [state.pendingPostIds, state.entities]
+  );
+
+  const isCacheValid = useCallback(
+    () => isFresh(activeList?.fetchedAt, state.cacheExpiry),
+    [activeList, state.cacheExpiry]
+  );
+
+  const isPostStale = useCallback(
+    (id: string) =>
+      !!state.entities[id] &&
+      (!isFresh(state.fetchedAt[id], state.cacheExpiry) ||
+        state.postStatus[id]?.status === "error"),
+    [state.entities, state.fetchedAt, state.postStatus, state.cacheExpiry]
+  );
+
+  const getPostStatus = useCallback(
+    (id: string): FetchState => state.postStatus[id] ?? IDLE,
+    [state.postStatus]
+  );
 
   const fetchPosts = useCallback(
-    async (params?: { search?: string; page?: number; limit?: number }) => {
-      dispatch({ type: "FETCH_POSTS_START" });
+    async (params?: PostsParams, options?: CacheRequestOptions) => {
+      const key = listKey(params);
+      const cached = stateRef.current.lists[key];
+      lastListParams.current = params;
+
+      // Cache válido é servido na hora, sem ir ao servidor
+      if (
+        cached &&
+        !options?.force &&
+        isFresh(cached.fetchedAt, stateRef.current.cacheExpiry)
+      ) {
+        ++latestListRequest.current;
+        dispatch({ type: "FETCH_POSTS_CACHED", payload: key });
+        return;
+      }
+
+      // Respostas fora de ordem (ex.: busca digitada rápido) não podem
+      // sobrescrever a página mais recente
+      const requestId = ++latestListRequest.current;
+      dispatch({
+        type: "FETCH_POSTS_START",
+        payload: { key, revalidate: !!cached },
+      });
 
       try {
-        const response: PostsResponse = await postsApi.getPosts();
-        dispatch({ type: "FETCH_POSTS_SUCCESS", payload: response.posts });
+        const response: PostsResponse = await postsApi.getPosts(
+          params,
+          options
+        );
+        dispatch({
+          type: "FETCH_POSTS_SUCCESS",
+          payload: {
+            key,
+            posts: response.posts,
+            pagination: {
+              page: response.page,
+              limit: response.limit,
+              total: response.total,
+              totalPages: response.totalPages,
+            },
+          },
+        });
       } catch (error) {
-        console.error("Error fetching posts:", error);
-        const errorMessage =
-          error instanceof Error ? error.message : "Erro ao buscar posts";
-        dispatch({ type: "FETCH_POSTS_ERROR", payload: errorMessage });
+        if (requestId !== latestListRequest.current) return;
+        const apiError = toApiError(error);
+        if (apiError.kind !== "cancelled") {
+          console.error("Error fetching posts:", error);
+        }
+        dispatch({ type: "FETCH_POSTS_ERROR", payload: { key, error: apiError } });
       }
     },
     []
   );
 
   const fetchPost = useCallback(
-    async (id: string) => {
-      const cachedPost = state.posts.find((post) => post._id === id);
-      if (cachedPost) {
-        dispatch({ type: "FETCH_POST_SUCCESS", payload: cachedPost });
+    async (id: string, options?: CacheRequestOptions) => {
+      const { entities, fetchedAt, cacheExpiry } = stateRef.current;
+      const cached = entities[id];
+      if (cached && !options?.force && isFresh(fetchedAt[id], cacheExpiry)) {
+        dispatch({ type: "FETCH_POST_CACHED", payload: id });
         return;
       }
 
-      dispatch({ type: "FETCH_POST_START" });
+      dispatch({ type: "FETCH_POST_START", payload: { id, revalidate: !!cached } });
 
       try {
-        const post = await postsApi.getPostById(id);
+        const post = await postsApi.getPostById(id, options);
         dispatch({ type: "FETCH_POST_SUCCESS", payload: post });
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Erro ao buscar post";
-        dispatch({ type: "FETCH_POST_ERROR", payload: errorMessage });
+        const apiError = toApiError(error);
+        dispatch({ type: "FETCH_POST_ERROR", payload: { id, error: apiError } });
+        if (apiError.kind === "not_found") forgetPost(id);
       }
     },
-    [state.posts]
+    [forgetPost]
+  );
+
+  // Repete a última listagem ignorando o cache
+  const refetchPosts = useCallback(
+    () => fetchPosts(lastListParams.current, { force: true }),
+    [fetchPosts]
+  );
+
+  // Revalida o que está na tela; `force` também atualiza dados ainda válidos
+  const revalidateVisible = useCallback(
+    (force: boolean) => {
+      const { activeListKey, currentPostId } = stateRef.current;
+      if (activeListKey) fetchPosts(lastListParams.current, { force });
+      if (currentPostId) fetchPost(currentPostId, { force });
+    },
+    [fetchPosts, fetchPost]
   );
 
+  useEffect(() => {
+    const handleFocus = () => revalidateVisible(false);
+    window.addEventListener("focus", handleFocus);
+
+    // Ao reconectar tudo é buscado de novo: eventos podem ter se perdido
+    let previousStatus = connectivityMonitor.getState().status;
+    const unsubscribe = connectivityMonitor.subscribe(({ status }) => {
+      if (previousStatus !== "online" && status === "online") {
+        revalidateVisible(true);
+      }
+      previousStatus = status;
+    });
+
+    return () => {
+      window.removeEventListener("focus", handleFocus);
+      unsubscribe();
+    };
+  }, [revalidateVisible]);
+
   const createPost = useCallback(
-    async (params: CreatePostParams): Promise<Post | null> => {
-      dispatch({ type: "CREATE_POST_START" });
+    async (
+      params: CreatePostParams,
+      { onError, ...requestOptions }: MutationOptions = {}
+    ): Promise<Post | null> => {
+      const now = new Date().toISOString();
+      const tempPost: Post = {
+        _id: `${TEMP_ID_PREFIX}${++tempIdSequence}`,
+        title: params.title,
+        content: params.content,
+        author: user?.name ?? "",
+        authorId: params.authorId,
+        status: params.status ?? "published",
+        publishAt: params.publishAt,
+        tags: params.tags ?? [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      dispatch({ type: "CREATE_POST_START", payload: tempPost });
 
       try {
-        const newPost = await postsApi.createPost(params);
-        dispatch({ type: "CREATE_POST_SUCCESS", payload: newPost });
+        const newPost = await postsApi.createPost(params, requestOptions);
+        dispatch({
+          type: "CREATE_POST_SUCCESS",
+          payload: { tempId: tempPost._id, post: newPost },
+        });
         return newPost;
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Erro ao criar post";
-        dispatch({ type: "CREATE_POST_ERROR", payload: errorMessage });
+        const apiError = toApiError(error);
+        console.error("Error creating post:", error);
+        dispatch({
+          type: "CREATE_POST_ERROR",
+          payload: { id: tempPost._id, error: apiError },
+        });
+        notifyRollback(
+          `Não foi possível criar "${params.title}" e ele foi removido da lista.`,
+          apiError
+        );
+        onError?.(apiError);
         return null;
       }
     },
-    []
+    [user]
   );
 
   const updatePost = useCallback(
-    async (params: UpdatePostParams): Promise<Post | null> => {
-      dispatch({ type: "UPDATE_POST_START" });
+    async (
+      params: UpdatePostParams,
+      { onError, ...requestOptions }: MutationOptions = {}
+    ): Promise<Post | null> => {
+      const current = stateRef.current.entities[params.id];
+      dispatch({
+        type: "UPDATE_POST_START",
+        payload: {
+          id: params.id,
+          post: current
+            ? {
+                ...current,
+                title: params.title,
+                content: params.content,
+                status: params.status ?? current.status,
+                publishAt: params.publishAt ?? current.publishAt,
+                tags: params.tags ?? current.tags,
+              }
+            : null,
+        },
+      });
 
       try {
-        const updatedPost = await postsApi.updatePost(params);
+        const updatedPost = await postsApi.updatePost(params, requestOptions);
         dispatch({ type: "UPDATE_POST_SUCCESS", payload: updatedPost });
         return updatedPost;
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Erro ao atualizar post";
-        dispatch({ type: "UPDATE_POST_ERROR", payload: errorMessage });
+        const apiError = toApiError(error);
+        console.error("Error updating post:", error);
+        dispatch({
+          type: "UPDATE_POST_ERROR",
+          payload: { id: params.id, error: apiError },
+        });
+        notifyRollback(
+          `Não foi possível salvar ${describePost(current)} e as alterações foram desfeitas.`,
+          apiError
+        );
+        onError?.(apiError);
         return null;
       }
     },
@@ -302,51 +1142,131 @@ export const PostsProvider: React.FC<PostsProviderProps> = ({ children }) => {
   );
 
   const deletePost = useCallback(async (id: string): Promise<boolean> => {
-    dispatch({ type: "DELETE_POST_START" });
+    const current = stateRef.current.entities[id];
+    dispatch({ type: "DELETE_POST_START", payload: id });
 
     try {
       await postsApi.deletePost(id);
       dispatch({ type: "DELETE_POST_SUCCESS", payload: id });
+      forgetPost(id);
       return true;
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Erro ao excluir post";
-      dispatch({ type: "DELETE_POST_ERROR", payload: errorMessage });
+      const apiError = toApiError(error);
+      console.error("Error deleting post:", error);
+      dispatch({
+        type: "DELETE_POST_ERROR",
+        payload: { id, error: apiError },
+      });
+      notifyRollback(
+        `Não foi possível excluir ${describePost(current)} e ele voltou para a lista.`,
+        apiError
+      );
       return false;
     }
+  }, [forgetPost]);
+
+  const restorePost = useCallback(
+    async (id: string): Promise<Post | null> => {
+      dispatch({ type: "RESTORE_POST_START", payload: id });
+
+      try {
+        const post = await postsApi.restorePost(id);
+        dispatch({ type: "RESTORE_POST_SUCCESS", payload: post });
+        if (stateRef.current.activeListKey) refetchPosts();
+        return post;
+      } catch (error) {
+        console.error("Error restoring post:", error);
+        dispatch({
+          type: "RESTORE_POST_ERROR",
+          payload: { id, error: toApiError(error) },
+        });
+        return null;
+      }
+    },
+    [refetchPosts]
+  );
+
+  const clearListError = useCallback(() => {
+    dispatch({ type: "CLEAR_LIST_ERROR" });
+  }, []);
+
+  const clearPostError = useCallback((id: string) => {
+    dispatch({ type: "CLEAR_POST_ERROR", payload: id });
   }, []);
 
-  const clearError = useCallback(() => {
-    dispatch({ type: "CLEAR_ERROR" });
+  const resetMutation = useCallback((kind: MutationKind, id?: string) => {
+    dispatch({ type: "RESET_MUTATION", payload: { kind, id } });
   }, []);
 
   const clearCurrentPost = useCallback(() => {
     dispatch({ type: "CLEAR_CURRENT_POST" });
   }, []);
 
+  const clearPendingPosts = useCallback(() => {
+    dispatch({ type: "CLEAR_PENDING_POSTS" });
+  }, []);
+
+  // Para posts salvos fora do contexto (ex.: PostEdit chama a API direto)
+  const cachePost = useCallback((post: Post) => {
+    dispatch({ type: "POST_RECEIVED", payload: post });
+  }, []);
+
+  const setAvailableOffline = useCallback((id: string, available: boolean) => {
+    dispatch({ type: "SET_AVAILABLE_OFFLINE", payload: { id, available } });
+    offlineCache.setAvailableOffline(id, available);
+  }, []);
+
   const getPostById = useCallback(
-    (id: string): Post | undefined => {
-      return state.posts.find((post) => post._id === id);
-    },
-    [state.posts]
+    (id: string): Post | undefined => state.entities[id],
+    [state.entities]
+  );
+
+  const isAvailableOffline = useCallback(
+    (id: string) => !!state.offlineIds[id],
+    [state.offlineIds]
+  );
+
+  const getSyncedAt = useCallback(
+    (id: string): number | null => state.fetchedAt[id] ?? null,
+    [state.fetchedAt]
   );
 
   const contextValue: PostsContextType = {
-    posts: state.posts,
-    currentPost: state.currentPost,
-    loading: state.loading,
-    error: state.error,
+    posts,
+    pagination: activeList?.pagination ?? initialPagination,
+    currentPost: state.currentPostId
+      ? state.entities[state.currentPostId] ?? null
+      : null,
+    pendingPosts,
+    listStatus: state.listStatus,
+    isListStale:
+      !!activeList &&
+      (!isFresh(activeList.fetchedAt, state.cacheExpiry) ||
+        state.listStatus.status === "error"),
+    listSyncedAt: activeList?.syncedAt ?? null,
+    mutations: state.mutations,
 
     fetchPosts,
     fetchPost,
+    refetchPosts,
     createPost,
     updatePost,
     deletePost,
-    clearError,
+    restorePost,
+    clearListError,
+    clearPostError,
+    resetMutation,
     clearCurrentPost,
+    clearPendingPosts,
+    cachePost,
+    setAvailableOffline,
 
     isCacheValid,
+    isPostStale,
+    getPostStatus,
     getPostById,
+    isAvailableOffline,
+    getSyncedAt,
   };
 
   return (
@@ -366,48 +1286,190 @@ export const usePosts = (): PostsContextType => {
   return context;
 };
 
-export const usePostsList = () => {
-  const { posts, loading, error, fetchPosts, clearError } = usePosts();
+export const usePostsList = (params: PostsParams = {}) => {
+  const {
+    posts,
+    pagination,
+    pendingPosts,
+    listStatus,
+    isListStale,
+    listSyncedAt,
+    fetchPosts,
+    clearListError,
+    clearPendingPosts,
+  } = usePosts();
+  const { search, page, limit, sort, order, status } = params;
+  // Chave estável para não refazer a busca a cada novo array de tags
+  const tagsKey = (params.tags || []).join(",");
+
+  const load = useCallback(
+    (options?: CacheRequestOptions) =>
+      fetchPosts(
+        {
+          search,
+          page,
+          limit,
+          sort,
+          order,
+          status,
+          tags: tagsKey ? tagsKey.split(",") : undefined,
+        },
+        options
+      ),
+    [fetchPosts, search, page, limit, sort, order, status, tagsKey]
+  );
+
+  // Ao montar usa o cache; `refetch` sempre vai ao servidor
+  const refetch = useCallback(
+    (options?: RequestOptions) => load({ ...options, force: true }),
+    [load]
+  );
 
   useEffect(() => {
-    fetchPosts();
-  }, [fetchPosts]);
+    const controller = new AbortController();
+    load({ signal: controller.signal });
+
+    return () => controller.abort();
+  }, [load]);
 
   return {
     posts,
-    loading,
-    error,
-    refetch: () => fetchPosts(),
-    clearError,
+    pagination,
+    pendingPosts,
+    status: listStatus.status,
+    loading: listStatus.status === "loading",
+    // Com a lista em cache a falha vira aviso de dados desatualizados
+    error: isListStale ? null : listStatus.error,
+    isStale: isListStale,
+    isRevalidating: listStatus.status === "revalidating",
+    syncedAt: listSyncedAt,
+    refetch,
+    clearError: clearListError,
+    clearPendingPosts,
   };
 };
 
+/**
+ * Assina os eventos do canal em tempo real enquanto o componente existir
+ *
+ * `handler` pode mudar a cada render sem reabrir a assinatura.
+ */
+export const useRealtimeEvents = (handler: (event: RealtimeEvent) => void) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => realtimeClient.subscribe((event) => handlerRef.current(event)),
+    []
+  );
+};
+
+/**
+ * Tags existentes com a contagem de posts, para autocomplete e filtros
+ */
+export const useTags = () => {
+  const [tags, setTags] = useState<TagSummary[]>([]);
+
+  const fetchTags = useCallback(async (options?: RequestOptions) => {
+    try {
+      setTags(await postsApi.getTags(options));
+    } catch (err) {
+      if (toApiError(err).kind !== "cancelled") {
+        console.error("Error fetching tags:", err);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchTags({ signal: controller.signal });
+
+    return () => controller.abort();
+  }, [fetchTags]);
+
+  return { tags, refetch: fetchTags };
+};
+
 export const usePost = (id: string) => {
   const {
     currentPost,
-    loading,
-    error,
     fetchPost,
-    clearError,
+    clearPostError,
     clearCurrentPost,
+    isPostStale,
+    getPostStatus,
+    getSyncedAt,
   } = usePosts();
+  const { status, error } = getPostStatus(id);
+  const isStale = isPostStale(id);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     if (id) {
-      fetchPost(id);
+      fetchPost(id, { signal: controller.signal });
     }
 
     return () => {
+      controller.abort();
       clearCurrentPost();
     };
   }, [id, fetchPost, clearCurrentPost]);
 
   return {
     post: currentPost,
-    loading,
-    error,
-    refetch: () => fetchPost(id),
-    clearError,
+    status,
+    loading: status === "loading",
+    error: isStale ? null : error,
+    isStale,
+    isRevalidating: status === "revalidating",
+    syncedAt: getSyncedAt(id),
+    refetch: () => fetchPost(id, { force: true }),
+    clearError: () => clearPostError(id),
+  };
+};
+
+/**
+ * Marcação "disponível offline" de um post
+ *
+ * Posts marcados ficam no dispositivo mesmo passado o prazo de
+ * REACT_APP_OFFLINE_CACHE_MAX_AGE_DAYS e são os últimos a sair quando o
+ * espaço acaba.
+ */
+export const useOfflinePost = (id: string) => {
+  const { isAvailableOffline, setAvailableOffline } = usePosts();
+  const available = isAvailableOffline(id);
+  const toggle = useCallback(
+    () => setAvailableOffline(id, !available),
+    [setAvailableOffline, id, available]
+  );
+
+  return { isAvailableOffline: available, toggle };
+};
+
+/**
+ * Estado de uma criação, edição ou exclusão em andamento
+ *
+ * Permite que cada linha ou botão mostre só o próprio progresso, ex.:
+ * `useMutationState("delete", post._id)`. Sem id considera qualquer
+ * operação do tipo, ex.: `useMutationState("create")`.
+ */
+export const useMutationState = (kind: MutationKind, id?: string) => {
+  const { mutations, resetMutation } = usePosts();
+  const byId = mutations[kind];
+  const entries = (id === undefined ? Object.keys(byId) : [id])
+    .map((key) => byId[key])
+    .filter((mutation): mutation is MutationState => !!mutation);
+  const failed = entries.find((mutation) => mutation.status === "error");
+  const reset = useCallback(
+    () => resetMutation(kind, id),
+    [resetMutation, kind, id]
+  );
+
+  return {
+    isPending: entries.some((mutation) => mutation.status === "pending"),
+    error: failed ? failed.error : null,
+    reset,
   };
 };
 
@@ -0,0 +1,502 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import toast from "react-hot-toast";
+import {
+  postsApi,
+  Comment,
+  CommentStatus,
+  CommentsPage,
+  Post,
+  ReportReason,
+  REPORT_REASON_LABELS,
+} from "../services/api";
+import { ApiError, getErrorMessage, toApiError } from "../services/apiError";
+import ConfirmModal from "../components/ConfirmModal";
+import Pagination from "../components/Pagination";
+import RetryNotice from "../components/RetryNotice";
+
+const PAGE_SIZE = 20;
+
+const useDebounce = (value: string, delay: number) => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const handler = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(handler);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
+
+interface ModerationFilters {
+  postId: string;
+  author: string;
+  // Datas no formato do <input type="date"> (AAAA-MM-DD)
+  from: string;
+  to: string;
+  flagged: boolean;
+  status: "" | CommentStatus;
+}
+
+const INITIAL_FILTERS: ModerationFilters = {
+  postId: "",
+  author: "",
+  from: "",
+  to: "",
+  flagged: false,
+  status: "",
+};
+
+// Interpreta as datas do filtro no fuso local, cobrindo o dia inteiro
+const startOfDay = (date: string) =>
+  date ? new Date(`${date}T00:00:00`).toISOString() : undefined;
+const endOfDay = (date: string) =>
+  date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined;
+
+const EMPTY_PAGE: CommentsPage = {
+  comments: [],
+  total: 0,
+  page: 1,
+  limit: PAGE_SIZE,
+  totalPages: 0,
+};
+
+const AdminComments: React.FC = () => {
+  const [filters, setFilters] = useState<ModerationFilters>(INITIAL_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<CommentsPage>(EMPTY_PAGE);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [commentToDelete, setCommentToDelete] = useState<Comment | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const debouncedAuthor = useDebounce(filters.author, 300);
+  const { postId, from, to, flagged, status } = filters;
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    postsApi
+      .getPosts(
+        { limit: 100, sort: "title", order: "asc" },
+        { signal: controller.signal }
+      )
+      .then((response) => setPosts(response.posts))
+      .catch((err) => {
+        if (toApiError(err).kind !== "cancelled") {
+          console.error("Error fetching posts for filter:", err);
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    postsApi
+      .getModerationComments(
+        {
+          postId: postId || undefined,
+          author: debouncedAuthor,
+          from: startOfDay(from),
+          to: endOfDay(to),
+          flagged,
+          status: status || undefined,
+          page,
+          limit: PAGE_SIZE,
+        },
+        { signal: controller.signal }
+      )
+      .then((response) => {
+        setResult(response);
+        setLoading(false);
+      })
+      .catch((err) => {
+        const apiError = toApiError(err);
+        if (apiError.kind === "cancelled") return;
+        console.error("Error fetching comments for moderation:", err);
+        setError(apiError);
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [postId, debouncedAuthor, from, to, flagged, status, page, reloadKey]);
+
+  const refetch = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  const updateFilter = useCallback(
+    <K extends keyof ModerationFilters>(key: K, value: ModerationFilters[K]) => {
+      setFilters((current) => ({ ...current, [key]: value }));
+      setPage(1);
+    },
+    []
+  );
+
+  const hasFilters =
+    !!postId || !!filters.author || !!from || !!to || flagged || !!status;
+
+  const formatDate = useCallback((dateString: string): string => {
+    return new Date(dateString).toLocaleDateString("pt-BR", {
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }, []);
+
+  // Ex.: "Spam (2), Ofensivo (1)"
+  const formatReportReasons = (comment: Comment) =>
+    (Object.keys(comment.reportReasons ?? {}) as ReportReason[])
+      .map((reason) => `${REPORT_REASON_LABELS[reason]} (${comment.reportReasons?.[reason]})`)
+      .join(", ");
+
+  const handleStatusChange = useCallback(
+    async (comment: Comment, nextStatus: CommentStatus) => {
+      try {
+        setUpdatingId(comment._id);
+        const updated = await postsApi.setCommentStatus({
+          postId: comment.postId,
+          commentId: comment._id,
+          status: nextStatus,
+        });
+        setResult((current) => ({
+          ...current,
+          comments: current.comments.map((item) =>
+            item._id === updated._id
+              ? { ...updated, postTitle: item.postTitle }
+              : item
+          ),
+        }));
+        toast.success(
+          nextStatus === "hidden" ? "Comentário ocultado" : "Comentário restaurado"
+        );
+      } catch (err) {
+        console.error("Error updating comment status:", err);
+        toast.error(
+          getErrorMessage(err, {
+            not_found: "Este comentário não existe mais.",
+            forbidden: "Você não tem permissão para moderar comentários.",
+            unknown: "Erro ao atualizar comentário. Tente novamente.",
+          })
+        );
+        if (toApiError(err).kind === "not_found") refetch();
+      } finally {
+        setUpdatingId(null);
+      }
+    },
+    [refetch]
+  );
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!commentToDelete) return;
+
+    try {
+      setIsDeleting(true);
+      await postsApi.deleteComment(commentToDelete.postId, commentToDelete._id);
+      toast.success("Comentário excluído com sucesso!");
+      setCommentToDelete(null);
+      // A exclusão remove também as respostas; recarrega a página atual
+      if (result.comments.length === 1 && page > 1) setPage(page - 1);
+      else refetch();
+    } catch (err) {
+      console.error("Error deleting comment:", err);
+      toast.error(
+        getErrorMessage(err, {
+          not_found: "Este comentário já foi excluído.",
+          forbidden: "Você não tem permissão para excluir este comentário.",
+          unknown: "Erro ao excluir comentário. Tente novamente.",
+        })
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  }, [commentToDelete, result.comments.length, page, refetch]);
+
+  const inputClasses =
+    "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Moderação de Comentários</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Revise, oculte e restaure comentários de todos os posts
+          </p>
+        </div>
+        <Link
+          to="/admin"
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          ← Voltar aos posts
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-sm border">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label htmlFor="filter-post" className="block text-sm font-medium text-gray-700 mb-2">
+              Post
+            </label>
+            <select
+              id="filter-post"
+              value={postId}
+              onChange={(e) => updateFilter("postId", e.target.value)}
+              className={inputClasses}
+            >
+              <option value="">Todos os posts</option>
+              {posts.map((post) => (
+                <option key={post._id} value={post._id}>
+                  {post.title}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filter-author" className="block text-sm font-medium text-gray-700 mb-2">
+              Autor
+            </label>
+            <input
+              id="filter-author"
+              type="text"
+              value={filters.author}
+              onChange={(e) => updateFilter("author", e.target.value)}
+              placeholder="Nome do autor..."
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="filter-status" className="block text-sm font-medium text-gray-700 mb-2">
+              Status
+            </label>
+            <select
+              id="filter-status"
+              value={status}
+              onChange={(e) =>
+                updateFilter("status", e.target.value as ModerationFilters["status"])
+              }
+              className={inputClasses}
+            >
+              <option value="">Todos</option>
+              <option value="visible">Visíveis</option>
+              <option value="hidden">Ocultos</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filter-from" className="block text-sm font-medium text-gray-700 mb-2">
+              De
+            </label>
+            <input
+              id="filter-from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="filter-to" className="block text-sm font-medium text-gray-700 mb-2">
+              Até
+            </label>
+            <input
+              id="filter-to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+          <div className="flex items-end">
+            <label className="inline-flex items-center space-x-2 text-sm text-gray-700 py-2">
+              <input
+                type="checkbox"
+                checked={flagged}
+                onChange={(e) => updateFilter("flagged", e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Apenas denunciados</span>
+            </label>
+          </div>
+        </div>
+        {hasFilters && (
+          <button
+            onClick={() => {
+              setFilters(INITIAL_FILTERS);
+              setPage(1);
+            }}
+            className="text-sm text-blue-600 hover:text-blue-700 mt-4"
+          >
+            Limpar filtros
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4" role="alert">
+          <h3 className="text-sm font-medium text-red-800">Erro ao carregar comentários</h3>
+          <p className="mt-1 text-sm text-red-700">{getErrorMessage(error)}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-sm font-medium text-red-800 hover:text-red-600"
+          >
+            Tentar novamente
+          </button>
+        </div>
+      )}
+
+      {!loading && !error && (
+        <div className="space-y-4">
+          {result.comments.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-sm font-medium text-gray-900">
+                {hasFilters ? "Nenhum comentário encontrado" : "Nenhum comentário ainda"}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {hasFilters
+                  ? "Tente ajustar os filtros."
+                  : "Os comentários dos alunos aparecerão aqui."}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto bg-white shadow-sm rounded-lg border">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comentário</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Post</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Autor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {result.comments.map((comment) => {
+                    const isHidden = comment.status === "hidden";
+                    const isUpdating = updatingId === comment._id;
+
+                    return (
+                      <tr
+                        key={comment._id}
+                        className={isHidden ? "bg-gray-50 text-gray-400" : "hover:bg-gray-50"}
+                      >
+                        <td className="px-6 py-4 max-w-md">
+                          <p className={`text-sm whitespace-pre-wrap break-words ${isHidden ? "text-gray-400" : "text-gray-900"}`}>
+                            {comment.content}
+                          </p>
+                          {comment.parentId && (
+                            <span className="text-xs text-gray-400">Resposta</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <Link
+                            to={`/posts/${comment.postId}`}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {comment.postTitle || comment.postId}
+                          </Link>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{comment.author}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(comment.createdAt)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <div className="flex flex-col items-start space-y-1">
+                            <span
+                              className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                                isHidden ? "bg-gray-200 text-gray-700" : "bg-green-100 text-green-800"
+                              }`}
+                            >
+                              {isHidden ? "Oculto" : "Visível"}
+                            </span>
+                            {comment.flagged && (
+                              <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                                {comment.reportCount > 0
+                                  ? `${comment.reportCount} ${comment.reportCount === 1 ? "denúncia" : "denúncias"}`
+                                  : "Denunciado"}
+                              </span>
+                            )}
+                            {comment.reportCount > 0 && (
+                              <span className="text-xs text-gray-500 whitespace-normal">
+                                {formatReportReasons(comment)}
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="flex justify-end space-x-3">
+                            {isHidden ? (
+                              <button
+                                onClick={() => handleStatusChange(comment, "visible")}
+                                disabled={isUpdating}
+                                className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                              >
+                                Restaurar
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => handleStatusChange(comment, "hidden")}
+                                disabled={isUpdating}
+                                className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                              >
+                                Ocultar
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setCommentToDelete(comment)}
+                              disabled={isUpdating}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            >
+                              Excluir
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <Pagination
+            page={result.page}
+            totalPages={result.totalPages}
+            total={result.total}
+            limit={result.limit}
+            onPageChange={setPage}
+            disabled={loading}
+          />
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex flex-col items-center py-12 space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <RetryNotice />
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={!!commentToDelete}
+        onClose={() => setCommentToDelete(null)}
+        onConfirm={handleDeleteConfirm}
+        title="Excluir Comentário"
+        message={`Tem certeza que deseja excluir o comentário de ${commentToDelete?.author}? As respostas a ele também serão excluídas. Esta ação não pode ser desfeita.`}
+        confirmText="Excluir"
+        cancelText="Cancelar"
+        isLoading={isDeleting}
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default AdminComments;
@@ -1,9 +1,30 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import toast from "react-hot-toast";
-import { Post } from "../services/api";
-import { usePosts, usePostsList } from "../contexts/PostsContext";
+import {
+  Post,
+  PostStatus,
+  PostsSortField,
+  SortOrder,
+  POST_STATUS_LABELS,
+} from "../services/api";
+import { getErrorMessage } from "../services/apiError";
+import {
+  usePosts,
+  usePostsList,
+  useTags,
+  useMutationState,
+  isTemporaryPostId,
+} from "../contexts/PostsContext";
 import ConfirmModal from "../components/ConfirmModal";
+import Pagination from "../components/Pagination";
+import RetryNotice from "../components/RetryNotice";
+import PostStatusBadge from "../components/PostStatusBadge";
+import TagFilter from "../components/TagFilter";
+
+const PAGE_SIZE = 20;
+// Por quanto tempo o toast da exclusão oferece "Desfazer"
+const UNDO_TIMEOUT_MS = 6000;
 
 const useDebounce = (value: string, delay: number) => {
   const [debouncedValue, setDebouncedValue] = useState(value);
@@ -16,50 +37,150 @@ const useDebounce = (value: string, delay: number) => {
   return debouncedValue;
 };
 
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString("pt-BR", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const truncateText = (text: string, maxLength: number = 100): string => {
+  if (!text) return "";
+  return text.length <= maxLength ? text : text.substring(0, maxLength).trim() + "...";
+};
+
+interface AdminPostRowProps {
+  post: Post;
+  onView: (post: Post) => void;
+  onEdit: (post: Post) => void;
+  onDelete: (post: Post) => void;
+}
+
+// Exclusões somem da tabela na hora; se falharem a linha volta com o erro
+const AdminPostRow: React.FC<AdminPostRowProps> = ({
+  post,
+  onView,
+  onEdit,
+  onDelete,
+}) => {
+  const deleting = useMutationState("delete", post._id);
+  // Post criado agora que ainda não tem id do servidor
+  const isSaving = isTemporaryPostId(post._id);
+
+  return (
+    <tr
+      className={isSaving ? "opacity-50" : "hover:bg-gray-50"}
+      aria-busy={isSaving}
+    >
+      <td className="px-6 py-4 whitespace-nowrap">
+        <div className="text-sm font-medium text-gray-900">{truncateText(post.title, 50)}</div>
+        <div className="text-sm text-gray-500">{truncateText(post.content, 80)}</div>
+        {post.tags.length > 0 && (
+          <div className="mt-1 text-xs text-blue-700">
+            {post.tags.map((tag) => `#${tag}`).join(" ")}
+          </div>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{post.author}</td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        <PostStatusBadge post={post} />
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(post.createdAt)}</td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(post.updatedAt)}</td>
+      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+        {isSaving ? (
+          <span className="text-gray-500">Salvando...</span>
+        ) : (
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => onView(post)} className="text-blue-600 hover:text-blue-900" title="Visualizar">👁️</button>
+            <button onClick={() => onEdit(post)} className="text-indigo-600 hover:text-indigo-900" title="Editar">✏️</button>
+            <button onClick={() => onDelete(post)} className="text-red-600 hover:text-red-900" title="Excluir">🗑️</button>
+          </div>
+        )}
+        {deleting.error && (
+          <p className="mt-1 text-xs font-normal text-red-600">
+            {getErrorMessage(deleting.error, {
+              not_found: "Post não encontrado",
+              forbidden: "Sem permissão para excluir",
+              unknown: "Erro ao excluir",
+            })}{" "}
+            <button onClick={deleting.reset} className="underline hover:no-underline">
+              Fechar
+            </button>
+          </p>
+        )}
+      </td>
+    </tr>
+  );
+};
+
 const AdminPosts: React.FC = () => {
   const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState("");
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<PostStatus | "">("");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const { tags } = useTags();
+  const [sort, setSort] = useState<{ field: PostsSortField; order: SortOrder }>(
+    { field: "updatedAt", order: "desc" }
+  );
   const [deleteModal, setDeleteModal] = useState<{
     isOpen: boolean;
     post: Post | null;
   }>({ isOpen: false, post: null });
-  const [isDeleting, setIsDeleting] = useState(false);
 
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
 
-  const { posts, loading, error, refetch } = usePostsList();
+  const { posts, pagination, loading, error } = usePostsList({
+    search: debouncedSearchTerm,
+    page,
+    limit: PAGE_SIZE,
+    sort: sort.field,
+    order: sort.order,
+    status: statusFilter || undefined,
+    tags: tagFilter,
+  });
 
-  const { deletePost } = usePosts();
+  const { deletePost, restorePost } = usePosts();
+  const hasFilters = !!searchTerm || !!statusFilter || tagFilter.length > 0;
 
-  const formatDate = useCallback((dateString: string): string => {
-    return new Date(dateString).toLocaleDateString("pt-BR", {
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+  const handleSearchChange = useCallback((value: string) => {
+    setSearchTerm(value);
+    setPage(1);
   }, []);
 
-  const truncateText = useCallback(
-    (text: string, maxLength: number = 100): string => {
-      if (!text) return "";
-      return text.length <= maxLength ? text : text.substring(0, maxLength).trim() + "...";
-    },
-    []
-  );
+  const handleSortClick = useCallback((field: PostsSortField) => {
+    setSort((current) => ({
+      field,
+      order:
+        current.field === field && current.order === "desc" ? "asc" : "desc",
+    }));
+    setPage(1);
+  }, []);
 
-  // Filtragem unificada pelo searchTerm (título, conteúdo ou autor)
-  const filteredPosts = useMemo(() => {
-    if (!debouncedSearchTerm) return posts;
-    const term = debouncedSearchTerm.toLowerCase();
-    return posts.filter(
-      (post) =>
-        post.title.toLowerCase().includes(term) ||
-        post.author.toLowerCase().includes(term) ||
-        post.content.toLowerCase().includes(term)
-    );
-  }, [posts, debouncedSearchTerm]);
+  const renderSortHeader = (field: PostsSortField, label: string) => (
+    <th
+      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+      aria-sort={
+        sort.field === field
+          ? sort.order === "asc"
+            ? "ascending"
+            : "descending"
+          : "none"
+      }
+    >
+      <button
+        type="button"
+        onClick={() => handleSortClick(field)}
+        className="uppercase tracking-wider hover:text-gray-700"
+      >
+        {label}
+        {sort.field === field && (sort.order === "asc" ? " ▲" : " ▼")}
+      </button>
+    </th>
+  );
 
   const handleDeleteClick = useCallback((post: Post) => {
     setDeleteModal({ isOpen: true, post });
@@ -69,29 +190,48 @@ const AdminPosts: React.FC = () => {
     setDeleteModal({ isOpen: false, post: null });
   }, []);
 
+  const handleUndoDelete = useCallback(
+    async (post: Post) => {
+      const restored = await restorePost(post._id);
+      if (restored) {
+        toast.success(`"${post.title}" foi restaurado.`);
+      } else {
+        toast.error(`Não foi possível restaurar "${post.title}". Ele continua na lixeira.`);
+      }
+    },
+    [restorePost]
+  );
+
   const handleDeleteConfirm = useCallback(async () => {
-    if (!deleteModal.post) return;
+    const post = deleteModal.post;
+    if (!post) return;
 
-    try {
-      setIsDeleting(true);
-      const success = await deletePost(deleteModal.post._id);
+    // O modal fecha na hora e a linha já sai da tabela; se o servidor
+    // recusar, o contexto devolve o post e avisa o que foi desfeito
+    setDeleteModal({ isOpen: false, post: null });
+    const success = await deletePost(post._id);
 
-      if (success) {
-        toast.success("Post excluído com sucesso!");
-        setDeleteModal({ isOpen: false, post: null });
-        refetch();
-      } else {
-        toast.error("Erro ao excluir post. Tente novamente.");
-      }
-    } catch (err: any) {
-      console.error("Error deleting post:", err);
-      if (err.response?.status === 404) toast.error("Post não encontrado");
-      else if (err.response?.status === 403) toast.error("Você não tem permissão para excluir este post");
-      else toast.error("Erro ao excluir post. Tente novamente.");
-    } finally {
-      setIsDeleting(false);
+    if (success) {
+      toast.success(
+        (t) => (
+          <span>
+            Post movido para a lixeira.{" "}
+            <button
+              onClick={() => {
+                toast.dismiss(t.id);
+                handleUndoDelete(post);
+              }}
+              className="font-medium text-blue-600 hover:text-blue-800"
+            >
+              Desfazer
+            </button>
+          </span>
+        ),
+        { duration: UNDO_TIMEOUT_MS }
+      );
+      if (posts.length === 1 && page > 1) setPage(page - 1);
     }
-  }, [deleteModal.post, deletePost, refetch]);
+  }, [deleteModal.post, deletePost, handleUndoDelete, posts.length, page]);
 
   const handleEditClick = useCallback(
     (post: Post) => navigate(`/posts/${post._id}/edit`),
@@ -110,29 +250,78 @@ const AdminPosts: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Painel Administrativo</h1>
           <p className="mt-1 text-sm text-gray-500">Gerencie todos os posts do sistema</p>
         </div>
-        <Link
-          to="/posts/create"
-          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 hover:text-white"
-        >
-          ➕ Novo Post
-        </Link>
+        <div className="flex space-x-3">
+          <Link
+            to="/admin/trash"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            🗑️ Lixeira
+          </Link>
+          <Link
+            to="/admin/comments"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            🛡️ Moderar Comentários
+          </Link>
+          <Link
+            to="/posts/create"
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 hover:text-white"
+          >
+            ➕ Novo Post
+          </Link>
+        </div>
       </div>
 
       <div className="bg-white p-6 rounded-lg shadow-sm border">
-        <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-2">
-          Buscar posts
-        </label>
-        <input
-          id="search"
-          type="text"
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          placeholder="Título, autor ou conteúdo..."
-          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-        />
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+          <div className="sm:col-span-3">
+            <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-2">
+              Buscar posts
+            </label>
+            <input
+              id="search"
+              type="text"
+              value={searchTerm}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              placeholder="Título, autor ou conteúdo..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div>
+            <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-2">
+              Status
+            </label>
+            <select
+              id="status"
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as PostStatus | "");
+                setPage(1);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              <option value="">Todos</option>
+              {(Object.keys(POST_STATUS_LABELS) as PostStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {POST_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="mt-4">
+          <TagFilter
+            tags={tags}
+            selected={tagFilter}
+            onChange={(next) => {
+              setTagFilter(next);
+              setPage(1);
+            }}
+          />
+        </div>
         {searchTerm && (
           <button
-            onClick={() => setSearchTerm("")}
+            onClick={() => handleSearchChange("")}
             className="text-sm text-blue-600 hover:text-blue-700 mt-2"
           >
             Limpar busca
@@ -143,19 +332,19 @@ const AdminPosts: React.FC = () => {
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-md p-4">
           <h3 className="text-sm font-medium text-red-800">Erro ao carregar posts</h3>
-          <p className="mt-1 text-sm text-red-700">{error}</p>
+          <p className="mt-1 text-sm text-red-700">{getErrorMessage(error)}</p>
         </div>
       )}
 
       {!loading && !error && (
         <div className="space-y-4">
-          {filteredPosts.length === 0 ? (
+          {posts.length === 0 ? (
             <div className="text-center py-12">
               <h3 className="text-sm font-medium text-gray-900">
-                {searchTerm ? "Nenhum post encontrado" : "Nenhum post disponível"}
+                {hasFilters ? "Nenhum post encontrado" : "Nenhum post disponível"}
               </h3>
               <p className="mt-1 text-sm text-gray-500">
-                {searchTerm ? "Tente ajustar os termos de busca." : "Os posts aparecerão aqui quando estiverem disponíveis."}
+                {hasFilters ? "Tente ajustar a busca ou os filtros." : "Os posts aparecerão aqui quando estiverem disponíveis."}
               </p>
             </div>
           ) : (
@@ -163,42 +352,44 @@ const AdminPosts: React.FC = () => {
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Título</th>
+                    {renderSortHeader("title", "Título")}
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Autor</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Criado em</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Atualizado em</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    {renderSortHeader("createdAt", "Criado em")}
+                    {renderSortHeader("updatedAt", "Atualizado em")}
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {filteredPosts.map((post) => (
-                    <tr key={post._id} className="hover:bg-gray-50">
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900">{truncateText(post.title, 50)}</div>
-                        <div className="text-sm text-gray-500">{truncateText(post.content, 80)}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{post.author}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(post.createdAt)}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(post.updatedAt)}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <div className="flex justify-end space-x-2">
-                          <button onClick={() => handleViewClick(post)} className="text-blue-600 hover:text-blue-900" title="Visualizar">👁️</button>
-                          <button onClick={() => handleEditClick(post)} className="text-indigo-600 hover:text-indigo-900" title="Editar">✏️</button>
-                          <button onClick={() => handleDeleteClick(post)} className="text-red-600 hover:text-red-900" title="Excluir">🗑️</button>
-                        </div>
-                      </td>
-                    </tr>
+                  {posts.map((post) => (
+                    <AdminPostRow
+                      key={post._id}
+                      post={post}
+                      onView={handleViewClick}
+                      onEdit={handleEditClick}
+                      onDelete={handleDeleteClick}
+                    />
                   ))}
                 </tbody>
               </table>
             </div>
           )}
+
+          <Pagination
+            page={pagination.page}
+            totalPages={pagination.totalPages}
+            total={pagination.total}
+            limit={pagination.limit}
+            onPageChange={setPage}
+            disabled={loading}
+          />
         </div>
       )}
 
       {loading && (
-        <div className="flex justify-center py-12">
+        <div className="flex flex-col items-center py-12 space-y-4">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <RetryNotice />
         </div>
       )}
 
@@ -207,10 +398,9 @@ const AdminPosts: React.FC = () => {
         onClose={handleDeleteCancel}
         onConfirm={handleDeleteConfirm}
         title="Excluir Post"
-        message={`Tem certeza que deseja excluir o post "${deleteModal.post?.title}"? Esta ação não pode ser desfeita.`}
+        message={`O post "${deleteModal.post?.title}" será movido para a lixeira, de onde pode ser restaurado até ser excluído definitivamente.`}
         confirmText="Excluir"
         cancelText="Cancelar"
-        isLoading={isDeleting}
         variant="danger"
       />
     </div>
@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import toast from "react-hot-toast";
+import { postsApi, TrashedPost, TrashResponse } from "../services/api";
+import { ApiError, getErrorMessage, toApiError } from "../services/apiError";
+import { usePosts, useMutationState } from "../contexts/PostsContext";
+import ConfirmModal from "../components/ConfirmModal";
+import RetryNotice from "../components/RetryNotice";
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString("pt-BR", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface TrashRowProps {
+  post: TrashedPost;
+  disabled: boolean;
+  onRestore: (post: TrashedPost) => void;
+  onPurge: (post: TrashedPost) => void;
+}
+
+const TrashRow: React.FC<TrashRowProps> = ({
+  post,
+  disabled,
+  onRestore,
+  onPurge,
+}) => {
+  const restoring = useMutationState("restore", post._id);
+
+  return (
+    <tr className={restoring.isPending ? "opacity-50" : "hover:bg-gray-50"}>
+      <td className="px-6 py-4">
+        <div className="text-sm font-medium text-gray-900">{post.title}</div>
+        <div className="text-sm text-gray-500">por {post.author}</div>
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{post.deletedBy}</td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(post.deletedAt)}</td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(post.purgeAt)}</td>
+      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={() => onRestore(post)}
+            disabled={disabled || restoring.isPending}
+            className="text-green-600 hover:text-green-900 disabled:opacity-50"
+          >
+            {restoring.isPending ? "Restaurando..." : "Restaurar"}
+          </button>
+          <button
+            onClick={() => onPurge(post)}
+            disabled={disabled || restoring.isPending}
+            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+          >
+            Excluir definitivamente
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+const AdminTrash: React.FC = () => {
+  const [trash, setTrash] = useState<TrashResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [postToPurge, setPostToPurge] = useState<TrashedPost | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { restorePost } = usePosts();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    postsApi
+      .getTrash({ signal: controller.signal })
+      .then((response) => {
+        setTrash(response);
+        setLoading(false);
+      })
+      .catch((err) => {
+        const apiError = toApiError(err);
+        if (apiError.kind === "cancelled") return;
+        console.error("Error fetching trash:", err);
+        setError(apiError);
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const refetch = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  const removeFromList = useCallback((postId: string) => {
+    setTrash((current) =>
+      current
+        ? { ...current, posts: current.posts.filter((post) => post._id !== postId) }
+        : current
+    );
+  }, []);
+
+  const handleRestore = useCallback(
+    async (post: TrashedPost) => {
+      const restored = await restorePost(post._id);
+      if (restored) {
+        toast.success(`"${post.title}" foi restaurado.`);
+        removeFromList(post._id);
+      } else {
+        toast.error(`Não foi possível restaurar "${post.title}". Tente novamente.`);
+        refetch();
+      }
+    },
+    [restorePost, removeFromList, refetch]
+  );
+
+  const handlePurgeConfirm = useCallback(async () => {
+    if (!postToPurge) return;
+
+    try {
+      setIsPurging(true);
+      await postsApi.purgePost(postToPurge._id);
+      toast.success("Post excluído definitivamente.");
+      removeFromList(postToPurge._id);
+      setPostToPurge(null);
+    } catch (err) {
+      console.error("Error purging post:", err);
+      toast.error(
+        getErrorMessage(err, {
+          not_found: "Este post não está mais na lixeira.",
+          forbidden: "Você não tem permissão para excluir posts da lixeira.",
+          unknown: "Erro ao excluir o post. Tente novamente.",
+        })
+      );
+      if (toApiError(err).kind === "not_found") {
+        removeFromList(postToPurge._id);
+        setPostToPurge(null);
+      }
+    } finally {
+      setIsPurging(false);
+    }
+  }, [postToPurge, removeFromList]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Lixeira</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {trash
+              ? `Posts excluídos ficam aqui por ${trash.retentionDays} ${
+                  trash.retentionDays === 1 ? "dia" : "dias"
+                } antes de serem excluídos definitivamente`
+              : "Posts excluídos que ainda podem ser restaurados"}
+          </p>
+        </div>
+        <Link
+          to="/admin"
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          ← Voltar aos posts
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4" role="alert">
+          <h3 className="text-sm font-medium text-red-800">Erro ao carregar a lixeira</h3>
+          <p className="mt-1 text-sm text-red-700">
+            {getErrorMessage(error, {
+              forbidden: "Você não tem permissão para acessar a lixeira.",
+            })}
+          </p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-sm font-medium text-red-800 hover:text-red-600"
+          >
+            Tentar novamente
+          </button>
+        </div>
+      )}
+
+      {!loading && !error && trash && (
+        trash.posts.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">A lixeira está vazia</h3>
+            <p className="mt-1 text-sm text-gray-500">Posts excluídos aparecerão aqui.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto bg-white shadow-sm rounded-lg border">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Post</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Excluído por</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Excluído em</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Exclusão definitiva</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {trash.posts.map((post) => (
+                  <TrashRow
+                    key={post._id}
+                    post={post}
+                    disabled={isPurging}
+                    onRestore={handleRestore}
+                    onPurge={setPostToPurge}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {loading && (
+        <div className="flex flex-col items-center py-12 space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <RetryNotice />
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={!!postToPurge}
+        onClose={() => setPostToPurge(null)}
+        onConfirm={handlePurgeConfirm}
+        title="Excluir Definitivamente"
+        message={`Tem certeza que deseja excluir definitivamente o post "${postToPurge?.title}"? Os comentários e o histórico de versões também serão excluídos. Esta ação não pode ser desfeita.`}
+        confirmText="Excluir definitivamente"
+        cancelText="Cancelar"
+        isLoading={isPurging}
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default AdminTrash;
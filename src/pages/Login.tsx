@@ -4,7 +4,7 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 
 interface LoginFormData {
-  email: string;
+  username: string;
   password: string;
 }
 
@@ -90,30 +90,30 @@ const Login: React.FC = () => {
 
             <div className="space-y-4">
               <div>
-                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700">
                   Usuário
                 </label>
                 <input
-                  id="email"
+                  id="username"
                   type="text"
-                  autoComplete="email"
-                  {...register('email', {
-                    required: 'O email é obrigatório',
+                  autoComplete="username"
+                  {...register('username', {
+                    required: 'O usuário é obrigatório',
                     minLength: {
                       value: 3,
-                      message: 'O email deve ter pelo menos 3 caracteres'
+                      message: 'O usuário deve ter pelo menos 3 caracteres'
                     }
                   })}
                   className={`mt-1 appearance-none relative block w-full px-3 py-2 border rounded-md placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm ${
-                    errors.email ? 'border-red-300' : 'border-gray-300'
+                    errors.username ? 'border-red-300' : 'border-gray-300'
                   }`}
-                  placeholder="Digite seu email"
-                  aria-invalid={errors.email ? 'true' : 'false'}
-                  aria-describedby={errors.email ? 'email-error' : undefined}
+                  placeholder="Digite seu usuário"
+                  aria-invalid={errors.username ? 'true' : 'false'}
+                  aria-describedby={errors.username ? 'username-error' : undefined}
                 />
-                {errors.email && (
-                  <p id="email-error" className="mt-1 text-sm text-red-600" role="alert">
-                    {errors.email.message}
+                {errors.username && (
+                  <p id="username-error" className="mt-1 text-sm text-red-600" role="alert">
+                    {errors.username.message}
                   </p>
                 )}
               </div>
@@ -1,15 +1,53 @@
-import React, { useState } from "react";
-import { useForm } from "react-hook-form";
+import React, { useRef, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
 import { useNavigate } from "react-router-dom";
 import toast from "react-hot-toast";
-import { postsApi, CreatePostParams } from "../services/api";
+import {
+  CreatePostParams,
+  PostStatus,
+  POST_STATUS_LABELS,
+} from "../services/api";
+import { ApiError } from "../services/apiError";
 import { useAuth } from "../contexts/AuthContext";
+import { usePosts, useTags } from "../contexts/PostsContext";
+import TagInput from "../components/TagInput";
+import ImageUploadArea from "../components/ImageUploadArea";
+import { fromDateTimeLocalValue } from "../utils/postStatus";
+import { insertAtSelection } from "../utils/media";
 
 interface PostFormData {
   title: string;
   content: string;
+  status: PostStatus;
+  // Valor do input datetime-local, no fuso do navegador
+  publishAt: string;
+  tags: string[];
 }
 
+// Arquivar só faz sentido para posts que já existem
+const STATUS_OPTIONS: PostStatus[] = ["draft", "published", "scheduled"];
+
+const STATUS_HINTS: Record<PostStatus, string> = {
+  draft: "Visível apenas para professores.",
+  published: "Visível para todos os alunos imediatamente.",
+  scheduled: "Fica visível para os alunos na data escolhida.",
+  archived: "Sai da lista de posts, mas continua salvo.",
+};
+
+const SUBMIT_LABELS: Record<PostStatus, string> = {
+  draft: "Salvar Rascunho",
+  published: "Publicar Post",
+  scheduled: "Agendar Post",
+  archived: "Arquivar Post",
+};
+
+const SUCCESS_MESSAGES: Record<PostStatus, string> = {
+  draft: "Rascunho salvo com sucesso!",
+  published: "Post publicado com sucesso!",
+  scheduled: "Post agendado com sucesso!",
+  archived: "Post arquivado com sucesso!",
+};
+
 const PostCreate: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -19,52 +57,88 @@ const PostCreate: React.FC = () => {
     register,
     handleSubmit,
     formState: { errors },
+    setError,
+    watch,
+    control,
+    getValues,
+    setValue,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     reset: _,
   } = useForm<PostFormData>({
     mode: "onChange",
+    defaultValues: { status: "published", publishAt: "", tags: [] },
+  });
+
+  const status = watch("status");
+  const { tags } = useTags();
+  const { createPost } = usePosts();
+
+  const contentRef = useRef<HTMLTextAreaElement | null>(null);
+  const { ref: registerContentRef, ...contentField } = register("content", {
+    required: "O conteúdo é obrigatório",
+    minLength: {
+      value: 10,
+      message: "O conteúdo deve ter pelo menos 10 caracteres",
+    },
+    maxLength: {
+      value: 10000,
+      message: "O conteúdo deve ter no máximo 10.000 caracteres",
+    },
   });
 
+  // Imagens enviadas ou escolhidas na biblioteca entram na posição do cursor
+  const insertIntoContent = (html: string) => {
+    setValue(
+      "content",
+      insertAtSelection(getValues("content") || "", html, contentRef.current),
+      { shouldValidate: true, shouldDirty: true }
+    );
+  };
+
+  const applyFieldErrors = (fieldErrors: Record<string, string>) => {
+    (["title", "content", "status", "publishAt", "tags"] as const).forEach((field) => {
+      if (fieldErrors[field]) {
+        setError(field, { type: "server", message: fieldErrors[field] });
+      }
+    });
+  };
+
   const onSubmit = async (data: PostFormData) => {
     if (!user) {
       toast.error("Usuário não autenticado");
       return;
     }
 
+    // O contexto já avisou que o post saiu da lista e o motivo
+    const handleError = (apiError: ApiError) => {
+      if (apiError.kind === "validation") {
+        applyFieldErrors(apiError.fieldErrors);
+      } else if (apiError.kind === "unauthorized") {
+        navigate("/login");
+      }
+    };
+
     try {
       setIsSubmitting(true);
 
       const createParams: CreatePostParams = {
         title: data.title.trim(),
         content: data.content.trim(),
-        author: user.name,
+        authorId: user._id,
+        status: data.status,
+        publishAt:
+          data.status === "scheduled"
+            ? fromDateTimeLocalValue(data.publishAt)
+            : undefined,
+        tags: data.tags,
       };
 
-      const newPost = await postsApi.createPost(createParams);
+      const newPost = await createPost(createParams, { onError: handleError });
+      if (!newPost) return;
 
-      toast.success("Post criado com sucesso!");
+      toast.success(SUCCESS_MESSAGES[newPost.status]);
 
       navigate(`/posts/${newPost._id}`);
-    } catch (error: any) {
-      console.error("Error creating post:", error);
-
-      if (error.response?.status === 400) {
-        const errorData = error.response.data;
-        if (errorData.errors) {
-          Object.keys(errorData.errors).forEach((field) => {
-            toast.error(`${field}: ${errorData.errors[field]}`);
-          });
-        } else {
-          toast.error(errorData.message || "Dados inválidos");
-        }
-      } else if (error.response?.status === 401) {
-        toast.error("Você precisa estar logado para criar posts");
-        navigate("/login");
-      } else if (error.response?.status === 403) {
-        toast.error("Você não tem permissão para criar posts");
-      } else {
-        toast.error("Erro ao criar post. Tente novamente.");
-      }
     } finally {
       setIsSubmitting(false);
     }
@@ -154,27 +228,26 @@ const PostCreate: React.FC = () => {
             >
               Conteúdo do Post *
             </label>
-            <textarea
-              id="content"
-              rows={12}
-              {...register("content", {
-                required: "O conteúdo é obrigatório",
-                minLength: {
-                  value: 10,
-                  message: "O conteúdo deve ter pelo menos 10 caracteres",
-                },
-                maxLength: {
-                  value: 10000,
-                  message: "O conteúdo deve ter no máximo 10.000 caracteres",
-                },
-              })}
-              className={`w-full px-4 py-3 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors resize-vertical ${
-                errors.content ? "border-red-300" : "border-gray-300"
-              }`}
-              placeholder="Digite o conteúdo do post... Você pode usar HTML básico como &lt;strong&gt;, &lt;em&gt;, &lt;p&gt;, etc."
-              aria-invalid={errors.content ? "true" : "false"}
-              aria-describedby={errors.content ? "content-error" : undefined}
-            />
+            <ImageUploadArea
+              onInsert={insertIntoContent}
+              disabled={isSubmitting}
+            >
+              <textarea
+                id="content"
+                rows={12}
+                {...contentField}
+                ref={(element) => {
+                  registerContentRef(element);
+                  contentRef.current = element;
+                }}
+                className={`w-full px-4 py-3 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors resize-vertical ${
+                  errors.content ? "border-red-300" : "border-gray-300"
+                }`}
+                placeholder="Digite o conteúdo do post... Você pode usar HTML básico como &lt;strong&gt;, &lt;em&gt;, &lt;p&gt;, etc."
+                aria-invalid={errors.content ? "true" : "false"}
+                aria-describedby={errors.content ? "content-error" : undefined}
+              />
+            </ImageUploadArea>
             {errors.content && (
               <p
                 id="content-error"
@@ -190,6 +263,101 @@ const PostCreate: React.FC = () => {
             </p>
           </div>
 
+          <div className="mb-6 grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label
+                htmlFor="status"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Status *
+              </label>
+              <select
+                id="status"
+                {...register("status")}
+                className="w-full px-4 py-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors"
+              >
+                {STATUS_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {POST_STATUS_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                {STATUS_HINTS[status]}
+              </p>
+            </div>
+
+            {status === "scheduled" && (
+              <div>
+                <label
+                  htmlFor="publishAt"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Publicar em *
+                </label>
+                <input
+                  id="publishAt"
+                  type="datetime-local"
+                  {...register("publishAt", {
+                    validate: (value) => {
+                      const publishAt = fromDateTimeLocalValue(value);
+                      if (!publishAt) return "Informe a data de publicação";
+                      return (
+                        Date.parse(publishAt) > Date.now() ||
+                        "A data de publicação deve estar no futuro"
+                      );
+                    },
+                  })}
+                  className={`w-full px-4 py-3 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors ${
+                    errors.publishAt ? "border-red-300" : "border-gray-300"
+                  }`}
+                  aria-invalid={errors.publishAt ? "true" : "false"}
+                  aria-describedby={errors.publishAt ? "publishAt-error" : undefined}
+                />
+                {errors.publishAt && (
+                  <p
+                    id="publishAt-error"
+                    className="mt-1 text-sm text-red-600"
+                    role="alert"
+                  >
+                    {errors.publishAt.message}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="mb-6">
+            <label
+              htmlFor="tags"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Tags
+            </label>
+            <Controller
+              name="tags"
+              control={control}
+              render={({ field }) => (
+                <TagInput
+                  id="tags"
+                  value={field.value || []}
+                  onChange={field.onChange}
+                  suggestions={tags.map((tag) => tag.name)}
+                  disabled={isSubmitting}
+                />
+              )}
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              Disciplina e temas do post, ex.: Matemática, Frações. Pressione
+              Enter ou vírgula para adicionar.
+            </p>
+            {errors.tags && (
+              <p className="mt-1 text-sm text-red-600" role="alert">
+                {errors.tags.message}
+              </p>
+            )}
+          </div>
+
           <div className="bg-gray-50 rounded-md p-4 mb-6">
             <h3 className="text-sm font-medium text-gray-700 mb-2">Dados do Autor:</h3>
             <p className="text-sm text-gray-600">
@@ -219,10 +387,10 @@ const PostCreate: React.FC = () => {
             {isSubmitting ? (
               <div className="flex items-center">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                Criando...
+                Salvando...
               </div>
             ) : (
-              "Criar Post"
+              SUBMIT_LABELS[status]
             )}
           </button>
         </div>
@@ -245,6 +413,7 @@ const PostCreate: React.FC = () => {
           <p>Parágrafo: &lt;p&gt;texto&lt;/p&gt;</p>
           <p>Quebra de linha: &lt;br&gt;</p>
           <p>Títulos: &lt;h1&gt; até &lt;h6&gt;</p>
+          <p>Imagens: arraste, cole ou use "Inserir imagem"</p>
         </div>
       </div>
     </div>
@@ -1,15 +1,94 @@
-import React, { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import React, { useState, useEffect, useRef } from "react";
+import { Controller, useForm } from "react-hook-form";
 import { useParams, useNavigate } from "react-router-dom";
 import toast from "react-hot-toast";
-import { postsApi, Post, UpdatePostParams } from "../services/api";
+import {
+  postsApi,
+  Post,
+  PostStatus,
+  UpdatePostParams,
+  POST_STATUS_LABELS,
+} from "../services/api";
+import { ApiError, toApiError, getErrorMessage } from "../services/apiError";
 import { useAuth } from "../contexts/AuthContext";
+import { usePosts, useTags } from "../contexts/PostsContext";
+import TagInput from "../components/TagInput";
+import ImageUploadArea from "../components/ImageUploadArea";
+import RetryNotice from "../components/RetryNotice";
+import EditConflictModal from "../components/EditConflictModal";
+import RevisionHistoryModal from "../components/RevisionHistoryModal";
+import {
+  fromDateTimeLocalValue,
+  toDateTimeLocalValue,
+} from "../utils/postStatus";
+import { insertAtSelection } from "../utils/media";
+import { hasConflictMarkers, mergeText } from "../utils/diff";
+import { hasTag } from "../utils/tags";
 
 interface PostFormData {
   title: string;
   content: string;
+  status: PostStatus;
+  // Valor do input datetime-local, no fuso do navegador
+  publishAt: string;
+  tags: string[];
 }
 
+const STATUS_OPTIONS: PostStatus[] = [
+  "draft",
+  "published",
+  "scheduled",
+  "archived",
+];
+
+const STATUS_HINTS: Record<PostStatus, string> = {
+  draft: "Visível apenas para professores.",
+  published: "Visível para todos os alunos imediatamente.",
+  scheduled: "Fica visível para os alunos na data escolhida.",
+  archived: "Sai da lista de posts, mas continua salvo.",
+};
+
+const toFormData = (post: Post): PostFormData => ({
+  title: post.title,
+  content: post.content,
+  status: post.status,
+  publishAt:
+    post.status === "scheduled" ? toDateTimeLocalValue(post.publishAt) : "",
+  tags: post.tags,
+});
+
+/**
+ * Mescla a edição local com a versão salva por outra pessoa
+ *
+ * Campos alterados só de um lado ficam com essa alteração; no título e na
+ * publicação, mudanças dos dois lados mantêm a versão local. O conteúdo é
+ * mesclado linha a linha e conflitos ficam marcados para revisão.
+ */
+const mergeFormData = (
+  base: PostFormData,
+  mine: PostFormData,
+  theirs: PostFormData
+) => {
+  const keepsMinePublication =
+    mine.status !== base.status || mine.publishAt !== base.publishAt;
+  const removedByMe = base.tags.filter((tag) => !hasTag(mine.tags, tag));
+  const addedByMe = mine.tags.filter((tag) => !hasTag(base.tags, tag));
+  const content = mergeText(base.content, mine.content, theirs.content);
+
+  const data: PostFormData = {
+    title: mine.title !== base.title ? mine.title : theirs.title,
+    content: content.text,
+    status: keepsMinePublication ? mine.status : theirs.status,
+    publishAt: keepsMinePublication ? mine.publishAt : theirs.publishAt,
+    tags: [
+      ...theirs.tags.filter((tag) => !hasTag(removedByMe, tag)),
+      ...addedByMe.filter((tag) => !hasTag(theirs.tags, tag)),
+    ],
+  };
+
+  return { data, conflicts: content.conflicts };
+};
+
 const PostEdit: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -19,17 +98,60 @@ const PostEdit: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [notFound, setNotFound] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Edição recusada com 409 e a versão salva por outra pessoa
+  const [conflict, setConflict] = useState<{
+    mine: PostFormData;
+    current: Post;
+  } | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
+    setError: setFieldError,
     reset,
+    watch,
+    control,
+    getValues,
+    setValue,
+    trigger,
   } = useForm<PostFormData>({
     mode: "onChange",
   });
 
+  const status = watch("status") ?? "published";
+  const { tags } = useTags();
+  const { cachePost, updatePost } = usePosts();
+
+  const contentRef = useRef<HTMLTextAreaElement | null>(null);
+  const { ref: registerContentRef, ...contentField } = register("content", {
+    required: "O conteúdo é obrigatório",
+    minLength: {
+      value: 10,
+      message: "O conteúdo deve ter pelo menos 10 caracteres",
+    },
+    maxLength: {
+      value: 10000,
+      message: "O conteúdo deve ter no máximo 10.000 caracteres",
+    },
+    validate: (value) =>
+      !hasConflictMarkers(value) ||
+      "Resolva os trechos entre <<<<<<< e >>>>>>> antes de salvar",
+  });
+
+  // Imagens enviadas ou escolhidas na biblioteca entram na posição do cursor
+  const insertIntoContent = (html: string) => {
+    setValue(
+      "content",
+      insertAtSelection(getValues("content") || "", html, contentRef.current),
+      { shouldValidate: true, shouldDirty: true }
+    );
+  };
+
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchPost = async () => {
       if (!id) return;
 
@@ -38,8 +160,12 @@ const PostEdit: React.FC = () => {
         setError(null);
         setNotFound(false);
 
-        const postData = await postsApi.getPostById(id);
+        const postData = await postsApi.getPostById(id, {
+          signal: controller.signal,
+        });
         setPost(postData);
+        // A edição otimista parte da versão que está no formulário
+        cachePost(postData);
 
         if (!isAuthenticated) {
           setError("Você precisa estar logado para editar posts");
@@ -51,30 +177,58 @@ const PostEdit: React.FC = () => {
           return;
         }
 
-        reset({
-          title: postData.title,
-          content: postData.content,
-        });
-      } catch (err: any) {
-        if (err.response?.status === 404) {
+        reset(toFormData(postData));
+      } catch (err) {
+        const apiError = toApiError(err);
+        if (apiError.kind === "cancelled") return;
+
+        if (apiError.kind === "not_found") {
           setNotFound(true);
-        } else if (err.response?.status === 403) {
-          setError("Você não tem permissão para editar este post");
         } else {
-          setError("Erro ao carregar o post. Tente novamente.");
+          setError(
+            getErrorMessage(apiError, {
+              forbidden: "Você não tem permissão para editar este post",
+              unknown: "Erro ao carregar o post. Tente novamente.",
+            })
+          );
           console.error("Error fetching post:", err);
         }
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchPost();
-  }, [id, isAuthenticated, user, reset]);
 
-  const onSubmit = async (data: PostFormData) => {
+    return () => controller.abort();
+  }, [id, isAuthenticated, user, reset, cachePost]);
+
+  // `updatedAt` identifica a versão sobre a qual a edição foi feita
+  const savePost = async (data: PostFormData, updatedAt: string) => {
     if (!id || !post) return;
 
+    // O contexto já desfez a edição otimista e avisou o motivo
+    const handleError = async (apiError: ApiError) => {
+      if (apiError.kind === "conflict") {
+        await showConflict(data);
+      } else if (apiError.kind === "validation") {
+        (["title", "content", "status", "publishAt", "tags"] as const).forEach((field) => {
+          if (apiError.fieldErrors[field]) {
+            setFieldError(field, {
+              type: "server",
+              message: apiError.fieldErrors[field],
+            });
+          }
+        });
+      } else if (apiError.kind === "unauthorized") {
+        navigate("/login");
+      } else if (apiError.kind === "not_found") {
+        navigate("/");
+      }
+    };
+
     try {
       setIsSubmitting(true);
 
@@ -82,41 +236,102 @@ const PostEdit: React.FC = () => {
         id,
         title: data.title.trim(),
         content: data.content.trim(),
+        status: data.status,
+        publishAt:
+          data.status === "scheduled"
+            ? fromDateTimeLocalValue(data.publishAt)
+            : undefined,
+        tags: data.tags,
+        updatedAt,
       };
 
-      await postsApi.updatePost(updateParams);
+      // Conflitos abrem o modal depois de buscar a versão atual. Sem retry:
+      // repetir um PUT já aplicado reenviaria o updatedAt antigo e daria 409
+      let handlingError: Promise<void> | undefined;
+      const updatedPost = await updatePost(updateParams, {
+        onError: (apiError) => {
+          handlingError = handleError(apiError);
+        },
+      });
+      if (!updatedPost) {
+        await handlingError;
+        return;
+      }
 
+      setConflict(null);
       toast.success("Post atualizado com sucesso!");
 
       navigate(`/`);
-    } catch (error: any) {
-      console.error("Error updating post:", error);
-
-      if (error.response?.status === 400) {
-        const errorData = error.response.data;
-        if (errorData.errors) {
-          Object.keys(errorData.errors).forEach((field) => {
-            toast.error(`${field}: ${errorData.errors[field]}`);
-          });
-        } else {
-          toast.error(errorData.message || "Dados inválidos");
-        }
-      } else if (error.response?.status === 401) {
-        toast.error("Você precisa estar logado para editar posts");
-        navigate("/login");
-      } else if (error.response?.status === 403) {
-        toast.error("Você não tem permissão para editar este post");
-      } else if (error.response?.status === 404) {
-        toast.error("Post não encontrado");
-        navigate("/");
-      } else {
-        toast.error("Erro ao atualizar post. Tente novamente.");
-      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const onSubmit = (data: PostFormData) => {
+    if (post) return savePost(data, post.updatedAt);
+  };
+
+  const showConflict = async (mine: PostFormData) => {
+    if (!id) return;
+    try {
+      const current = await postsApi.getPostById(id, { retry: true });
+      setConflict({ mine, current });
+    } catch (err) {
+      console.error("Error fetching current post:", err);
+      toast.error(
+        getErrorMessage(err, {
+          not_found: "Este post foi excluído por outra pessoa",
+          unknown: "Este post foi alterado por outra pessoa. Recarregue a página.",
+        })
+      );
+    }
+  };
+
+  const handleConflictOverwrite = () => {
+    if (conflict) savePost(conflict.mine, conflict.current.updatedAt);
+  };
+
+  const handleConflictDiscard = () => {
+    if (!conflict) return;
+    setPost(conflict.current);
+    reset(toFormData(conflict.current));
+    setConflict(null);
+    toast.success("Versão atual carregada");
+  };
+
+  const handleConflictMerge = () => {
+    if (!conflict || !post) return;
+    const { data, conflicts } = mergeFormData(
+      toFormData(post),
+      conflict.mine,
+      toFormData(conflict.current)
+    );
+
+    // A próxima gravação parte da versão atual
+    setPost(conflict.current);
+    reset(data);
+    setConflict(null);
+
+    if (conflicts > 0) {
+      trigger("content");
+      toast.error(
+        conflicts === 1
+          ? "Um trecho foi alterado nas duas versões. Revise o conteúdo antes de salvar."
+          : `${conflicts} trechos foram alterados nas duas versões. Revise o conteúdo antes de salvar.`
+      );
+    } else {
+      toast.success("Alterações mescladas. Revise e salve novamente.");
+    }
+  };
+
+  // A versão restaurada substitui o que estava no formulário
+  const handleRestored = (restored: Post) => {
+    setIsHistoryOpen(false);
+    cachePost(restored);
+    setPost(restored);
+    reset(toFormData(restored));
+  };
+
   const handleCancel = () => {
     if (
       window.confirm(
@@ -133,7 +348,7 @@ const PostEdit: React.FC = () => {
 
   if (loading) {
     return (
-      <div className="flex justify-center items-center min-h-64">
+      <div className="flex flex-col justify-center items-center min-h-64 space-y-4">
         <div
           className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"
           role="status"
@@ -141,6 +356,7 @@ const PostEdit: React.FC = () => {
         >
           <span className="sr-only">Carregando...</span>
         </div>
+        <RetryNotice />
       </div>
     );
   }
@@ -254,11 +470,21 @@ const PostEdit: React.FC = () => {
         <span className="text-gray-900 font-medium">Editar</span>
       </nav>
 
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900">Editar Post</h1>
-        <p className="mt-2 text-gray-600">
-          Faça as alterações necessárias no post abaixo.
-        </p>
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Editar Post</h1>
+          <p className="mt-2 text-gray-600">
+            Faça as alterações necessárias no post abaixo.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsHistoryOpen(true)}
+          disabled={isSubmitting}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          🕘 Histórico de versões
+        </button>
       </div>
 
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -309,27 +535,26 @@ const PostEdit: React.FC = () => {
             >
               Conteúdo do Post *
             </label>
-            <textarea
-              id="content"
-              rows={12}
-              {...register("content", {
-                required: "O conteúdo é obrigatório",
-                minLength: {
-                  value: 10,
-                  message: "O conteúdo deve ter pelo menos 10 caracteres",
-                },
-                maxLength: {
-                  value: 10000,
-                  message: "O conteúdo deve ter no máximo 10.000 caracteres",
-                },
-              })}
-              className={`w-full px-4 py-3 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors resize-vertical ${
-                errors.content ? "border-red-300" : "border-gray-300"
-              }`}
-              placeholder="Digite o conteúdo do post... Você pode usar HTML básico como &lt;strong&gt;, &lt;em&gt;, &lt;p&gt;, etc."
-              aria-invalid={errors.content ? "true" : "false"}
-              aria-describedby={errors.content ? "content-error" : undefined}
-            />
+            <ImageUploadArea
+              onInsert={insertIntoContent}
+              disabled={isSubmitting}
+            >
+              <textarea
+                id="content"
+                rows={12}
+                {...contentField}
+                ref={(element) => {
+                  registerContentRef(element);
+                  contentRef.current = element;
+                }}
+                className={`w-full px-4 py-3 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors resize-vertical ${
+                  errors.content ? "border-red-300" : "border-gray-300"
+                }`}
+                placeholder="Digite o conteúdo do post... Você pode usar HTML básico como &lt;strong&gt;, &lt;em&gt;, &lt;p&gt;, etc."
+                aria-invalid={errors.content ? "true" : "false"}
+                aria-describedby={errors.content ? "content-error" : undefined}
+              />
+            </ImageUploadArea>
             {errors.content && (
               <p
                 id="content-error"
@@ -345,6 +570,101 @@ const PostEdit: React.FC = () => {
             </p>
           </div>
 
+          <div className="mb-6 grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label
+                htmlFor="status"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Status *
+              </label>
+              <select
+                id="status"
+                {...register("status")}
+                className="w-full px-4 py-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors"
+              >
+                {STATUS_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {POST_STATUS_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                {STATUS_HINTS[status]}
+              </p>
+            </div>
+
+            {status === "scheduled" && (
+              <div>
+                <label
+                  htmlFor="publishAt"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Publicar em *
+                </label>
+                <input
+                  id="publishAt"
+                  type="datetime-local"
+                  {...register("publishAt", {
+                    validate: (value) => {
+                      const publishAt = fromDateTimeLocalValue(value);
+                      if (!publishAt) return "Informe a data de publicação";
+                      return (
+                        Date.parse(publishAt) > Date.now() ||
+                        "A data de publicação deve estar no futuro"
+                      );
+                    },
+                  })}
+                  className={`w-full px-4 py-3 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors ${
+                    errors.publishAt ? "border-red-300" : "border-gray-300"
+                  }`}
+                  aria-invalid={errors.publishAt ? "true" : "false"}
+                  aria-describedby={errors.publishAt ? "publishAt-error" : undefined}
+                />
+                {errors.publishAt && (
+                  <p
+                    id="publishAt-error"
+                    className="mt-1 text-sm text-red-600"
+                    role="alert"
+                  >
+                    {errors.publishAt.message}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="mb-6">
+            <label
+              htmlFor="tags"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Tags
+            </label>
+            <Controller
+              name="tags"
+              control={control}
+              render={({ field }) => (
+                <TagInput
+                  id="tags"
+                  value={field.value || []}
+                  onChange={field.onChange}
+                  suggestions={tags.map((tag) => tag.name)}
+                  disabled={isSubmitting}
+                />
+              )}
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              Disciplina e temas do post, ex.: Matemática, Frações. Pressione
+              Enter ou vírgula para adicionar.
+            </p>
+            {errors.tags && (
+              <p className="mt-1 text-sm text-red-600" role="alert">
+                {errors.tags.message}
+              </p>
+            )}
+          </div>
+
           <div className="bg-gray-50 rounded-md p-4 mb-6">
             <h3 className="text-sm font-medium text-gray-700 mb-2">
               Informações do Post
@@ -405,8 +725,31 @@ const PostEdit: React.FC = () => {
           <p>Parágrafo: &lt;p&gt;texto&lt;/p&gt;</p>
           <p>Quebra de linha: &lt;br&gt;</p>
           <p>Títulos: &lt;h1&gt; até &lt;h6&gt;</p>
+          <p>Imagens: arraste, cole ou use "Inserir imagem"</p>
         </div>
       </div>
+
+      {post && (
+        <RevisionHistoryModal
+          isOpen={isHistoryOpen}
+          post={post}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestored={handleRestored}
+        />
+      )}
+
+      {conflict && (
+        <EditConflictModal
+          isOpen
+          mine={conflict.mine}
+          current={conflict.current}
+          onOverwrite={handleConflictOverwrite}
+          onDiscard={handleConflictDiscard}
+          onMerge={handleConflictMerge}
+          onClose={() => setConflict(null)}
+          isLoading={isSubmitting}
+        />
+      )}
     </div>
   );
 };
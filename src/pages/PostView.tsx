@@ -1,10 +1,39 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import DOMPurify from 'dompurify';
-import { Comment } from '../services/api';
+import { Comment, ReportReason } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
-import { usePost } from '../contexts/PostsContext';
+import { usePost, useOfflinePost, useRealtimeEvents } from '../contexts/PostsContext';
 import { postsApi } from '../services/api';
+import { offlineCache } from '../services/offlineCache';
+import { getErrorMessage, toApiError } from '../services/apiError';
+import RetryNotice from '../components/RetryNotice';
+import CommentThread from '../components/CommentThread';
+import ConfirmModal from '../components/ConfirmModal';
+import ReportCommentModal from '../components/ReportCommentModal';
+import PostStatusBadge from '../components/PostStatusBadge';
+import TagList from '../components/TagList';
+import RevisionHistoryModal from '../components/RevisionHistoryModal';
+import toast from 'react-hot-toast';
+import { buildCommentTree, collectThreadIds, withoutHiddenThreads } from '../utils/commentThreads';
+import { isPostPublic } from '../utils/postStatus';
+import { formatSyncedAt } from '../utils/syncedAt';
+
+// Níveis de resposta indentados antes de a thread ser achatada
+const MAX_REPLY_DEPTH = 3;
+
+// O mesmo comentário pode chegar pela resposta da API e pelo canal em tempo real
+const addComment = (comments: Comment[], comment: Comment) => {
+  if (comments.some(existing => existing._id === comment._id)) return comments;
+  return comment.parentId ? [...comments, comment] : [comment, ...comments];
+};
+
+// De onde vieram os comentários na tela e quando foram buscados no servidor
+interface CommentsSync {
+  postId: string;
+  syncedAt: number;
+  fromCache: boolean;
+}
 
 const PostView: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -15,36 +44,110 @@ const PostView: React.FC = () => {
   const [notFound, setNotFound] = useState(false);
   const [commentContent, setCommentContent] = useState('');
   const [submittingComment, setSubmittingComment] = useState(false);
+  const [commentToDelete, setCommentToDelete] = useState<Comment | null>(null);
+  const [deletingComment, setDeletingComment] = useState(false);
+  const [commentToReport, setCommentToReport] = useState<Comment | null>(null);
+  const [reportingComment, setReportingComment] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [commentsSync, setCommentsSync] = useState<CommentsSync | null>(null);
+  // Post cujos comentários já vieram do servidor: a cópia local não os sobrescreve
+  const commentsLoadedFor = useRef<string | null>(null);
 
-  const { post, loading, error } = usePost(id || '');
+  const { post, loading, error, isStale, isRevalidating, syncedAt, refetch } = usePost(id || '');
+  const offline = useOfflinePost(id || '');
+
+  const isProfessor = user?.role === 'professor';
+  // Para alunos, respostas a um comentário oculto somem junto com ele em vez de virar raiz
+  const visibleComments = useMemo(
+    () => (isProfessor ? comments : withoutHiddenThreads(comments)),
+    [comments, isProfessor]
+  );
+  const commentTree = useMemo(() => buildCommentTree(visibleComments), [visibleComments]);
+  const repliesToDelete = commentToDelete
+    ? collectThreadIds(comments, commentToDelete._id).size - 1
+    : 0;
 
   useEffect(() => {
-    if (!loading && !error && !post && id) {
+    // Alunos não veem rascunhos nem agendamentos, mesmo que o backend os devolva
+    const hiddenFromUser = !!post && !isProfessor && !isPostPublic(post);
+    if ((!loading && !error && !post && id) || error?.kind === 'not_found' || hiddenFromUser) {
       setNotFound(true);
     } else {
       setNotFound(false);
     }
-  }, [loading, error, post, id]);
+  }, [loading, error, post, id, isProfessor]);
 
-  const fetchComments = useCallback(async () => {
+  const fetchComments = useCallback(async (signal?: AbortSignal) => {
     if (!id) return;
     
     try {
-      const commentsData = await postsApi.getComments(id);
+      const commentsData = await postsApi.getComments(id, { signal });
+      commentsLoadedFor.current = id;
       setComments(commentsData);
+      setCommentsSync({ postId: id, syncedAt: Date.now(), fromCache: false });
     } catch (err) {
+      if (toApiError(err).kind === 'cancelled') return;
       console.error('Error fetching comments:', err);
     }
   }, [id]);
 
+  useRealtimeEvents(event => {
+    if (event.type === 'comment.created' && event.comment.postId === id) {
+      setComments(prev => addComment(prev, event.comment));
+    }
+  });
+
   useEffect(() => {
-    fetchComments();
-  }, [fetchComments]);
+    const controller = new AbortController();
+    commentsLoadedFor.current = null;
+    setComments([]);
+    setCommentsSync(null);
+
+    // Sem conexão, os comentários salvos no dispositivo ficam na tela
+    if (id) {
+      offlineCache
+        .getComments(id)
+        .then(cached => {
+          // Desmontado ou trocou de post enquanto lia o dispositivo
+          if (controller.signal.aborted) return;
+          if (!cached || commentsLoadedFor.current === id) return;
+          setComments(cached.comments);
+          setCommentsSync({ postId: id, syncedAt: cached.syncedAt, fromCache: true });
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          console.error('Error loading offline comments:', err);
+        });
+    }
+    fetchComments(controller.signal);
+
+    return () => controller.abort();
+  }, [id, fetchComments]);
+
+  // Só grava o que veio do servidor, junto com as alterações feitas nesta tela,
+  // e apenas de posts públicos: rascunhos e agendamentos não vão para o disco
+  useEffect(() => {
+    if (!commentsSync || commentsSync.fromCache || commentsSync.postId !== id) return;
+    if (!post || post._id !== id || !isPostPublic(post)) return;
+    offlineCache.saveComments(post, comments, commentsSync.syncedAt);
+  }, [comments, commentsSync, id, post]);
+
+  const handleToggleOffline = () => {
+    offline.toggle();
+    toast.success(
+      offline.isAvailableOffline
+        ? 'Este post não ficará mais guardado para leitura offline.'
+        : 'Post disponível offline neste dispositivo.'
+    );
+  };
 
   const sanitizeContent = useCallback((content: string): string => {
     return DOMPurify.sanitize(content, {
       ALLOWED_TAGS: ['p', 'br', 'strong', 'em', 'u', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'a', 'img'],
-      ALLOWED_ATTR: ['href', 'src', 'alt', 'title']
+      ALLOWED_ATTR: ['href', 'src', 'alt', 'title', 'width', 'height'],
+      // Padrão do DOMPurify mais blob:, usado pelas imagens do backend simulado
+      ALLOWED_URI_REGEXP:
+        /^(?:(?:(?:f|ht)tps?|mailto|tel|callto|sms|cid|xmpp|blob):|[^a-z]|[a-z+.-]+(?:[^a-z+.:-]|$))/i
     });
   }, []);
 
@@ -70,26 +173,155 @@ const PostView: React.FC = () => {
         author: user.name
       });
       
-      setComments(prev => [newComment, ...prev]);
+      setComments(prev => addComment(prev, newComment));
       setCommentContent('');
     } catch (err) {
       console.error('Error creating comment:', err);
-      alert('Erro ao adicionar comentário. Tente novamente.');
+      alert(getErrorMessage(err, {
+        unknown: 'Erro ao adicionar comentário. Tente novamente.',
+        unauthorized: 'Você precisa estar logado para comentar.'
+      }));
     } finally {
       setSubmittingComment(false);
     }
   };
 
+  // Comentários antigos não têm authorId; nesse caso compara pelo nome
+  const isCommentAuthor = (comment: Comment) => {
+    if (!user) return false;
+    return comment.authorId ? comment.authorId === user._id : comment.author === user.name;
+  };
+
+  const handleReplyComment = async (parentId: string, content: string) => {
+    if (!id || !user) return false;
+
+    try {
+      const reply = await postsApi.createComment({
+        postId: id,
+        content,
+        author: user.name,
+        parentId
+      });
+      setComments(prev => addComment(prev, reply));
+      return true;
+    } catch (err) {
+      console.error('Error replying to comment:', err);
+      toast.error(getErrorMessage(err, {
+        unauthorized: 'Você precisa estar logado para responder.',
+        unknown: 'Erro ao enviar resposta. Tente novamente.'
+      }));
+      return false;
+    }
+  };
+
+  const handleUpdateComment = async (commentId: string, content: string) => {
+    if (!id) return false;
+
+    try {
+      const updatedComment = await postsApi.updateComment({ postId: id, commentId, content });
+      setComments(prev =>
+        prev.map(comment => (comment._id === commentId ? updatedComment : comment))
+      );
+      toast.success('Comentário atualizado!');
+      return true;
+    } catch (err) {
+      console.error('Error updating comment:', err);
+      const apiError = toApiError(err);
+      if (apiError.kind === 'not_found') {
+        setComments(prev => {
+          const removed = collectThreadIds(prev, commentId);
+          return prev.filter(comment => !removed.has(comment._id));
+        });
+      }
+      toast.error(getErrorMessage(apiError, {
+        not_found: 'Este comentário não existe mais.',
+        forbidden: 'Você não tem permissão para editar este comentário.',
+        unknown: 'Erro ao editar comentário. Tente novamente.'
+      }));
+      return false;
+    }
+  };
+
+  const handleDeleteComment = async () => {
+    if (!id || !commentToDelete) return;
+    const commentId = commentToDelete._id;
+
+    try {
+      setDeletingComment(true);
+      await postsApi.deleteComment(id, commentId);
+      // O servidor remove as respostas junto com o comentário
+      setComments(prev => {
+        const removed = collectThreadIds(prev, commentId);
+        return prev.filter(comment => !removed.has(comment._id));
+      });
+      setCommentToDelete(null);
+      toast.success('Comentário excluído!');
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      const apiError = toApiError(err);
+      if (apiError.kind === 'not_found') {
+        setComments(prev => {
+          const removed = collectThreadIds(prev, commentId);
+          return prev.filter(comment => !removed.has(comment._id));
+        });
+        setCommentToDelete(null);
+      }
+      toast.error(getErrorMessage(apiError, {
+        not_found: 'Este comentário já foi excluído.',
+        forbidden: 'Você não tem permissão para excluir este comentário.',
+        unknown: 'Erro ao excluir comentário. Tente novamente.'
+      }));
+    } finally {
+      setDeletingComment(false);
+    }
+  };
+
+  // Professores moderam diretamente; alunos denunciam comentários de outras pessoas
+  const canReportComment = (comment: Comment) =>
+    isAuthenticated && !isProfessor && !isCommentAuthor(comment);
+
+  const handleReportComment = async (reason: ReportReason, details: string) => {
+    if (!id || !commentToReport) return;
+    const commentId = commentToReport._id;
+
+    try {
+      setReportingComment(true);
+      const reported = await postsApi.reportComment({ postId: id, commentId, reason, details });
+      setComments(prev =>
+        prev.map(comment => (comment._id === commentId ? reported : comment))
+      );
+      setCommentToReport(null);
+      toast.success('Denúncia enviada. Obrigado por ajudar a manter a discussão saudável!');
+    } catch (err) {
+      console.error('Error reporting comment:', err);
+      const apiError = toApiError(err);
+      if (apiError.kind === 'conflict') {
+        setComments(prev =>
+          prev.map(comment => (comment._id === commentId ? { ...comment, reportedByMe: true } : comment))
+        );
+        setCommentToReport(null);
+      }
+      toast.error(getErrorMessage(apiError, {
+        conflict: 'Você já denunciou este comentário.',
+        not_found: 'Este comentário não existe mais.',
+        unknown: 'Erro ao enviar denúncia. Tente novamente.'
+      }));
+    } finally {
+      setReportingComment(false);
+    }
+  };
+
   const handleGoBack = () => {
     navigate(-1);
   };
 
   if (loading) {
     return (
-      <div className="flex justify-center items-center min-h-64">
+      <div className="flex flex-col justify-center items-center min-h-64 space-y-4">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" role="status" aria-label="Carregando post">
           <span className="sr-only">Carregando...</span>
         </div>
+        <RetryNotice />
       </div>
     );
   }
@@ -126,11 +358,14 @@ const PostView: React.FC = () => {
           <div className="ml-3">
             <h3 className="text-sm font-medium text-red-800">Erro ao carregar post</h3>
             <div className="mt-2 text-sm text-red-700">
-              <p>{error}</p>
+              <p>{getErrorMessage(error)}</p>
             </div>
             <div className="mt-4">
               <button
-                onClick={() => window.location.reload()}
+                onClick={() => {
+                  refetch();
+                  fetchComments();
+                }}
                 className="text-sm font-medium text-red-800 hover:text-red-600"
               >
                 Tentar novamente
@@ -154,18 +389,50 @@ const PostView: React.FC = () => {
         <span className="text-gray-900 font-medium">{post.title}</span>
       </nav>
 
-      <div className="mb-6">
+      <div className="mb-6 flex items-center justify-between">
         <button
           onClick={handleGoBack}
           className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
         >
           ← Voltar
         </button>
+        <div className="flex items-center space-x-4">
+          {isRevalidating ? (
+            <p className="text-sm text-gray-500" role="status">Atualizando...</p>
+          ) : isStale ? (
+            <p className="text-sm text-gray-500">
+              Mostrando a última versão carregada
+              {syncedAt ? `, sincronizada ${formatSyncedAt(syncedAt)}` : ''}.{' '}
+              <button onClick={() => refetch()} className="font-medium text-blue-600 hover:text-blue-800">
+                Atualizar
+              </button>
+            </p>
+          ) : (
+            offline.isAvailableOffline && syncedAt !== null && (
+              <p className="text-sm text-gray-500">Sincronizado {formatSyncedAt(syncedAt)}</p>
+            )
+          )}
+          <button
+            type="button"
+            onClick={handleToggleOffline}
+            aria-pressed={offline.isAvailableOffline}
+            className={`inline-flex items-center px-3 py-1.5 border rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              offline.isAvailableOffline
+                ? 'border-green-300 text-green-800 bg-green-50 hover:bg-green-100'
+                : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+          >
+            {offline.isAvailableOffline ? '✓ Disponível offline' : '📥 Disponibilizar offline'}
+          </button>
+        </div>
       </div>
 
       <article className="bg-white rounded-lg shadow-sm border p-8">
         <header className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-4">{post.title}</h1>
+          {isProfessor && !isPostPublic(post) && (
+            <PostStatusBadge post={post} className="mb-4" />
+          )}
           
           <div className="flex items-center justify-between text-sm text-gray-500 mb-6">
             <div className="flex items-center space-x-4">
@@ -184,9 +451,18 @@ const PostView: React.FC = () => {
                 >
                   ✏️ Editar
                 </Link>
+                <button
+                  type="button"
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  🕘 Histórico
+                </button>
               </div>
             )}
           </div>
+
+          <TagList tags={post.tags} />
         </header>
 
         <div 
@@ -199,9 +475,15 @@ const PostView: React.FC = () => {
 
       <div className="mt-8 bg-white rounded-lg shadow-sm border p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-6">
-          Comentários ({comments.length})
+          Comentários ({visibleComments.length})
         </h2>
 
+        {commentsSync?.fromCache && commentsSync.postId === id && (
+          <p className="-mt-4 mb-6 text-sm text-gray-500" role="status">
+            Comentários salvos no dispositivo, sincronizados {formatSyncedAt(commentsSync.syncedAt)}.
+          </p>
+        )}
+
         {isAuthenticated && (
           <form onSubmit={handleSubmitComment} className="mb-8">
             <div className="mb-4">
@@ -228,41 +510,65 @@ const PostView: React.FC = () => {
           </form>
         )}
 
-        {comments.length === 0 ? (
+        {visibleComments.length === 0 ? (
           <p className="text-gray-500 text-center py-4">
             Nenhum comentário ainda. Seja o primeiro a comentar!
           </p>
         ) : (
           <ul className="space-y-4">
-            {comments.map((comment) => (
-              <li key={comment._id} className="border-b border-gray-200 pb-4 last:border-b-0">
-                <div className="flex items-start space-x-3">
-                  <div className="flex-shrink-0">
-                    <div className="h-8 w-8 rounded-full bg-gray-300 flex items-center justify-center">
-                      <span className="text-sm font-medium text-gray-700">
-                        {comment.author.charAt(0).toUpperCase()}
-                      </span>
-                    </div>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center space-x-2 mb-1">
-                      <span className="text-sm font-medium text-gray-900">
-                        {comment.author}
-                      </span>
-                      <span className="text-xs text-gray-500">
-                        {formatDate(comment.createdAt)}
-                      </span>
-                    </div>
-                    <p className="text-sm text-gray-700 whitespace-pre-wrap">
-                      {comment.content}
-                    </p>
-                  </div>
-                </div>
-              </li>
+            {commentTree.map((node) => (
+              <CommentThread
+                key={node.comment._id}
+                node={node}
+                formatDate={formatDate}
+                canEdit={isCommentAuthor}
+                canDelete={(comment) => isCommentAuthor(comment) || isProfessor}
+                onReply={isAuthenticated ? handleReplyComment : undefined}
+                onSave={handleUpdateComment}
+                onDelete={setCommentToDelete}
+                canReport={canReportComment}
+                onReport={setCommentToReport}
+                showReports={isProfessor}
+                maxDepth={MAX_REPLY_DEPTH}
+              />
             ))}
           </ul>
         )}
       </div>
+
+      <ConfirmModal
+        isOpen={!!commentToDelete}
+        onClose={() => setCommentToDelete(null)}
+        onConfirm={handleDeleteComment}
+        title="Excluir Comentário"
+        message={
+          repliesToDelete > 0
+            ? `Tem certeza que deseja excluir este comentário e ${repliesToDelete === 1 ? 'sua resposta' : `suas ${repliesToDelete} respostas`}? Esta ação não pode ser desfeita.`
+            : 'Tem certeza que deseja excluir este comentário? Esta ação não pode ser desfeita.'
+        }
+        confirmText="Excluir"
+        cancelText="Cancelar"
+        isLoading={deletingComment}
+        variant="danger"
+      />
+
+      <ReportCommentModal
+        isOpen={!!commentToReport}
+        onClose={() => setCommentToReport(null)}
+        onSubmit={handleReportComment}
+        author={commentToReport?.author}
+        isLoading={reportingComment}
+      />
+
+      <RevisionHistoryModal
+        isOpen={isHistoryOpen}
+        post={post}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestored={() => {
+          setIsHistoryOpen(false);
+          refetch();
+        }}
+      />
     </div>
   );
 };
@@ -1,8 +1,30 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
-import { Link } from "react-router-dom";
-import { Post } from "../services/api";
+import React, { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Post, PostsSortField, SortOrder } from "../services/api";
+import { getErrorMessage } from "../services/apiError";
 import { useAuth } from "../contexts/AuthContext";
-import { usePostsList } from "../contexts/PostsContext";
+import { usePosts, usePostsList, useTags } from "../contexts/PostsContext";
+import Pagination from "../components/Pagination";
+import RetryNotice from "../components/RetryNotice";
+import PostStatusBadge from "../components/PostStatusBadge";
+import TagFilter from "../components/TagFilter";
+import TagList from "../components/TagList";
+import { isPostPublic } from "../utils/postStatus";
+import { formatSyncedAt } from "../utils/syncedAt";
+
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS: {
+  value: string;
+  label: string;
+  sort: PostsSortField;
+  order: SortOrder;
+}[] = [
+  { value: "recent", label: "Mais recentes", sort: "createdAt", order: "desc" },
+  { value: "oldest", label: "Mais antigos", sort: "createdAt", order: "asc" },
+  { value: "updated", label: "Atualizados recentemente", sort: "updatedAt", order: "desc" },
+  { value: "title", label: "Título (A–Z)", sort: "title", order: "asc" },
+];
 
 const useDebounce = (value: string, delay: number) => {
   const [debouncedValue, setDebouncedValue] = useState(value);
@@ -17,17 +39,64 @@ const useDebounce = (value: string, delay: number) => {
 
 const PostsList: React.FC = () => {
   const { user, isAuthenticated } = useAuth();
+  const isProfessor = isAuthenticated && user?.role === "professor";
   const [searchTerm, setSearchTerm] = useState("");
-  const [totalPosts, setTotalPosts] = useState(0);
+  const [page, setPage] = useState(1);
+  const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value);
+  // Em /tags/:tag a tag da rota já chega selecionada
+  const { tag } = useParams<{ tag?: string }>();
+  const [selectedTags, setSelectedTags] = useState<string[]>(tag ? [tag] : []);
+  const { tags } = useTags();
+
+  useEffect(() => {
+    setSelectedTags(tag ? [tag] : []);
+    setPage(1);
+  }, [tag]);
 
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const { sort, order } =
+    SORT_OPTIONS.find((option) => option.value === sortOption) ||
+    SORT_OPTIONS[0];
 
-  const { posts, loading, error } = usePostsList();
+  const {
+    posts,
+    pagination,
+    pendingPosts,
+    loading,
+    error,
+    isStale,
+    isRevalidating,
+    syncedAt,
+    refetch,
+    clearPendingPosts,
+  } = usePostsList({
+    search: debouncedSearchTerm,
+    page,
+    limit: PAGE_SIZE,
+    sort,
+    order,
+    // Rascunhos, agendamentos e arquivados ficam restritos aos professores
+    status: isProfessor ? undefined : "published",
+    tags: selectedTags,
+  });
 
-  useEffect(() => {
-    const total = posts.length;
-    setTotalPosts(total);
-  }, [posts]);
+  const { isAvailableOffline } = usePosts();
+
+  // O filtro também é aplicado aqui para backends que ignoram `status`
+  const visiblePosts = isProfessor
+    ? posts
+    : posts.filter((post) => isPostPublic(post));
+  const newPostsCount = isProfessor
+    ? pendingPosts.length
+    : pendingPosts.filter((post) => isPostPublic(post)).length;
+
+  // Posts novos só entram na lista quando o leitor pede
+  const showNewPosts = () => {
+    clearPendingPosts();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    if (page === 1) refetch();
+    else setPage(1);
+  };
 
   const truncateDescription = useCallback(
     (content: string, maxLength: number = 150): string =>
@@ -37,17 +106,6 @@ const PostsList: React.FC = () => {
     []
   );
 
-  const filteredPosts = useMemo(() => {
-    if (!debouncedSearchTerm) return posts;
-    const search = debouncedSearchTerm.toLowerCase();
-    return posts.filter(
-      (post: Post) =>
-        post.title.toLowerCase().includes(search) ||
-        post.author.toLowerCase().includes(search) ||
-        post.content.toLowerCase().includes(search)
-    );
-  }, [posts, debouncedSearchTerm]);
-
   return (
     <div className="space-y-6">
       <div className="bg-white p-6 rounded-lg shadow-sm border">
@@ -61,11 +119,43 @@ const PostsList: React.FC = () => {
           id="search"
           type="text"
           value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
+          onChange={(e) => {
+            setSearchTerm(e.target.value);
+            setPage(1);
+          }}
           placeholder="Digite para buscar por título, autor ou conteúdo..."
           className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors"
         />
-        {loading && <p className="text-sm text-gray-500 mt-2">Buscando...</p>}
+        {loading ? (
+          <p className="text-sm text-gray-500 mt-2">Buscando...</p>
+        ) : isRevalidating ? (
+          <p className="text-sm text-gray-500 mt-2" role="status">
+            Atualizando...
+          </p>
+        ) : (
+          isStale && (
+            <p className="text-sm text-gray-500 mt-2">
+              Mostrando a última lista carregada
+              {syncedAt ? `, sincronizada ${formatSyncedAt(syncedAt)}` : ""}.{" "}
+              <button
+                onClick={() => refetch()}
+                className="font-medium text-blue-600 hover:text-blue-800"
+              >
+                Atualizar
+              </button>
+            </p>
+          )
+        )}
+        <div className="mt-4">
+          <TagFilter
+            tags={tags}
+            selected={selectedTags}
+            onChange={(next) => {
+              setSelectedTags(next);
+              setPage(1);
+            }}
+          />
+        </div>
       </div>
 
       {error && (
@@ -73,7 +163,13 @@ const PostsList: React.FC = () => {
           <h3 className="text-sm font-medium text-red-800">
             Erro ao carregar posts
           </h3>
-          <p className="mt-1 text-sm text-red-700">{error}</p>
+          <p className="mt-1 text-sm text-red-700">{getErrorMessage(error)}</p>
+          <button
+            onClick={() => refetch()}
+            className="mt-3 text-sm font-medium text-red-800 hover:text-red-600"
+          >
+            Tentar novamente
+          </button>
         </div>
       )}
 
@@ -81,10 +177,31 @@ const PostsList: React.FC = () => {
         <div className="space-y-4">
           <div className="flex justify-between items-center">
             <h2 className="text-lg font-semibold text-gray-900">
-              Posts {totalPosts > 0 && `(${totalPosts})`}
+              {selectedTags.length === 1
+                ? `Posts com a tag #${selectedTags[0]}`
+                : "Posts"}{" "}
+              {pagination.total > 0 && `(${pagination.total})`}
             </h2>
             <div className="flex items-center space-x-4">
-              {isAuthenticated && user?.role === "professor" && (
+              <label htmlFor="sort" className="sr-only">
+                Ordenar posts
+              </label>
+              <select
+                id="sort"
+                value={sortOption}
+                onChange={(e) => {
+                  setSortOption(e.target.value);
+                  setPage(1);
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              {isProfessor && (
                 <Link
                   to="/posts/create"
                   className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 hover:text-white"
@@ -95,22 +212,37 @@ const PostsList: React.FC = () => {
             </div>
           </div>
 
-          {filteredPosts.length === 0 ? (
+          {newPostsCount > 0 && (
+            <div className="sticky top-4 z-10 flex justify-center">
+              <button
+                type="button"
+                onClick={showNewPosts}
+                className="px-4 py-2 rounded-full shadow-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                {newPostsCount === 1
+                  ? "1 novo post"
+                  : `${newPostsCount} novos posts`}{" "}
+                — mostrar
+              </button>
+            </div>
+          )}
+
+          {visiblePosts.length === 0 ? (
             <div className="text-center py-12">
               <h3 className="text-sm font-medium text-gray-900">
-                {searchTerm
+                {searchTerm || selectedTags.length > 0
                   ? "Nenhum post encontrado"
                   : "Nenhum post disponível"}
               </h3>
               <p className="mt-1 text-sm text-gray-500">
-                {searchTerm
-                  ? "Tente ajustar os termos de busca."
+                {searchTerm || selectedTags.length > 0
+                  ? "Tente ajustar os termos de busca ou as tags."
                   : "Os posts aparecerão aqui quando estiverem disponíveis."}
               </p>
             </div>
           ) : (
             <ul className="space-y-4">
-              {filteredPosts.map((post: Post) => (
+              {visiblePosts.map((post: Post) => (
                 <li
                   key={post._id}
                   className="bg-white rounded-lg shadow-sm border hover:shadow-md transition-shadow"
@@ -119,9 +251,19 @@ const PostsList: React.FC = () => {
                     to={`/posts/${post._id}`}
                     className="block p-6 hover:bg-gray-50"
                   >
-                    <h3 className="text-xl font-semibold text-gray-900 hover:text-blue-600">
-                      {post.title}
-                    </h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-xl font-semibold text-gray-900 hover:text-blue-600">
+                        {post.title}
+                      </h3>
+                      {isProfessor && !isPostPublic(post) && (
+                        <PostStatusBadge post={post} />
+                      )}
+                      {isAvailableOffline(post._id) && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                          📥 Disponível offline
+                        </span>
+                      )}
+                    </div>
                     <div className="text-sm text-gray-500 mt-1">
                       Por {post.author} •{" "}
                       {new Date(post.createdAt).toLocaleDateString("pt-BR")}
@@ -130,16 +272,28 @@ const PostsList: React.FC = () => {
                       {truncateDescription(post.description || post.content)}
                     </p>
                   </Link>
+                  {/* Fora do Link do card: links não podem ser aninhados */}
+                  <TagList tags={post.tags} className="px-6 pb-6 -mt-3" />
                 </li>
               ))}
             </ul>
           )}
+
+          <Pagination
+            page={pagination.page}
+            totalPages={pagination.totalPages}
+            total={pagination.total}
+            limit={pagination.limit}
+            onPageChange={setPage}
+            disabled={loading}
+          />
         </div>
       )}
 
       {loading && (
-        <div className="flex justify-center py-12">
+        <div className="flex flex-col items-center py-12 space-y-4">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <RetryNotice />
         </div>
       )}
     </div>
@@ -0,0 +1,315 @@
+/**
+ * Requisições e respostas copiadas dos exemplos do API_CONTRACT.md
+ *
+ * Estes objetos são a referência do formato trocado com o backend real e
+ * não dependem do backend simulado: ao mudar o contrato, atualize o
+ * documento e este arquivo juntos.
+ */
+
+export type ContractMethod = "get" | "post" | "put" | "patch" | "delete";
+
+export interface ContractExchange {
+  request: {
+    method: ContractMethod;
+    url: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    body?: unknown;
+  };
+}
+
+const REACT_POST = {
+  id: "post-123",
+  title: "Introdução ao React",
+  content: "<p>React é uma biblioteca JavaScript...</p>",
+  authorId: "user-123",
+  authorName: "João Silva",
+  excerpt:
+    "React é uma biblioteca JavaScript para construir interfaces de usuário...",
+  status: "published",
+  publishAt: "2024-01-15T10:30:00Z",
+  tags: ["Programação", "React"],
+  createdAt: "2024-01-15T10:30:00Z",
+  updatedAt: "2024-01-15T10:30:00Z",
+};
+
+const POST_NOT_FOUND = {
+  status: 404,
+  body: {
+    message: "Post não encontrado",
+    errors: ["Post com ID 'post-123' não existe"],
+  },
+};
+
+export const loginSuccess: ContractExchange = {
+  request: {
+    method: "post",
+    url: "/auth/login",
+    body: { username: "joao", password: "senha123" },
+  },
+  response: {
+    status: 200,
+    body: {
+      accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.access",
+      refreshToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.refresh",
+      user: {
+        id: "user-123",
+        name: "João Silva",
+        email: "joao@email.com",
+        role: "teacher",
+      },
+    },
+  },
+};
+
+export const loginInvalidCredentials: ContractExchange = {
+  request: loginSuccess.request,
+  response: {
+    status: 401,
+    body: {
+      message: "Credenciais inválidas",
+      errors: ["Usuário ou senha incorretos"],
+    },
+  },
+};
+
+export const refreshSuccess: ContractExchange = {
+  request: {
+    method: "post",
+    url: "/auth/refresh",
+    body: { refreshToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.refresh" },
+  },
+  response: {
+    status: 200,
+    body: {
+      accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.access2",
+      refreshToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.refresh2",
+    },
+  },
+};
+
+export const listPosts: ContractExchange = {
+  request: {
+    method: "get",
+    url: "/posts?search=react&page=1&limit=10&sort=createdAt&order=desc&tags=Matemática,Frações",
+  },
+  response: {
+    status: 200,
+    body: {
+      posts: [REACT_POST],
+      total: 25,
+      page: 1,
+      limit: 10,
+      totalPages: 3,
+    },
+  },
+};
+
+export const listTags: ContractExchange = {
+  request: { method: "get", url: "/tags" },
+  response: {
+    status: 200,
+    body: [
+      { name: "Matemática", count: 8 },
+      { name: "História", count: 7 },
+    ],
+  },
+};
+
+export const getPost: ContractExchange = {
+  request: { method: "get", url: "/posts/post-123" },
+  response: {
+    status: 200,
+    body: {
+      id: "post-123",
+      title: "Introdução ao React",
+      content:
+        "<p>React é uma biblioteca JavaScript para construir interfaces de usuário...</p>",
+      authorId: "user-123",
+      authorName: "João Silva",
+      status: "published",
+      publishAt: "2024-01-15T10:30:00Z",
+      tags: ["Programação", "React"],
+      createdAt: "2024-01-15T10:30:00Z",
+      updatedAt: "2024-01-15T10:30:00Z",
+    },
+  },
+};
+
+export const getPostNotFound: ContractExchange = {
+  request: getPost.request,
+  response: POST_NOT_FOUND,
+};
+
+export const createPost: ContractExchange = {
+  request: {
+    method: "post",
+    url: "/posts",
+    body: {
+      title: "Meu Novo Post",
+      content: "<p>Conteúdo do post em HTML...</p>",
+      authorId: "user-123",
+      status: "scheduled",
+      publishAt: "2024-01-20T08:00:00Z",
+      tags: ["Matemática", "Frações"],
+    },
+  },
+  response: {
+    status: 201,
+    body: {
+      id: "post-456",
+      title: "Meu Novo Post",
+      content: "<p>Conteúdo do post em HTML...</p>",
+      authorId: "user-123",
+      authorName: "João Silva",
+      status: "scheduled",
+      publishAt: "2024-01-20T08:00:00Z",
+      tags: ["Matemática", "Frações"],
+      createdAt: "2024-01-15T11:00:00Z",
+      updatedAt: "2024-01-15T11:00:00Z",
+    },
+  },
+};
+
+export const createPostInvalid: ContractExchange = {
+  request: createPost.request,
+  response: {
+    status: 400,
+    body: {
+      message: "Dados de entrada inválidos",
+      errors: ["Title deve ter pelo menos 3 caracteres"],
+    },
+  },
+};
+
+export const updatePost: ContractExchange = {
+  request: {
+    method: "put",
+    url: "/posts/post-123",
+    body: {
+      title: "Título Atualizado",
+      content: "<p>Conteúdo atualizado em HTML...</p>",
+      status: "archived",
+      updatedAt: "2024-01-15T10:30:00Z",
+    },
+  },
+  response: {
+    status: 200,
+    body: {
+      id: "post-123",
+      title: "Título Atualizado",
+      content: "<p>Conteúdo atualizado em HTML...</p>",
+      authorId: "user-123",
+      authorName: "João Silva",
+      status: "archived",
+      publishAt: "2024-01-15T10:30:00Z",
+      tags: ["Programação", "React"],
+      createdAt: "2024-01-15T10:30:00Z",
+      updatedAt: "2024-01-15T12:00:00Z",
+    },
+  },
+};
+
+export const updatePostConflict: ContractExchange = {
+  request: updatePost.request,
+  response: {
+    status: 409,
+    body: {
+      message: "Post foi modificado por outra pessoa",
+      errors: ["Post foi atualizado em 2024-01-15T11:45:00Z"],
+    },
+  },
+};
+
+export const deletePost: ContractExchange = {
+  request: { method: "delete", url: "/posts/post-123" },
+  response: { status: 204 },
+};
+
+export const listComments: ContractExchange = {
+  request: { method: "get", url: "/posts/post-123/comments" },
+  response: {
+    status: 200,
+    body: [
+      {
+        id: "comment-123",
+        postId: "post-123",
+        author: "Maria Santos",
+        content: "Excelente post! Muito esclarecedor.",
+        status: "visible",
+        flagged: false,
+        reportCount: 0,
+        reportedByMe: false,
+        createdAt: "2024-01-15T14:30:00Z",
+        updatedAt: "2024-01-15T14:30:00Z",
+      },
+      {
+        id: "comment-124",
+        postId: "post-123",
+        author: "Pedro Costa",
+        content: "Obrigado por compartilhar essas informações.",
+        createdAt: "2024-01-15T15:45:00Z",
+        updatedAt: "2024-01-15T15:45:00Z",
+      },
+    ],
+  },
+};
+
+export const listCommentsNotFound: ContractExchange = {
+  request: listComments.request,
+  response: POST_NOT_FOUND,
+};
+
+export const createComment: ContractExchange = {
+  request: {
+    method: "post",
+    url: "/posts/post-123/comments",
+    body: {
+      content: "Muito interessante este post!",
+      author: "Ana Oliveira",
+      parentId: "comment-123",
+    },
+  },
+  response: {
+    status: 201,
+    body: {
+      id: "comment-125",
+      postId: "post-123",
+      parentId: "comment-123",
+      author: "Ana Oliveira",
+      content: "Muito interessante este post!",
+      createdAt: "2024-01-15T16:00:00Z",
+      updatedAt: "2024-01-15T16:00:00Z",
+    },
+  },
+};
+
+export const listTrash: ContractExchange = {
+  request: { method: "get", url: "/posts/trash" },
+  response: {
+    status: 200,
+    body: {
+      posts: [
+        {
+          id: "post-123",
+          title: "Introdução ao React",
+          content: "<p>React é uma biblioteca JavaScript...</p>",
+          authorId: "user-123",
+          authorName: "João Silva",
+          status: "published",
+          tags: ["Programação", "React"],
+          excerpt: "React é uma biblioteca JavaScript...",
+          createdAt: "2024-01-15T10:30:00Z",
+          updatedAt: "2024-01-15T10:30:00Z",
+          deletedAt: "2024-02-01T14:00:00Z",
+          deletedById: "user-789",
+          deletedByName: "Ana Souza",
+          purgeAt: "2024-03-02T14:00:00Z",
+        },
+      ],
+      retentionDays: 30,
+    },
+  },
+};
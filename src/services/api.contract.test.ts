@@ -0,0 +1,1471 @@
+import { InternalAxiosRequestConfig } from "axios";
+import api, { postsApi, authApi } from "./api";
+import { ApiError, ApiErrorKind } from "./apiError";
+import { tokenStorage } from "./tokenStorage";
+import { decodeRealtimeEvent } from "./decoders";
+import { createMockBackend } from "./mock";
+
+/**
+ * Verifica se postsApi/authApi seguem o API_CONTRACT.md
+ *
+ * O cliente roda contra o backend simulado, que implementa o contrato.
+ * Cada endpoint é exercitado no sucesso e em todos os status de erro
+ * documentados, checando tanto o que é enviado quanto o que é decodificado.
+ * Como cliente e mock podem mudar juntos, os formatos em si são fixados em
+ * `api.fixtures.test.ts`.
+ */
+
+const backend = createMockBackend({ latencyMs: 0 });
+const requests: InternalAxiosRequestConfig[] = [];
+const originalAdapter = api.defaults.adapter;
+
+const lastRequest = () => requests[requests.length - 1];
+const lastRequestBody = () => JSON.parse(lastRequest().data);
+
+const loginAs = async (username: string) => {
+  const response = await authApi.login({ username, password: "senha123" });
+  tokenStorage.setTokens(response);
+  return response;
+};
+
+const expectApiError = async (
+  promise: Promise<unknown>,
+  kind: ApiErrorKind,
+  status?: number
+) => {
+  const error = await promise.then(
+    () => null,
+    (reason) => reason
+  );
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error).toMatchObject({ kind, status });
+  return error as ApiError;
+};
+
+beforeAll(() => {
+  api.defaults.adapter = (config) => {
+    requests.push(config);
+    return backend.adapter(config);
+  };
+});
+
+afterAll(() => {
+  api.defaults.adapter = originalAdapter;
+});
+
+beforeEach(() => {
+  backend.reset();
+  tokenStorage.clear();
+  requests.length = 0;
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("POST /auth/login", () => {
+  it("envia username e password e decodifica tokens e usuário", async () => {
+    const response = await authApi.login({
+      username: "professor",
+      password: "senha123",
+    });
+
+    expect(lastRequest().method).toBe("post");
+    expect(lastRequest().url).toBe("/auth/login");
+    expect(lastRequestBody()).toEqual({
+      username: "professor",
+      password: "senha123",
+    });
+    expect(response.accessToken).toEqual(expect.any(String));
+    expect(response.refreshToken).toEqual(expect.any(String));
+    expect(response.user).toEqual({
+      _id: "user-1",
+      name: "João Silva",
+      email: "joao@escola.com",
+      role: "professor",
+    });
+  });
+
+  it("mapeia a role student", async () => {
+    const response = await authApi.login({
+      username: "aluno",
+      password: "senha123",
+    });
+    expect(response.user.role).toBe("student");
+  });
+
+  it("retorna 401 para credenciais inválidas sem tentar renovar o token", async () => {
+    const error = await expectApiError(
+      authApi.login({ username: "professor", password: "errada1" }),
+      "unauthorized",
+      401
+    );
+    expect(error.serverMessage).toBe("Credenciais inválidas");
+    expect(error.errors).toEqual(["Usuário ou senha incorretos"]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("retorna 400 com erros por campo", async () => {
+    const error = await expectApiError(
+      authApi.login({ username: "", password: "123" }),
+      "validation",
+      400
+    );
+    expect(error.serverMessage).toBe("Dados de entrada inválidos");
+    expect(error.fieldErrors).toEqual({
+      username: "Username é obrigatório",
+      password: "Password deve ter pelo menos 6 caracteres",
+    });
+  });
+});
+
+describe("POST /auth/refresh", () => {
+  it("troca o refresh token por um novo par de tokens", async () => {
+    const { refreshToken } = await loginAs("professor");
+
+    const tokens = await authApi.refreshToken(refreshToken as string);
+
+    expect(lastRequestBody()).toEqual({ refreshToken });
+    expect(tokens.accessToken).toEqual(expect.any(String));
+    expect(tokens.refreshToken).not.toBe(refreshToken);
+  });
+
+  it("retorna 401 para refresh token inválido", async () => {
+    const error = await expectApiError(
+      authApi.refreshToken("token-invalido"),
+      "unauthorized",
+      401
+    );
+    expect(error.serverMessage).toBe("Refresh token inválido ou expirado");
+  });
+});
+
+describe("POST /auth/logout", () => {
+  it("envia o access token no header Authorization", async () => {
+    const { accessToken } = await loginAs("professor");
+
+    await authApi.logout();
+
+    expect(lastRequest().url).toBe("/auth/logout");
+    expect(lastRequest().headers.Authorization).toBe(`Bearer ${accessToken}`);
+  });
+});
+
+describe("GET /posts", () => {
+  it("envia busca, paginação e ordenação como query params", async () => {
+    const response = await postsApi.getPosts({
+      search: "  parte  ",
+      page: 2,
+      limit: 5,
+      sort: "title",
+      order: "asc",
+    });
+
+    expect(lastRequest().url).toBe(
+      "/posts?search=parte&page=2&limit=5&sort=title&order=asc"
+    );
+    expect(response.page).toBe(2);
+    expect(response.limit).toBe(5);
+    expect(response.posts).toHaveLength(5);
+    expect(response.totalPages).toBe(Math.ceil(response.total / 5));
+  });
+
+  it("decodifica os posts no formato do cliente", async () => {
+    const { posts } = await postsApi.getPosts({ limit: 1 });
+
+    expect(posts[0]).toEqual({
+      _id: expect.any(String),
+      title: expect.any(String),
+      content: expect.any(String),
+      author: expect.any(String),
+      authorId: expect.any(String),
+      description: expect.any(String),
+      status: "published",
+      publishAt: expect.any(String),
+      tags: expect.arrayContaining([expect.any(String)]),
+      createdAt: expect.any(String),
+      updatedAt: expect.any(String),
+    });
+  });
+
+  it("retorna apenas posts publicados para quem não é professor", async () => {
+    const { posts, total } = await postsApi.getPosts({ limit: 100 });
+
+    expect(total).toBe(21);
+    expect(posts.every((post) => post.status === "published")).toBe(true);
+    expect(posts.map((post) => post._id)).not.toContain("post-20");
+  });
+
+  it("filtra por tags exigindo todas elas", async () => {
+    const { posts } = await postsApi.getPosts({
+      tags: ["matemática", "Frações"],
+      limit: 100,
+    });
+
+    expect(lastRequest().url).toBe(
+      "/posts?limit=100&tags=matem%C3%A1tica%2CFra%C3%A7%C3%B5es"
+    );
+    expect(posts).toHaveLength(4);
+    posts.forEach((post) =>
+      expect(post.tags).toEqual(["Matemática", "Frações"])
+    );
+  });
+
+  it("filtra por status para professores", async () => {
+    await loginAs("professor");
+
+    const { posts } = await postsApi.getPosts({ status: "draft" });
+
+    expect(lastRequest().url).toBe("/posts?status=draft");
+    expect(posts.map((post) => post._id)).toEqual(["post-22"]);
+    expect(posts[0].publishAt).toBeUndefined();
+  });
+
+  it("retorna 400 para parâmetros de query inválidos", async () => {
+    const error = await expectApiError(
+      postsApi.getPosts({ limit: 500 }),
+      "validation",
+      400
+    );
+    expect(error.serverMessage).toBe("Parâmetros de query inválidos");
+    expect(error.errors).toEqual(["Limit deve estar entre 1 e 100"]);
+  });
+});
+
+describe("GET /tags", () => {
+  it("conta apenas posts visíveis para o usuário", async () => {
+    const forStudent = await postsApi.getTags();
+
+    expect(lastRequest().url).toBe("/tags");
+    expect(forStudent).toContainEqual({ name: "Matemática", count: 8 });
+    expect(forStudent).toContainEqual({ name: "História", count: 7 });
+
+    await loginAs("professor");
+    const forTeacher = await postsApi.getTags();
+    expect(forTeacher).toContainEqual({ name: "História", count: 8 });
+  });
+});
+
+describe("GET /posts/:id", () => {
+  it("retorna o post", async () => {
+    const post = await postsApi.getPostById("post-1");
+
+    expect(lastRequest().url).toBe("/posts/post-1");
+    expect(post._id).toBe("post-1");
+    expect(post.author).toBe("Ana Souza");
+  });
+
+  it("retorna 404 para post inexistente", async () => {
+    const error = await expectApiError(
+      postsApi.getPostById("post-404", { retry: false }),
+      "not_found",
+      404
+    );
+    expect(error.errors).toEqual(["Post com ID 'post-404' não existe"]);
+  });
+
+  it("retorna 404 para posts não publicados, exceto para professores", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.getPostById("post-21", { retry: false }),
+      "not_found",
+      404
+    );
+
+    await loginAs("professor");
+    const post = await postsApi.getPostById("post-21");
+    expect(post.status).toBe("scheduled");
+    expect(Date.parse(post.publishAt as string)).toBeGreaterThan(Date.now());
+  });
+});
+
+describe("POST /posts", () => {
+  const params = {
+    title: "Novo post",
+    content: "<p>Conteúdo do novo post</p>",
+    authorId: "user-1",
+  };
+
+  it("cria o post com title, content e authorId", async () => {
+    await loginAs("professor");
+
+    const post = await postsApi.createPost(params);
+
+    expect(lastRequestBody()).toEqual(params);
+    expect(post).toMatchObject({
+      title: params.title,
+      content: params.content,
+      authorId: "user-1",
+      author: "João Silva",
+    });
+  });
+
+  it("agenda o post com status e publishAt", async () => {
+    await loginAs("professor");
+    const publishAt = new Date(Date.now() + 86400000).toISOString();
+
+    const post = await postsApi.createPost({
+      ...params,
+      status: "scheduled",
+      publishAt,
+    });
+
+    expect(lastRequestBody()).toEqual({
+      ...params,
+      status: "scheduled",
+      publishAt,
+    });
+    expect(post).toMatchObject({ status: "scheduled", publishAt });
+
+    await loginAs("aluno");
+    const { posts } = await postsApi.getPosts({ limit: 100 });
+    expect(posts.map((item) => item._id)).not.toContain(post._id);
+  });
+
+  it("normaliza e remove tags duplicadas", async () => {
+    await loginAs("professor");
+
+    const post = await postsApi.createPost({
+      ...params,
+      tags: ["  Matemática ", "matemática", "Geometria   plana"],
+    });
+
+    expect(lastRequestBody().tags).toEqual([
+      "  Matemática ",
+      "matemática",
+      "Geometria   plana",
+    ]);
+    expect(post.tags).toEqual(["Matemática", "Geometria plana"]);
+  });
+
+  it("retorna 400 para mais de 10 tags", async () => {
+    await loginAs("professor");
+
+    const error = await expectApiError(
+      postsApi.createPost({
+        ...params,
+        tags: Array.from({ length: 11 }, (_, index) => `Tag ${index}`),
+      }),
+      "validation",
+      400
+    );
+    expect(error.fieldErrors).toEqual({
+      tags: "Tags deve ter no máximo 10 itens",
+    });
+  });
+
+  it("não envia publishAt para rascunhos", async () => {
+    await loginAs("professor");
+
+    const post = await postsApi.createPost({
+      ...params,
+      status: "draft",
+      publishAt: new Date().toISOString(),
+    });
+
+    expect(lastRequestBody()).toEqual({ ...params, status: "draft" });
+    expect(post.status).toBe("draft");
+    expect(post.publishAt).toBeUndefined();
+  });
+
+  it("retorna 400 para agendamento sem data futura", async () => {
+    await loginAs("professor");
+
+    const error = await expectApiError(
+      postsApi.createPost({
+        ...params,
+        status: "scheduled",
+        publishAt: "2000-01-01T00:00:00.000Z",
+      }),
+      "validation",
+      400
+    );
+    expect(error.fieldErrors).toEqual({
+      publishAt: "PublishAt deve ser uma data futura",
+    });
+  });
+
+  it("retorna 400 com erros por campo", async () => {
+    await loginAs("professor");
+
+    const error = await expectApiError(
+      postsApi.createPost({ title: "ab", content: "curto", authorId: "" }),
+      "validation",
+      400
+    );
+    expect(error.fieldErrors).toEqual({
+      title: "Title deve ter pelo menos 3 caracteres",
+      content: "Content deve ter pelo menos 10 caracteres",
+      authorId: "AuthorId é obrigatório",
+    });
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.createPost(params), "unauthorized", 401);
+  });
+
+  it("retorna 403 para students", async () => {
+    await loginAs("aluno");
+
+    const error = await expectApiError(
+      postsApi.createPost({ ...params, authorId: "user-3" }),
+      "forbidden",
+      403
+    );
+    expect(error.serverMessage).toBe("Apenas professores podem criar posts");
+  });
+});
+
+describe("PUT /posts/:id", () => {
+  const params = {
+    id: "post-1",
+    title: "Título atualizado",
+    content: "<p>Conteúdo atualizado</p>",
+  };
+
+  it("envia apenas title e content", async () => {
+    await loginAs("professor");
+
+    const post = await postsApi.updatePost(params);
+
+    expect(lastRequest().method).toBe("put");
+    expect(lastRequest().url).toBe("/posts/post-1");
+    expect(lastRequestBody()).toEqual({
+      title: params.title,
+      content: params.content,
+    });
+    expect(post.title).toBe(params.title);
+  });
+
+  it("arquiva o post mantendo a data de publicação", async () => {
+    await loginAs("professor");
+    const original = await postsApi.getPostById("post-1");
+
+    const post = await postsApi.updatePost({ ...params, status: "archived" });
+
+    expect(lastRequestBody()).toEqual({
+      title: params.title,
+      content: params.content,
+      status: "archived",
+    });
+    expect(post).toMatchObject({
+      status: "archived",
+      publishAt: original.publishAt,
+    });
+  });
+
+  it("retorna 400 para dados inválidos", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      postsApi.updatePost({ ...params, title: "" }),
+      "validation",
+      400
+    );
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.updatePost(params), "unauthorized", 401);
+  });
+
+  it("retorna 403 para quem não é autor nem professor", async () => {
+    await loginAs("aluno");
+    await expectApiError(postsApi.updatePost(params), "forbidden", 403);
+  });
+
+  it("retorna 404 para post inexistente", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      postsApi.updatePost({ ...params, id: "post-404" }),
+      "not_found",
+      404
+    );
+  });
+
+  it("envia o updatedAt da versão editada", async () => {
+    await loginAs("professor");
+    const original = await postsApi.getPostById("post-1");
+
+    const post = await postsApi.updatePost({
+      ...params,
+      updatedAt: original.updatedAt,
+    });
+
+    expect(lastRequestBody()).toEqual({
+      title: params.title,
+      content: params.content,
+      updatedAt: original.updatedAt,
+    });
+    expect(Date.parse(post.updatedAt)).toBeGreaterThan(
+      Date.parse(original.updatedAt)
+    );
+  });
+
+  it("retorna 409 se o post mudou desde que foi carregado", async () => {
+    await loginAs("professor");
+    const original = await postsApi.getPostById("post-1");
+    await postsApi.updatePost({ ...params, updatedAt: original.updatedAt });
+
+    await loginAs("ana");
+    const error = await expectApiError(
+      postsApi.updatePost({
+        ...params,
+        title: "Edição concorrente",
+        updatedAt: original.updatedAt,
+      }),
+      "conflict",
+      409
+    );
+    expect(error.retryable).toBe(false);
+
+    const current = await postsApi.getPostById("post-1");
+    expect(current.title).toBe(params.title);
+  });
+});
+
+describe("DELETE /posts/:id", () => {
+  it("retorna 204 e move o post para a lixeira", async () => {
+    await loginAs("professor");
+
+    await postsApi.deletePost("post-1");
+
+    expect(lastRequest().method).toBe("delete");
+    await expectApiError(
+      postsApi.getPostById("post-1", { retry: false }),
+      "not_found",
+      404
+    );
+    const { posts } = await postsApi.getTrash();
+    expect(posts.map((post) => post._id)).toEqual(["post-1"]);
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.deletePost("post-1"), "unauthorized", 401);
+  });
+
+  it("retorna 403 para quem não é autor nem professor", async () => {
+    await loginAs("aluno");
+    await expectApiError(postsApi.deletePost("post-1"), "forbidden", 403);
+  });
+
+  it("retorna 404 para post inexistente", async () => {
+    await loginAs("professor");
+    await expectApiError(postsApi.deletePost("post-404"), "not_found", 404);
+  });
+});
+
+describe("GET /posts/trash", () => {
+  it("lista os posts excluídos com quem excluiu e o prazo", async () => {
+    await loginAs("ana");
+    await postsApi.deletePost("post-1");
+
+    const trash = await postsApi.getTrash();
+
+    expect(lastRequest().url).toBe("/posts/trash");
+    expect(trash.retentionDays).toBe(30);
+    expect(trash.posts).toEqual([
+      expect.objectContaining({
+        _id: "post-1",
+        deletedBy: "Ana Souza",
+        deletedById: "user-2",
+        deletedAt: expect.any(String),
+        purgeAt: expect.any(String),
+      }),
+    ]);
+    const [post] = trash.posts;
+    expect(Date.parse(post.purgeAt) - Date.parse(post.deletedAt)).toBe(
+      30 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it("exclui definitivamente os posts com prazo vencido", async () => {
+    await loginAs("professor");
+    await postsApi.deletePost("post-24");
+    backend.store.trash[0].deletedAt = new Date(
+      Date.now() - 31 * 24 * 60 * 60 * 1000
+    ).toISOString();
+
+    const trash = await postsApi.getTrash();
+
+    expect(trash.posts).toEqual([]);
+    expect(
+      backend.store.comments.some((comment) => comment.postId === "post-24")
+    ).toBe(false);
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.getTrash(), "unauthorized", 401);
+  });
+
+  it("retorna 403 para alunos", async () => {
+    await loginAs("aluno");
+    await expectApiError(postsApi.getTrash(), "forbidden", 403);
+  });
+});
+
+describe("POST /posts/trash/:id/restore", () => {
+  it("devolve o post com comentários e revisões", async () => {
+    await loginAs("professor");
+    await postsApi.deletePost("post-24");
+
+    const restored = await postsApi.restorePost("post-24");
+
+    expect(lastRequest().method).toBe("post");
+    expect(lastRequest().url).toBe("/posts/trash/post-24/restore");
+    expect(restored._id).toBe("post-24");
+    expect((await postsApi.getComments("post-24")).length).toBeGreaterThan(0);
+    expect((await postsApi.getRevisions("post-24")).length).toBe(2);
+    expect((await postsApi.getTrash()).posts).toEqual([]);
+  });
+
+  it("retorna 403 para alunos", async () => {
+    await loginAs("professor");
+    await postsApi.deletePost("post-1");
+    await loginAs("aluno");
+
+    await expectApiError(postsApi.restorePost("post-1"), "forbidden", 403);
+  });
+
+  it("retorna 404 para post fora da lixeira", async () => {
+    await loginAs("professor");
+    await expectApiError(postsApi.restorePost("post-1"), "not_found", 404);
+  });
+});
+
+describe("DELETE /posts/trash/:id", () => {
+  it("retorna 204 e exclui o post com comentários e revisões", async () => {
+    await loginAs("professor");
+    await postsApi.deletePost("post-24");
+
+    await postsApi.purgePost("post-24");
+
+    expect(lastRequest().method).toBe("delete");
+    expect(lastRequest().url).toBe("/posts/trash/post-24");
+    expect((await postsApi.getTrash()).posts).toEqual([]);
+    expect(
+      backend.store.revisions.some((revision) => revision.postId === "post-24")
+    ).toBe(false);
+    await expectApiError(postsApi.restorePost("post-24"), "not_found", 404);
+  });
+
+  it("retorna 403 para alunos", async () => {
+    await loginAs("professor");
+    await postsApi.deletePost("post-1");
+    await loginAs("aluno");
+
+    await expectApiError(postsApi.purgePost("post-1"), "forbidden", 403);
+  });
+
+  it("retorna 404 para post fora da lixeira", async () => {
+    await loginAs("professor");
+    await expectApiError(postsApi.purgePost("post-1"), "not_found", 404);
+  });
+});
+
+describe("GET /posts/:id/revisions", () => {
+  it("lista as versões da mais recente para a mais antiga", async () => {
+    await loginAs("professor");
+
+    const revisions = await postsApi.getRevisions("post-24");
+
+    expect(lastRequest().url).toBe("/posts/post-24/revisions");
+    expect(revisions).toEqual([
+      {
+        _id: "revision-post-24-2",
+        postId: "post-24",
+        title: expect.any(String),
+        author: "Ana Souza",
+        authorId: "user-2",
+        createdAt: expect.any(String),
+      },
+      expect.objectContaining({
+        _id: "revision-post-24-1",
+        author: "João Silva",
+      }),
+    ]);
+  });
+
+  it("registra uma nova versão a cada edição", async () => {
+    await loginAs("ana");
+    await postsApi.updatePost({
+      id: "post-1",
+      title: "Título revisado",
+      content: "<p>Conteúdo revisado</p>",
+    });
+
+    const [latest] = await postsApi.getRevisions("post-1");
+
+    expect(latest).toMatchObject({
+      title: "Título revisado",
+      author: "Ana Souza",
+    });
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.getRevisions("post-1"), "unauthorized", 401);
+  });
+
+  it("retorna 403 para quem não é autor nem professor", async () => {
+    await loginAs("aluno");
+    await expectApiError(postsApi.getRevisions("post-1"), "forbidden", 403);
+  });
+
+  it("retorna 404 para post inexistente", async () => {
+    await loginAs("professor");
+    await expectApiError(postsApi.getRevisions("post-404"), "not_found", 404);
+  });
+});
+
+describe("GET /posts/:id/revisions/:revisionId", () => {
+  it("decodifica o conteúdo completo da versão", async () => {
+    await loginAs("professor");
+
+    const revision = await postsApi.getRevision(
+      "post-24",
+      "revision-post-24-1"
+    );
+
+    expect(lastRequest().url).toBe("/posts/post-24/revisions/revision-post-24-1");
+    expect(revision).toMatchObject({
+      _id: "revision-post-24-1",
+      postId: "post-24",
+      content: "<p>De 1500 a 1822 o Brasil foi colônia de Portugal.</p>",
+      status: "published",
+      tags: ["História", "Brasil"],
+    });
+  });
+
+  it("restaura a versão através de PUT /posts/:id", async () => {
+    await loginAs("professor");
+    const post = await postsApi.getPostById("post-24");
+
+    const restored = await postsApi.restoreRevision(post, "revision-post-24-1");
+
+    expect(lastRequest().method).toBe("put");
+    expect(lastRequestBody()).toEqual({
+      title: post.title,
+      content: "<p>De 1500 a 1822 o Brasil foi colônia de Portugal.</p>",
+      tags: ["História", "Brasil"],
+      updatedAt: post.updatedAt,
+    });
+    expect(restored.content).toBe(
+      "<p>De 1500 a 1822 o Brasil foi colônia de Portugal.</p>"
+    );
+    expect(await postsApi.getRevisions("post-24")).toHaveLength(3);
+  });
+
+  it("retorna 404 para revisão de outro post", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      postsApi.getRevision("post-1", "revision-post-24-1"),
+      "not_found",
+      404
+    );
+  });
+});
+
+describe("GET /posts/:id/comments", () => {
+  it("retorna os comentários do post", async () => {
+    const comments = await postsApi.getComments("post-24");
+
+    expect(lastRequest().url).toBe("/posts/post-24/comments");
+    expect(comments.length).toBeGreaterThan(0);
+    comments.forEach((comment) => {
+      expect(comment).toMatchObject({
+        _id: expect.any(String),
+        postId: "post-24",
+        author: expect.any(String),
+        content: expect.any(String),
+        createdAt: expect.any(String),
+        updatedAt: expect.any(String),
+      });
+    });
+  });
+
+  it("retorna 404 para post inexistente", async () => {
+    await expectApiError(
+      postsApi.getComments("post-404", { retry: false }),
+      "not_found",
+      404
+    );
+  });
+});
+
+describe("POST /posts/:id/comments", () => {
+  const params = {
+    postId: "post-1",
+    content: "Muito interessante este post!",
+    author: "Maria Santos",
+  };
+
+  it("envia content e author", async () => {
+    await loginAs("aluno");
+
+    const comment = await postsApi.createComment(params);
+
+    expect(lastRequest().url).toBe("/posts/post-1/comments");
+    expect(lastRequestBody()).toEqual({
+      content: params.content,
+      author: params.author,
+    });
+    expect(comment).toMatchObject({
+      postId: "post-1",
+      content: params.content,
+      author: params.author,
+    });
+  });
+
+  it("envia parentId ao responder um comentário", async () => {
+    await loginAs("aluno");
+
+    const reply = await postsApi.createComment({
+      ...params,
+      postId: "post-24",
+      parentId: "comment-1",
+    });
+
+    expect(lastRequestBody()).toEqual({
+      content: params.content,
+      author: params.author,
+      parentId: "comment-1",
+    });
+    expect(reply.parentId).toBe("comment-1");
+  });
+
+  it("retorna 400 quando parentId não pertence ao post", async () => {
+    await loginAs("aluno");
+
+    const error = await expectApiError(
+      postsApi.createComment({ ...params, parentId: "comment-1" }),
+      "validation",
+      400
+    );
+    expect(error.fieldErrors).toEqual({
+      parentId: "ParentId deve ser um comentário deste post",
+    });
+  });
+
+  it("retorna 400 com erros por campo", async () => {
+    await loginAs("aluno");
+
+    const error = await expectApiError(
+      postsApi.createComment({ ...params, content: "ok", author: "" }),
+      "validation",
+      400
+    );
+    expect(error.fieldErrors).toEqual({
+      content: "Content deve ter pelo menos 3 caracteres",
+      author: "Author é obrigatório",
+    });
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.createComment(params), "unauthorized", 401);
+  });
+
+  it("retorna 404 para post inexistente", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.createComment({ ...params, postId: "post-404" }),
+      "not_found",
+      404
+    );
+  });
+});
+
+describe("PUT /posts/:id/comments/:commentId", () => {
+  const params = {
+    postId: "post-24",
+    commentId: "comment-1",
+    content: "Comentário editado",
+  };
+
+  it("envia apenas content e atualiza updatedAt", async () => {
+    await loginAs("aluno");
+
+    const comment = await postsApi.updateComment(params);
+
+    expect(lastRequest().method).toBe("put");
+    expect(lastRequest().url).toBe("/posts/post-24/comments/comment-1");
+    expect(lastRequestBody()).toEqual({ content: params.content });
+    expect(comment).toMatchObject({
+      _id: "comment-1",
+      authorId: "user-3",
+      content: params.content,
+    });
+    expect(Date.parse(comment.updatedAt)).toBeGreaterThan(
+      Date.parse(comment.createdAt)
+    );
+  });
+
+  it("retorna 400 para conteúdo inválido", async () => {
+    await loginAs("aluno");
+
+    const error = await expectApiError(
+      postsApi.updateComment({ ...params, content: "" }),
+      "validation",
+      400
+    );
+    expect(error.fieldErrors).toEqual({ content: "Content é obrigatório" });
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.updateComment(params), "unauthorized", 401);
+  });
+
+  it("retorna 403 para quem não é o autor", async () => {
+    await loginAs("professor");
+    await expectApiError(postsApi.updateComment(params), "forbidden", 403);
+  });
+
+  it("retorna 404 para comentário inexistente", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.updateComment({ ...params, commentId: "comment-404" }),
+      "not_found",
+      404
+    );
+  });
+});
+
+describe("DELETE /posts/:id/comments/:commentId", () => {
+  it("permite que professores excluam comentários, junto com as respostas", async () => {
+    await loginAs("professor");
+
+    await postsApi.deleteComment("post-24", "comment-1");
+
+    expect(lastRequest().method).toBe("delete");
+    expect(lastRequest().url).toBe("/posts/post-24/comments/comment-1");
+    const comments = await postsApi.getComments("post-24");
+    expect(comments.map((comment) => comment._id)).toEqual(["comment-2"]);
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(
+      postsApi.deleteComment("post-24", "comment-1"),
+      "unauthorized",
+      401
+    );
+  });
+
+  it("retorna 403 para students que não são o autor", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.deleteComment("post-24", "comment-2"),
+      "forbidden",
+      403
+    );
+  });
+
+  it("retorna 404 para comentário inexistente", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      postsApi.deleteComment("post-24", "comment-404"),
+      "not_found",
+      404
+    );
+  });
+});
+
+describe("POST /posts/:id/comments/:commentId/reports", () => {
+  const params = {
+    postId: "post-24",
+    commentId: "comment-2",
+    reason: "offensive" as const,
+  };
+
+  it("envia reason e details e marca o comentário como denunciado", async () => {
+    await loginAs("aluno");
+
+    const comment = await postsApi.reportComment({
+      ...params,
+      details: "  Linguagem desrespeitosa  ",
+    });
+
+    expect(lastRequest().method).toBe("post");
+    expect(lastRequest().url).toBe(
+      "/posts/post-24/comments/comment-2/reports"
+    );
+    expect(lastRequestBody()).toEqual({
+      reason: "offensive",
+      details: "Linguagem desrespeitosa",
+    });
+    expect(comment).toMatchObject({
+      _id: "comment-2",
+      status: "visible",
+      flagged: true,
+      reportCount: 1,
+      reportedByMe: true,
+    });
+  });
+
+  it("oculta o comentário ao atingir o limite de denúncias", async () => {
+    const target = backend.store.comments.find(
+      (comment) => comment.id === "comment-2"
+    );
+    target?.reports.push(
+      { userId: "student-4", reason: "spam", createdAt: target.createdAt },
+      { userId: "student-5", reason: "spam", createdAt: target.createdAt }
+    );
+    await loginAs("aluno");
+
+    const comment = await postsApi.reportComment(params);
+
+    expect(comment).toMatchObject({ status: "hidden", reportCount: 3 });
+    const comments = await postsApi.getComments("post-24");
+    expect(comments.map((item) => item._id)).not.toContain("comment-2");
+  });
+
+  it("retorna 400 para motivo inválido", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.reportComment({
+        ...params,
+        reason: "boring" as unknown as "spam",
+      }),
+      "validation",
+      400
+    );
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.reportComment(params), "unauthorized", 401);
+  });
+
+  it("retorna 403 para o próprio comentário", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.reportComment({ ...params, commentId: "comment-1" }),
+      "forbidden",
+      403
+    );
+  });
+
+  it("retorna 404 para comentário inexistente", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.reportComment({ ...params, commentId: "comment-404" }),
+      "not_found",
+      404
+    );
+  });
+
+  it("retorna 409 quando o usuário já denunciou", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.reportComment({
+        ...params,
+        postId: "post-23",
+        commentId: "comment-4",
+      }),
+      "conflict",
+      409
+    );
+  });
+});
+
+describe("GET /comments", () => {
+  it("envia os filtros e decodifica a página de moderação", async () => {
+    await loginAs("professor");
+
+    const page = await postsApi.getModerationComments({
+      postId: "post-23",
+      author: " pedro ",
+      from: "2000-01-01T00:00:00.000Z",
+      flagged: true,
+      status: "visible",
+      page: 1,
+      limit: 5,
+    });
+
+    expect(lastRequest().url).toBe(
+      "/comments?postId=post-23&author=pedro&from=2000-01-01T00%3A00%3A00.000Z" +
+        "&flagged=true&status=visible&page=1&limit=5"
+    );
+    expect(page.total).toBe(1);
+    expect(page.comments[0]).toMatchObject({
+      _id: "comment-4",
+      postId: "post-23",
+      postTitle: expect.any(String),
+      status: "visible",
+      flagged: true,
+      reportCount: 1,
+      reportReasons: { offensive: 1 },
+    });
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(
+      postsApi.getModerationComments({}, { retry: false }),
+      "unauthorized",
+      401
+    );
+  });
+
+  it("retorna 403 para students", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.getModerationComments({}, { retry: false }),
+      "forbidden",
+      403
+    );
+  });
+
+  it("retorna 400 para datas inválidas", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      postsApi.getModerationComments({ from: "ontem" }, { retry: false }),
+      "validation",
+      400
+    );
+  });
+});
+
+describe("PATCH /posts/:id/comments/:commentId/status", () => {
+  const params = {
+    postId: "post-24",
+    commentId: "comment-2",
+    status: "hidden" as const,
+  };
+
+  it("oculta o comentário apenas para students", async () => {
+    await loginAs("professor");
+
+    const comment = await postsApi.setCommentStatus(params);
+
+    expect(lastRequest().method).toBe("patch");
+    expect(lastRequestBody()).toEqual({ status: "hidden" });
+    expect(comment.status).toBe("hidden");
+
+    const forTeacher = await postsApi.getComments("post-24");
+    expect(forTeacher.map((item) => item._id)).toContain("comment-2");
+
+    await loginAs("aluno");
+    const forStudent = await postsApi.getComments("post-24");
+    expect(forStudent.map((item) => item._id)).not.toContain("comment-2");
+  });
+
+  it("mantém o updatedAt ao ocultar e restaurar", async () => {
+    await loginAs("professor");
+    const [before] = (await postsApi.getComments("post-24")).filter(
+      (item) => item._id === "comment-2"
+    );
+
+    const hidden = await postsApi.setCommentStatus(params);
+    const restored = await postsApi.setCommentStatus({
+      ...params,
+      status: "visible",
+    });
+
+    expect(hidden.updatedAt).toBe(before.updatedAt);
+    expect(restored.updatedAt).toBe(before.updatedAt);
+    expect(restored.status).toBe("visible");
+  });
+
+  it("retorna 400 para status inválido", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      postsApi.setCommentStatus({
+        ...params,
+        status: "removed" as unknown as "hidden",
+      }),
+      "validation",
+      400
+    );
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.setCommentStatus(params), "unauthorized", 401);
+  });
+
+  it("retorna 403 para students", async () => {
+    await loginAs("aluno");
+    await expectApiError(postsApi.setCommentStatus(params), "forbidden", 403);
+  });
+
+  it("retorna 404 para comentário inexistente", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      postsApi.setCommentStatus({ ...params, commentId: "comment-404" }),
+      "not_found",
+      404
+    );
+  });
+});
+
+describe("POST /media", () => {
+  const image = () =>
+    new Blob([new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10])], {
+      type: "image/png",
+    });
+
+  it("envia a imagem como multipart e informa o progresso", async () => {
+    await loginAs("professor");
+    const progress: number[] = [];
+
+    const media = await postsApi.uploadImage({
+      file: image(),
+      filename: "grafico.png",
+      width: 800,
+      height: 600,
+      onProgress: (percent) => progress.push(percent),
+    });
+
+    expect(lastRequest().method).toBe("post");
+    expect(lastRequest().url).toBe("/media");
+    const body = lastRequest().data as FormData;
+    expect(body).toBeInstanceOf(FormData);
+    expect((body.get("file") as File).name).toBe("grafico.png");
+    expect(body.get("width")).toBe("800");
+    expect(body.get("height")).toBe("600");
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(media).toMatchObject({
+      filename: "grafico.png",
+      mimeType: "image/png",
+      size: 8,
+      width: 800,
+      height: 600,
+    });
+    expect(media.url).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it("retorna 400 sem arquivo", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      // O cliente sempre anexa o arquivo; o corpo vazio vai direto pelo axios
+      api.post("/media", new FormData(), {
+        headers: { "Content-Type": "multipart/form-data" },
+      }),
+      "validation",
+      400
+    );
+  });
+
+  it("retorna 415 para arquivos que não são imagem", async () => {
+    await loginAs("professor");
+    const error = await expectApiError(
+      postsApi.uploadImage({
+        file: new Blob(["texto"], { type: "text/plain" }),
+        filename: "notas.txt",
+      }),
+      "validation",
+      415
+    );
+    expect(error.serverMessage).toBe("Tipo de arquivo não suportado");
+  });
+
+  it("retorna 413 para imagens acima de 5 MB", async () => {
+    await loginAs("professor");
+    await expectApiError(
+      postsApi.uploadImage({
+        file: new Blob([new Uint8Array(5 * 1024 * 1024 + 1)], {
+          type: "image/jpeg",
+        }),
+        filename: "foto.jpg",
+      }),
+      "validation",
+      413
+    );
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(
+      postsApi.uploadImage({ file: image(), filename: "grafico.png" }),
+      "unauthorized",
+      401
+    );
+  });
+
+  it("retorna 403 para students", async () => {
+    await loginAs("aluno");
+    await expectApiError(
+      postsApi.uploadImage({ file: image(), filename: "grafico.png" }),
+      "forbidden",
+      403
+    );
+  });
+});
+
+describe("GET /media", () => {
+  it("lista as imagens paginadas, das mais recentes para as mais antigas", async () => {
+    await loginAs("professor");
+    const uploaded = await postsApi.uploadImage({
+      file: new Blob(["gif"], { type: "image/gif" }),
+      filename: "animacao.gif",
+    });
+
+    const page = await postsApi.getMedia({ page: 1, limit: 2 });
+
+    expect(lastRequest().url).toBe("/media?page=1&limit=2");
+    expect(page).toMatchObject({ total: 3, page: 1, limit: 2, totalPages: 2 });
+    expect(page.media.map((item) => item._id)).toEqual([
+      uploaded._id,
+      "media-2",
+    ]);
+  });
+
+  it("retorna 401 sem token", async () => {
+    await expectApiError(postsApi.getMedia(), "unauthorized", 401);
+  });
+
+  it("retorna 403 para students", async () => {
+    await loginAs("aluno");
+    await expectApiError(postsApi.getMedia(), "forbidden", 403);
+  });
+});
+
+describe("GET /events", () => {
+  const unsubscribers: Array<() => void> = [];
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+  });
+
+  // Assina o canal com o token de `username`, sem trocar a sessão atual
+  const listenAs = async (username?: string) => {
+    const accessToken = username
+      ? (await authApi.login({ username, password: "senha123" })).accessToken
+      : null;
+    const events: unknown[] = [];
+    unsubscribers.push(
+      backend.subscribe(
+        (payload) => events.push(decodeRealtimeEvent(payload)),
+        () => accessToken
+      )
+    );
+    return events;
+  };
+
+  it("anuncia posts criados, editados e excluídos", async () => {
+    const events = await listenAs("aluno");
+    await loginAs("professor");
+
+    const post = await postsApi.createPost({
+      title: "Aula ao vivo",
+      content: "<p>Conteúdo da aula ao vivo</p>",
+      authorId: "user-1",
+    });
+    await postsApi.updatePost({
+      id: post._id,
+      title: "Aula ao vivo (atualizada)",
+      content: post.content,
+    });
+    await postsApi.deletePost(post._id);
+
+    expect(events).toEqual([
+      { type: "post.created", post: expect.objectContaining({ _id: post._id }) },
+      {
+        type: "post.updated",
+        post: expect.objectContaining({ title: "Aula ao vivo (atualizada)" }),
+      },
+      { type: "post.deleted", postId: post._id },
+    ]);
+  });
+
+  it("não envia rascunhos a alunos e avisa quando um post sai do ar", async () => {
+    const studentEvents = await listenAs("aluno");
+    const teacherEvents = await listenAs("ana");
+    await loginAs("professor");
+
+    await postsApi.createPost({
+      title: "Rascunho",
+      content: "<p>Ainda em preparação</p>",
+      authorId: "user-1",
+      status: "draft",
+    });
+    const post = await postsApi.getPostById("post-1");
+    await postsApi.updatePost({
+      id: "post-1",
+      title: post.title,
+      content: post.content,
+      status: "draft",
+    });
+
+    expect(studentEvents).toEqual([{ type: "post.deleted", postId: "post-1" }]);
+    expect(teacherEvents).toEqual([
+      {
+        type: "post.created",
+        post: expect.objectContaining({ status: "draft" }),
+      },
+      {
+        type: "post.updated",
+        post: expect.objectContaining({ _id: "post-1", status: "draft" }),
+      },
+    ]);
+  });
+
+  it("anuncia comentários novos com o post de origem", async () => {
+    const events = await listenAs();
+    await loginAs("aluno");
+
+    const comment = await postsApi.createComment({
+      postId: "post-1",
+      content: "Pergunta durante a aula",
+      author: "Maria Santos",
+    });
+
+    expect(events).toEqual([
+      {
+        type: "comment.created",
+        comment: expect.objectContaining({ _id: comment._id, postId: "post-1" }),
+      },
+    ]);
+  });
+
+  it("ignora tipos de evento desconhecidos", () => {
+    expect(decodeRealtimeEvent({ type: "poll.created" })).toBeNull();
+  });
+});
+
+describe("erros de infraestrutura", () => {
+  it("renova o token após 401 e repete a requisição", async () => {
+    await loginAs("professor");
+    backend.store.expireAccessTokens();
+
+    const post = await postsApi.updatePost({
+      id: "post-1",
+      title: "Título atualizado",
+      content: "<p>Conteúdo atualizado</p>",
+    });
+
+    expect(post.title).toBe("Título atualizado");
+    expect(requests.map((config) => config.url)).toEqual([
+      "/auth/login",
+      "/posts/post-1",
+      "/auth/refresh",
+      "/posts/post-1",
+    ]);
+  });
+
+  it("mapeia 500 para erro de servidor", async () => {
+    backend.failNext(500);
+    await expectApiError(
+      postsApi.getPosts({}, { retry: false }),
+      "server",
+      500
+    );
+  });
+
+  it("mapeia falha de rede para erro de rede", async () => {
+    backend.failNext(0);
+    await expectApiError(
+      postsApi.getPosts({}, { retry: false }),
+      "network",
+      undefined
+    );
+  });
+
+  it("repete GETs que falham com 503", async () => {
+    backend.failNext(503);
+
+    const response = await postsApi.getPosts(
+      {},
+      { retry: { baseDelayMs: 1, maxDelayMs: 1 } }
+    );
+
+    expect(response.posts.length).toBeGreaterThan(0);
+    expect(requests).toHaveLength(2);
+  });
+});
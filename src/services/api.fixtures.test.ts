@@ -0,0 +1,442 @@
+import {
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import api, { postsApi, authApi } from "./api";
+import { ApiError } from "./apiError";
+import { tokenStorage } from "./tokenStorage";
+import { createMockBackend } from "./mock";
+import * as contract from "./__fixtures__/apiContract";
+import { ContractExchange } from "./__fixtures__/apiContract";
+
+/**
+ * Confere postsApi/authApi com os exemplos fixos do API_CONTRACT.md
+ *
+ * Cada resposta vem de `__fixtures__/apiContract`, e não do backend
+ * simulado: se o cliente passar a enviar ou ler outro formato, estes testes
+ * falham mesmo que o mock tenha mudado junto.
+ */
+
+const sent: InternalAxiosRequestConfig[] = [];
+const originalAdapter = api.defaults.adapter;
+let exchange: ContractExchange;
+
+const replay = (config: InternalAxiosRequestConfig) => {
+  sent.push(config);
+  const { status, body } = exchange.response;
+  const response: AxiosResponse = {
+    data: body,
+    status,
+    statusText: "",
+    headers: {},
+    config,
+  };
+
+  if (status >= 400) {
+    return Promise.reject(
+      new AxiosError(
+        `Request failed with status code ${status}`,
+        AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response
+      )
+    );
+  }
+  return Promise.resolve(response);
+};
+
+// Método, caminho, query e corpo, sem depender da ordem ou do encoding
+const normalize = (method: string | undefined, url: string, body: unknown) => {
+  const parsed = new URL(url, "http://contract.local");
+  return {
+    method: method?.toLowerCase(),
+    path: decodeURIComponent(parsed.pathname),
+    query: Object.fromEntries(parsed.searchParams),
+    body,
+  };
+};
+
+const expectSentAsInContract = () => {
+  expect(sent).toHaveLength(1);
+  const [config] = sent;
+  const body =
+    typeof config.data === "string" ? JSON.parse(config.data) : config.data;
+  const { request } = exchange;
+
+  expect(normalize(config.method, config.url || "", body)).toEqual(
+    normalize(request.method, request.url, request.body)
+  );
+};
+
+const use = (fixture: ContractExchange) => {
+  exchange = fixture;
+};
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    (reason) => reason
+  );
+
+beforeAll(() => {
+  api.defaults.adapter = replay;
+});
+
+afterAll(() => {
+  api.defaults.adapter = originalAdapter;
+});
+
+beforeEach(() => {
+  sent.length = 0;
+  tokenStorage.clear();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("contrato fixo - autenticação", () => {
+  it("POST /auth/login envia username e lê o usuário com role teacher", async () => {
+    use(contract.loginSuccess);
+
+    const response = await authApi.login({
+      username: "joao",
+      password: "senha123",
+    });
+
+    expectSentAsInContract();
+    expect(response).toEqual({
+      accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.access",
+      refreshToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.refresh",
+      user: {
+        _id: "user-123",
+        name: "João Silva",
+        email: "joao@email.com",
+        role: "professor",
+      },
+    });
+  });
+
+  it("POST /auth/login 401 vira erro unauthorized com a mensagem do servidor", async () => {
+    use(contract.loginInvalidCredentials);
+
+    const error = await rejection(
+      authApi.login({ username: "joao", password: "senha123" })
+    );
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      kind: "unauthorized",
+      status: 401,
+      serverMessage: "Credenciais inválidas",
+      errors: ["Usuário ou senha incorretos"],
+    });
+  });
+
+  it("POST /auth/refresh envia o refresh token e lê o novo par", async () => {
+    use(contract.refreshSuccess);
+
+    const tokens = await authApi.refreshToken(
+      "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.refresh"
+    );
+
+    expectSentAsInContract();
+    expect(tokens).toEqual({
+      accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.access2",
+      refreshToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.refresh2",
+    });
+  });
+});
+
+describe("contrato fixo - posts", () => {
+  it("GET /posts envia os filtros na query e lê a página", async () => {
+    use(contract.listPosts);
+
+    const response = await postsApi.getPosts({
+      search: "react",
+      page: 1,
+      limit: 10,
+      sort: "createdAt",
+      order: "desc",
+      tags: ["Matemática", "Frações"],
+    });
+
+    expectSentAsInContract();
+    expect(response).toEqual({
+      posts: [
+        {
+          _id: "post-123",
+          title: "Introdução ao React",
+          author: "João Silva",
+          authorId: "user-123",
+          content: "<p>React é uma biblioteca JavaScript...</p>",
+          description:
+            "React é uma biblioteca JavaScript para construir interfaces de usuário...",
+          status: "published",
+          publishAt: "2024-01-15T10:30:00Z",
+          tags: ["Programação", "React"],
+          createdAt: "2024-01-15T10:30:00Z",
+          updatedAt: "2024-01-15T10:30:00Z",
+        },
+      ],
+      total: 25,
+      page: 1,
+      limit: 10,
+      totalPages: 3,
+    });
+  });
+
+  it("GET /tags lê nome e quantidade", async () => {
+    use(contract.listTags);
+
+    const tags = await postsApi.getTags();
+
+    expectSentAsInContract();
+    expect(tags).toEqual([
+      { name: "Matemática", count: 8 },
+      { name: "História", count: 7 },
+    ]);
+  });
+
+  it("GET /posts/:id lê o post e gera o resumo a partir do conteúdo", async () => {
+    use(contract.getPost);
+
+    const post = await postsApi.getPostById("post-123");
+
+    expectSentAsInContract();
+    expect(post).toMatchObject({
+      _id: "post-123",
+      author: "João Silva",
+      authorId: "user-123",
+      status: "published",
+      tags: ["Programação", "React"],
+      updatedAt: "2024-01-15T10:30:00Z",
+    });
+    expect(post.description).toBe(
+      "<p>React é uma biblioteca JavaScript para construir interfaces de usuário...</p>"
+    );
+  });
+
+  it("GET /posts/:id 404 vira erro not_found", async () => {
+    use(contract.getPostNotFound);
+
+    const error = await rejection(postsApi.getPostById("post-123"));
+
+    expect(error).toMatchObject({
+      kind: "not_found",
+      status: 404,
+      serverMessage: "Post não encontrado",
+    });
+  });
+
+  it("POST /posts envia authorId, status, publishAt e tags", async () => {
+    use(contract.createPost);
+
+    const post = await postsApi.createPost({
+      title: "Meu Novo Post",
+      content: "<p>Conteúdo do post em HTML...</p>",
+      authorId: "user-123",
+      status: "scheduled",
+      publishAt: "2024-01-20T08:00:00Z",
+      tags: ["Matemática", "Frações"],
+    });
+
+    expectSentAsInContract();
+    expect(post).toMatchObject({
+      _id: "post-456",
+      author: "João Silva",
+      authorId: "user-123",
+      status: "scheduled",
+      publishAt: "2024-01-20T08:00:00Z",
+      createdAt: "2024-01-15T11:00:00Z",
+    });
+  });
+
+  it("POST /posts 400 vira erro de validação com as mensagens", async () => {
+    use(contract.createPostInvalid);
+
+    const error = await rejection(
+      postsApi.createPost({
+        title: "Meu Novo Post",
+        content: "<p>Conteúdo do post em HTML...</p>",
+        authorId: "user-123",
+        status: "scheduled",
+        publishAt: "2024-01-20T08:00:00Z",
+        tags: ["Matemática", "Frações"],
+      })
+    );
+
+    expect(error).toMatchObject({
+      kind: "validation",
+      status: 400,
+      serverMessage: "Dados de entrada inválidos",
+      errors: ["Title deve ter pelo menos 3 caracteres"],
+    });
+  });
+
+  it("PUT /posts/:id envia o updatedAt carregado para detectar conflitos", async () => {
+    use(contract.updatePost);
+
+    const post = await postsApi.updatePost({
+      id: "post-123",
+      title: "Título Atualizado",
+      content: "<p>Conteúdo atualizado em HTML...</p>",
+      status: "archived",
+      updatedAt: "2024-01-15T10:30:00Z",
+    });
+
+    expectSentAsInContract();
+    expect(post).toMatchObject({
+      _id: "post-123",
+      status: "archived",
+      updatedAt: "2024-01-15T12:00:00Z",
+    });
+  });
+
+  it("PUT /posts/:id 409 vira erro conflict", async () => {
+    use(contract.updatePostConflict);
+
+    const error = await rejection(
+      postsApi.updatePost({
+        id: "post-123",
+        title: "Título Atualizado",
+        content: "<p>Conteúdo atualizado em HTML...</p>",
+        status: "archived",
+        updatedAt: "2024-01-15T10:30:00Z",
+      })
+    );
+
+    expect(error).toMatchObject({
+      kind: "conflict",
+      status: 409,
+      serverMessage: "Post foi modificado por outra pessoa",
+    });
+  });
+
+  it("DELETE /posts/:id aceita 204 sem corpo", async () => {
+    use(contract.deletePost);
+
+    await expect(postsApi.deletePost("post-123")).resolves.toBeUndefined();
+    expectSentAsInContract();
+  });
+
+  it("GET /posts/trash lê quem excluiu e quando o post será apagado", async () => {
+    use(contract.listTrash);
+
+    const trash = await postsApi.getTrash();
+
+    expectSentAsInContract();
+    expect(trash.retentionDays).toBe(30);
+    expect(trash.posts[0]).toMatchObject({
+      _id: "post-123",
+      description: "React é uma biblioteca JavaScript...",
+      deletedAt: "2024-02-01T14:00:00Z",
+      deletedBy: "Ana Souza",
+      deletedById: "user-789",
+      purgeAt: "2024-03-02T14:00:00Z",
+    });
+  });
+});
+
+describe("contrato fixo - comentários", () => {
+  it("GET /posts/:id/comments aplica os padrões de moderação ausentes", async () => {
+    use(contract.listComments);
+
+    const comments = await postsApi.getComments("post-123");
+
+    expectSentAsInContract();
+    expect(comments).toEqual([
+      {
+        _id: "comment-123",
+        postId: "post-123",
+        author: "Maria Santos",
+        content: "Excelente post! Muito esclarecedor.",
+        status: "visible",
+        flagged: false,
+        reportCount: 0,
+        reportedByMe: false,
+        createdAt: "2024-01-15T14:30:00Z",
+        updatedAt: "2024-01-15T14:30:00Z",
+      },
+      expect.objectContaining({
+        _id: "comment-124",
+        status: "visible",
+        flagged: false,
+        reportCount: 0,
+        reportedByMe: false,
+      }),
+    ]);
+  });
+
+  it("GET /posts/:id/comments 404 vira erro not_found", async () => {
+    use(contract.listCommentsNotFound);
+
+    const error = await rejection(postsApi.getComments("post-123"));
+
+    expect(error).toMatchObject({ kind: "not_found", status: 404 });
+  });
+
+  it("POST /posts/:id/comments envia o parentId da resposta", async () => {
+    use(contract.createComment);
+
+    const comment = await postsApi.createComment({
+      postId: "post-123",
+      content: "Muito interessante este post!",
+      author: "Ana Oliveira",
+      parentId: "comment-123",
+    });
+
+    expectSentAsInContract();
+    expect(comment).toMatchObject({
+      _id: "comment-125",
+      postId: "post-123",
+      parentId: "comment-123",
+      author: "Ana Oliveira",
+    });
+  });
+});
+
+describe("backend simulado", () => {
+  const backend = createMockBackend({ latencyMs: 0 });
+
+  const fieldsOf = (value: unknown) => Object.keys(value as object).sort();
+
+  beforeEach(() => {
+    backend.reset();
+    api.defaults.adapter = backend.adapter;
+  });
+
+  afterEach(() => {
+    api.defaults.adapter = replay;
+  });
+
+  it("responde ao login com os campos do contrato", async () => {
+    const { data } = await api.post("/auth/login", {
+      username: "professor",
+      password: "senha123",
+    });
+    const expected = contract.loginSuccess.response.body as {
+      user: unknown;
+    };
+
+    expect(fieldsOf(data)).toEqual(expect.arrayContaining(fieldsOf(expected)));
+    expect(fieldsOf(data.user)).toEqual(
+      expect.arrayContaining(fieldsOf(expected.user))
+    );
+  });
+
+  it("responde a GET /posts com os campos do contrato", async () => {
+    const { data } = await api.get("/posts");
+    const expected = contract.listPosts.response.body as {
+      posts: unknown[];
+    };
+
+    expect(fieldsOf(data)).toEqual(fieldsOf(expected));
+    expect(fieldsOf(data.posts[0])).toEqual(
+      expect.arrayContaining(fieldsOf(expected.posts[0]))
+    );
+  });
+});
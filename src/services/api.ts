@@ -1,4 +1,31 @@
 import axios from "axios";
+import { ApiError, toApiError } from "./apiError";
+import { createRefreshCoordinator } from "./tokenRefresh";
+import { connectivityMonitor } from "./connectivity";
+import {
+  decodePost,
+  decodePostsResponse,
+  decodeComment,
+  decodeComments,
+  decodeCommentsPage,
+  decodeTags,
+  decodeMediaItem,
+  decodeMediaPage,
+  decodeRevision,
+  decodeRevisions,
+  decodeTrashResponse,
+  decodeLoginResponse,
+  decodeAuthTokens,
+} from "./decoders";
+import { tokenStorage } from "./tokenStorage";
+import {
+  RetryOptions,
+  resolveRetryConfig,
+  parseRetryAfter,
+  computeRetryDelay,
+  waitForRetry,
+  retryMonitor,
+} from "./retry";
 
 const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || "";
 
@@ -10,9 +37,17 @@ const api = axios.create({
   },
 });
 
+// Backend em memória para desenvolvimento sem servidor (ver README)
+if (process.env.REACT_APP_USE_MOCK_API === "true") {
+  api.defaults.adapter = async (config) => {
+    const { getMockBackend } = await import("./mock");
+    return getMockBackend().adapter(config);
+  };
+}
+
 api.interceptors.request.use(
   (config) => {
-    const accessToken = sessionStorage.getItem("accessToken");
+    const accessToken = tokenStorage.getAccessToken();
     if (accessToken) {
       config.headers.Authorization = `Bearer ${accessToken}`;
     }
@@ -23,99 +58,339 @@ api.interceptors.request.use(
   }
 );
 
+// Falhas nessas rotas não devem disparar uma nova renovação de token
+const ENDPOINTS_WITHOUT_REFRESH = ["/auth/login", "/auth/refresh"];
+
+const refreshCoordinator = createRefreshCoordinator({
+  refresh: async () => {
+    const refreshToken = tokenStorage.getRefreshToken();
+    if (!refreshToken) {
+      throw new ApiError({ kind: "unauthorized", status: 401 });
+    }
+
+    const newTokens = await authApi.refreshToken(refreshToken);
+    tokenStorage.setTokens(newTokens);
+
+    return newTokens.accessToken;
+  },
+  onFailure: (refreshError) => {
+    console.error("Token refresh failed:", refreshError);
+    tokenStorage.clear();
+    if (window.location.pathname !== "/login") {
+      window.location.href = "/login";
+    }
+  },
+});
+
 api.interceptors.response.use(
-  (response) => response,
+  (response) => {
+    connectivityMonitor.reportSuccess();
+    retryMonitor.markSettled(response.config._retryRequestId);
+    return response;
+  },
   async (error) => {
+    connectivityMonitor.reportError(toApiError(error));
     const originalRequest = error.config;
-
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    const isRefreshable =
+      originalRequest &&
+      !ENDPOINTS_WITHOUT_REFRESH.some((url) =>
+        originalRequest.url?.startsWith(url)
+      );
+
+    if (
+      error.response?.status === 401 &&
+      isRefreshable &&
+      !originalRequest._retry &&
+      tokenStorage.getRefreshToken()
+    ) {
       originalRequest._retry = true;
 
+      // O token pode já ter sido renovado por outra requisição enquanto esta
+      // estava em voo: nesse caso basta reenviar com o token atual
+      const currentToken = tokenStorage.getAccessToken();
+      const sentToken = String(
+        originalRequest.headers?.Authorization || ""
+      ).replace(/^Bearer /, "");
+
       try {
-        const refreshToken = localStorage.getItem("refreshToken");
-        if (refreshToken) {
-          const newTokens = await authApi.refreshToken(refreshToken);
-
-          sessionStorage.setItem("accessToken", newTokens.accessToken);
-          if (newTokens.refreshToken) {
-            localStorage.setItem("refreshToken", newTokens.refreshToken);
-          }
-
-          originalRequest.headers.Authorization = `Bearer ${newTokens.accessToken}`;
-          return api(originalRequest);
-        }
+        const accessToken =
+          currentToken &&
+          currentToken !== sentToken &&
+          !refreshCoordinator.isRefreshing()
+            ? currentToken
+            : await refreshCoordinator.refresh();
+
+        originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+        return api(originalRequest);
       } catch (refreshError) {
-        console.error("Token refresh failed:", refreshError);
-        sessionStorage.removeItem("accessToken");
-        localStorage.removeItem("refreshToken");
-        localStorage.removeItem("user");
-        window.location.href = "/login";
-        return Promise.reject(refreshError);
+        return Promise.reject(toApiError(refreshError));
       }
     }
 
-    console.error("API Error:", error);
-    return Promise.reject(error);
+    const apiError = toApiError(error);
+    const retryConfig =
+      originalRequest && apiError.retryable
+        ? resolveRetryConfig(originalRequest.method, originalRequest.retry)
+        : null;
+    const attempt = (originalRequest?._retryCount || 0) + 1;
+
+    if (retryConfig && attempt <= retryConfig.retries) {
+      originalRequest._retryCount = attempt;
+      if (originalRequest._retryRequestId === undefined) {
+        originalRequest._retryRequestId = retryMonitor.createRequestId();
+      }
+
+      const retryAfterMs =
+        apiError.status === 429 || apiError.status === 503
+          ? parseRetryAfter(error.response?.headers?.["retry-after"])
+          : null;
+      const retryAttempt = {
+        requestId: originalRequest._retryRequestId,
+        method: (originalRequest.method || "get").toUpperCase(),
+        url: originalRequest.url || "",
+        attempt,
+        maxAttempts: retryConfig.retries,
+        delayMs: computeRetryDelay(attempt, retryConfig, retryAfterMs),
+        error: apiError,
+      };
+
+      retryMonitor.markRetrying(retryAttempt);
+      retryConfig.onRetry?.(retryAttempt);
+
+      try {
+        await waitForRetry(retryAttempt.delayMs, originalRequest.signal);
+      } catch (cancelError) {
+        retryMonitor.markSettled(originalRequest._retryRequestId);
+        return Promise.reject(toApiError(cancelError));
+      }
+
+      return api(originalRequest);
+    }
+
+    retryMonitor.markSettled(originalRequest?._retryRequestId);
+    if (apiError.kind !== "cancelled") {
+      console.error("API Error:", apiError);
+    }
+    return Promise.reject(apiError);
   }
 );
 
+export type PostStatus = "draft" | "published" | "scheduled" | "archived";
+
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  draft: "Rascunho",
+  published: "Publicado",
+  scheduled: "Agendado",
+  archived: "Arquivado",
+};
+
 export interface Post {
   _id: string;
   title: string;
   author: string;
+  authorId?: string;
   content: string;
   description?: string;
+  status: PostStatus;
+  // Data a partir da qual o post fica visível para alunos (ISO 8601)
+  publishAt?: string;
+  // Disciplinas e temas, ex.: ["Matemática", "Frações"]
+  tags: string[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TagSummary {
+  name: string;
+  // Posts visíveis para o usuário com esta tag
+  count: number;
+}
+
 export interface PostsResponse {
   posts: Post[];
   total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
 }
 
+export type PostsSortField = "createdAt" | "updatedAt" | "title";
+
+export type SortOrder = "asc" | "desc";
+
 export interface PostsParams {
   search?: string;
   page?: number;
   limit?: number;
+  sort?: PostsSortField;
+  order?: SortOrder;
+  status?: PostStatus;
+  // Retorna apenas posts que têm todas as tags
+  tags?: string[];
+}
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  retry?: RetryOptions;
+  timeout?: number;
 }
 
+const requestConfig = (options: RequestOptions) => ({
+  signal: options.signal,
+  retry: options.retry,
+  timeout: options.timeout,
+});
+
+export type CommentStatus = "visible" | "hidden";
+
+export type ReportReason = "spam" | "offensive" | "off_topic" | "other";
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam ou propaganda",
+  offensive: "Ofensivo ou abusivo",
+  off_topic: "Fora do assunto",
+  other: "Outro motivo",
+};
+
 export interface Comment {
   _id: string;
   postId: string;
   author: string;
+  authorId?: string;
+  // Comentário ao qual este responde; ausente em comentários de nível superior
+  parentId?: string;
   content: string;
+  // Comentários ocultos só são exibidos para professores
+  status: CommentStatus;
+  flagged: boolean;
+  reportCount: number;
+  // Se o usuário autenticado já denunciou este comentário
+  reportedByMe: boolean;
+  // Presentes apenas na listagem de moderação
+  postTitle?: string;
+  reportReasons?: Partial<Record<ReportReason, number>>;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CommentsPage {
+  comments: Comment[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface ModerationParams {
+  postId?: string;
+  author?: string;
+  // Datas ISO 8601 (inclusive) filtrando por createdAt
+  from?: string;
+  to?: string;
+  flagged?: boolean;
+  status?: CommentStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface ReportCommentParams {
+  postId: string;
+  commentId: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+export interface CommentStatusParams {
+  postId: string;
+  commentId: string;
+  status: CommentStatus;
+}
+
 export interface CreateCommentParams {
   postId: string;
   content: string;
   author: string;
+  parentId?: string;
+}
+
+export interface UpdateCommentParams {
+  postId: string;
+  commentId: string;
+  content: string;
 }
 
 export interface CreatePostParams {
   title: string;
   content: string;
-  author: string;
+  authorId: string;
+  // Sem status o servidor publica imediatamente
+  status?: PostStatus;
+  // Obrigatório quando status é "scheduled"
+  publishAt?: string;
+  tags?: string[];
 }
 
 export interface UpdatePostParams {
   id: string;
   title: string;
   content: string;
+  status?: PostStatus;
+  publishAt?: string;
+  tags?: string[];
+  // `updatedAt` da versão editada; se o post mudou desde então a API responde 409
+  updatedAt?: string;
+}
+
+export interface PostRevisionSummary {
+  _id: string;
+  postId: string;
+  title: string;
+  // Quem salvou esta versão
+  author: string;
+  authorId?: string;
+  createdAt: string;
+}
+
+export interface PostRevision extends PostRevisionSummary {
+  content: string;
+  status: PostStatus;
+  tags: string[];
+}
+
+// Post excluído que ainda pode ser restaurado
+export interface TrashedPost extends Post {
+  deletedAt: string;
+  // Quem excluiu
+  deletedBy: string;
+  deletedById?: string;
+  // Quando o post será excluído definitivamente
+  purgeAt: string;
 }
 
+export interface TrashResponse {
+  posts: TrashedPost[];
+  // Dias que um post fica na lixeira
+  retentionDays: number;
+}
+
+// Eventos enviados pelo GET /events (ver realtime.ts)
+export type RealtimeEvent =
+  | { type: "post.created"; post: Post }
+  | { type: "post.updated"; post: Post }
+  | { type: "post.deleted"; postId: string }
+  | { type: "comment.created"; comment: Comment };
+
 export interface User {
   _id: string;
   name: string;
   email: string;
-  role: "professor";
+  role: "professor" | "student";
 }
 
 export interface LoginCredentials {
-  email: string;
+  username: string;
   password: string;
 }
 
@@ -130,117 +405,400 @@ export interface AuthTokens {
   refreshToken?: string;
 }
 
-export const postsApi = {
-  getPosts: async (): Promise<PostsResponse> => {
+export interface MediaItem {
+  _id: string;
+  url: string;
+  filename: string;
+  mimeType: string;
+  // Tamanho em bytes
+  size: number;
+  width?: number;
+  height?: number;
+  createdAt: string;
+}
 
+export interface MediaPage {
+  media: MediaItem[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface MediaParams {
+  page?: number;
+  limit?: number;
+}
+
+export interface UploadImageParams {
+  file: Blob;
+  filename: string;
+  // Dimensões após o redimensionamento no cliente, quando conhecidas
+  width?: number;
+  height?: number;
+  // Percentual enviado, de 0 a 100
+  onProgress?: (percent: number) => void;
+}
+
+// Uploads podem levar bem mais que o timeout padrão de 10s
+const UPLOAD_TIMEOUT_MS = 60000;
+
+const optionalPostFields = (params: {
+  status?: PostStatus;
+  publishAt?: string;
+  tags?: string[];
+}) => ({
+  ...(params.status ? { status: params.status } : {}),
+  ...(params.status === "scheduled" && params.publishAt
+    ? { publishAt: params.publishAt }
+    : {}),
+  ...(params.tags ? { tags: params.tags } : {}),
+});
+
+export const postsApi = {
+  getPosts: async (
+    params: PostsParams = {},
+    options: RequestOptions = {}
+  ): Promise<PostsResponse> => {
     const queryParams = new URLSearchParams();
-    const response = await api.get(`/posts${queryParams.toString()}`);
-
-    const data = response.data;
-
-    if (Array.isArray(data)) {
-      const mappedPosts = data.map((post: any) => ({
-        _id: post._id || post._id,
-        title: post.title,
-        author: post.author,
-        content: post.content,
-        description:
-          post.description || post.content?.substring(0, 150) + "...",
-        createdAt: post.createdAt,
-        updatedAt: post.updatedAt || post.createdAt,
-      }));
-
-
-      const result = {
-        posts: mappedPosts,
-        total: data.length,
-      };
+    if (params.search?.trim()) queryParams.set("search", params.search.trim());
+    if (params.page) queryParams.set("page", String(params.page));
+    if (params.limit) queryParams.set("limit", String(params.limit));
+    if (params.sort) queryParams.set("sort", params.sort);
+    if (params.order) queryParams.set("order", params.order);
+    if (params.status) queryParams.set("status", params.status);
+    if (params.tags?.length) queryParams.set("tags", params.tags.join(","));
+
+    const query = queryParams.toString();
+    const response = await api.get(
+      query ? `/posts?${query}` : "/posts",
+      requestConfig(options)
+    );
+
+    return decodePostsResponse(response.data, {
+      page: params.page || 1,
+      limit: params.limit || DEFAULT_PAGE_SIZE,
+    });
+  },
 
-      return result;
-    }
+  getTags: async (options: RequestOptions = {}): Promise<TagSummary[]> => {
+    const response = await api.get("/tags", requestConfig(options));
+    return decodeTags(response.data);
+  },
 
-    if (data && typeof data === "object" && data._id) {
-      const mappedPost = {
-        _id: data._id || data._id,
-        title: data.title,
-        author: data.author,
-        content: data.content,
-        description:
-          data.description || data.content?.substring(0, 150) + "...",
-        createdAt: data.createdAt,
-        updatedAt: data.updatedAt || data.createdAt,
-      };
+  getPostById: async (
+    _id: string,
+    options: RequestOptions = {}
+  ): Promise<Post> => {
+    const response = await api.get(`/posts/${_id}`, requestConfig(options));
+    return decodePost(response.data);
+  },
 
-      return {
-        posts: [mappedPost],
-        total: 1,
-      };
-    }
+  getComments: async (
+    postId: string,
+    options: RequestOptions = {}
+  ): Promise<Comment[]> => {
+    const response = await api.get(
+      `/posts/${postId}/comments`,
+      requestConfig(options)
+    );
+    return decodeComments(response.data, postId);
+  },
 
-    if (data && data.posts) {
-      return data;
-    }
+  createComment: async (
+    params: CreateCommentParams,
+    options: RequestOptions = {}
+  ): Promise<Comment> => {
+    const response = await api.post(
+      `/posts/${params.postId}/comments`,
+      {
+        content: params.content,
+        author: params.author,
+        ...(params.parentId ? { parentId: params.parentId } : {}),
+      },
+      requestConfig(options)
+    );
+    return decodeComment(response.data, "", params.postId);
+  },
 
-    return {
-      posts: [],
-      total: 0,
-    };
+  updateComment: async (
+    params: UpdateCommentParams,
+    options: RequestOptions = {}
+  ): Promise<Comment> => {
+    const response = await api.put(
+      `/posts/${params.postId}/comments/${params.commentId}`,
+      { content: params.content },
+      requestConfig(options)
+    );
+    return decodeComment(response.data, "", params.postId);
   },
 
-  getPostById: async (_id: string): Promise<Post> => {
-    const response = await api.get(`/posts/${_id}`);
-    return response.data;
+  reportComment: async (
+    params: ReportCommentParams,
+    options: RequestOptions = {}
+  ): Promise<Comment> => {
+    const response = await api.post(
+      `/posts/${params.postId}/comments/${params.commentId}/reports`,
+      {
+        reason: params.reason,
+        ...(params.details?.trim() ? { details: params.details.trim() } : {}),
+      },
+      requestConfig(options)
+    );
+    return decodeComment(response.data, "", params.postId);
   },
 
-  getComments: async (postId: string): Promise<Comment[]> => {
-    const response = await api.get(`/posts/${postId}/comments`);
-    return response.data;
+  setCommentStatus: async (
+    params: CommentStatusParams,
+    options: RequestOptions = {}
+  ): Promise<Comment> => {
+    const response = await api.patch(
+      `/posts/${params.postId}/comments/${params.commentId}/status`,
+      { status: params.status },
+      requestConfig(options)
+    );
+    return decodeComment(response.data, "", params.postId);
   },
 
-  createComment: async (params: CreateCommentParams): Promise<Comment> => {
-    const response = await api.post(`/posts/${params.postId}/comments`, {
-      content: params.content,
-      author: params.author,
-    });
-    return response.data;
+  deleteComment: async (
+    postId: string,
+    commentId: string,
+    options: RequestOptions = {}
+  ): Promise<void> => {
+    await api.delete(
+      `/posts/${postId}/comments/${commentId}`,
+      requestConfig(options)
+    );
+  },
+
+  createPost: async (
+    params: CreatePostParams,
+    options: RequestOptions = {}
+  ): Promise<Post> => {
+    const response = await api.post(
+      "/posts",
+      {
+        title: params.title,
+        content: params.content,
+        authorId: params.authorId,
+        ...optionalPostFields(params),
+      },
+      requestConfig(options)
+    );
+    return decodePost(response.data);
+  },
+
+  updatePost: async (
+    params: UpdatePostParams,
+    options: RequestOptions = {}
+  ): Promise<Post> => {
+    const response = await api.put(
+      `/posts/${params.id}`,
+      {
+        title: params.title,
+        content: params.content,
+        ...optionalPostFields(params),
+        ...(params.updatedAt ? { updatedAt: params.updatedAt } : {}),
+      },
+      requestConfig(options)
+    );
+    return decodePost(response.data);
+  },
+
+  // O post vai para a lixeira; ver `restorePost` e `purgePost`
+  deletePost: async (
+    _id: string,
+    options: RequestOptions = {}
+  ): Promise<void> => {
+    await api.delete(`/posts/${_id}`, requestConfig(options));
+  },
+
+  getTrash: async (options: RequestOptions = {}): Promise<TrashResponse> => {
+    const response = await api.get("/posts/trash", requestConfig(options));
+    return decodeTrashResponse(response.data);
   },
 
-  createPost: async (params: CreatePostParams): Promise<Post> => {
-    const response = await api.post("/posts", {
-      title: params.title,
-      content: params.content,
-      author: params.author,
+  restorePost: async (
+    postId: string,
+    options: RequestOptions = {}
+  ): Promise<Post> => {
+    const response = await api.post(
+      `/posts/trash/${postId}/restore`,
+      undefined,
+      requestConfig(options)
+    );
+    return decodePost(response.data);
+  },
+
+  // Exclusão definitiva de um post que está na lixeira
+  purgePost: async (
+    postId: string,
+    options: RequestOptions = {}
+  ): Promise<void> => {
+    await api.delete(`/posts/trash/${postId}`, requestConfig(options));
+  },
+
+  getRevisions: async (
+    postId: string,
+    options: RequestOptions = {}
+  ): Promise<PostRevisionSummary[]> => {
+    const response = await api.get(
+      `/posts/${postId}/revisions`,
+      requestConfig(options)
+    );
+    return decodeRevisions(response.data, postId);
+  },
+
+  getRevision: async (
+    postId: string,
+    revisionId: string,
+    options: RequestOptions = {}
+  ): Promise<PostRevision> => {
+    const response = await api.get(
+      `/posts/${postId}/revisions/${revisionId}`,
+      requestConfig(options)
+    );
+    return decodeRevision(response.data, "", postId);
+  },
+
+  /**
+   * Volta o post para o título, conteúdo e tags de uma revisão
+   *
+   * A restauração é uma edição comum: passa por `updatePost` (com o
+   * `updatedAt` de `post` para detectar conflitos) e gera uma nova revisão.
+   * O status de publicação atual é mantido.
+   */
+  restoreRevision: async (
+    post: Post,
+    revisionId: string,
+    options: RequestOptions = {}
+  ): Promise<Post> => {
+    const revision = await postsApi.getRevision(post._id, revisionId, options);
+    return postsApi.updatePost(
+      {
+        id: post._id,
+        title: revision.title,
+        content: revision.content,
+        tags: revision.tags,
+        updatedAt: post.updatedAt,
+      },
+      options
+    );
+  },
+
+  getModerationComments: async (
+    params: ModerationParams = {},
+    options: RequestOptions = {}
+  ): Promise<CommentsPage> => {
+    const queryParams = new URLSearchParams();
+    if (params.postId) queryParams.set("postId", params.postId);
+    if (params.author?.trim()) queryParams.set("author", params.author.trim());
+    if (params.from) queryParams.set("from", params.from);
+    if (params.to) queryParams.set("to", params.to);
+    if (params.flagged) queryParams.set("flagged", "true");
+    if (params.status) queryParams.set("status", params.status);
+    if (params.page) queryParams.set("page", String(params.page));
+    if (params.limit) queryParams.set("limit", String(params.limit));
+
+    const query = queryParams.toString();
+    const response = await api.get(
+      query ? `/comments?${query}` : "/comments",
+      requestConfig(options)
+    );
+
+    return decodeCommentsPage(response.data, {
+      page: params.page || 1,
+      limit: params.limit || DEFAULT_PAGE_SIZE,
     });
-    return response.data;
   },
 
-  updatePost: async (params: UpdatePostParams): Promise<Post> => {
-    const response = await api.put(`/posts/${params.id}`, {
-      title: params.title,
-      content: params.content,
+  uploadImage: async (
+    params: UploadImageParams,
+    options: RequestOptions = {}
+  ): Promise<MediaItem> => {
+    const formData = new FormData();
+    formData.append("file", params.file, params.filename);
+    if (params.width) formData.append("width", String(params.width));
+    if (params.height) formData.append("height", String(params.height));
+
+    const response = await api.post("/media", formData, {
+      ...requestConfig(options),
+      timeout: options.timeout ?? UPLOAD_TIMEOUT_MS,
+      // Sem isso o axios serializaria o FormData como JSON; no navegador o
+      // header é removido para incluir o boundary
+      headers: { "Content-Type": "multipart/form-data" },
+      onUploadProgress: (event) => {
+        if (!params.onProgress) return;
+        const total = event.total || params.file.size;
+        params.onProgress(
+          total ? Math.min(100, Math.round((event.loaded / total) * 100)) : 0
+        );
+      },
     });
-    return response.data;
+    return decodeMediaItem(response.data);
   },
 
-  deletePost: async (_id: string): Promise<void> => {
-    await api.delete(`/posts/${_id}`);
+  getMedia: async (
+    params: MediaParams = {},
+    options: RequestOptions = {}
+  ): Promise<MediaPage> => {
+    const queryParams = new URLSearchParams();
+    if (params.page) queryParams.set("page", String(params.page));
+    if (params.limit) queryParams.set("limit", String(params.limit));
+
+    const query = queryParams.toString();
+    const response = await api.get(
+      query ? `/media?${query}` : "/media",
+      requestConfig(options)
+    );
+
+    return decodeMediaPage(response.data, {
+      page: params.page || 1,
+      limit: params.limit || DEFAULT_PAGE_SIZE,
+    });
   },
 };
 
 export const authApi = {
-  login: async (credentials: LoginCredentials): Promise<LoginResponse> => {
-    const response = await api.post("/auth/login", credentials);
-    return response.data;
+  login: async (
+    credentials: LoginCredentials,
+    options: RequestOptions = {}
+  ): Promise<LoginResponse> => {
+    const response = await api.post(
+      "/auth/login",
+      credentials,
+      requestConfig(options)
+    );
+    return decodeLoginResponse(response.data);
   },
 
-  logout: async (): Promise<void> => {
-    await api.post("/auth/logout");
+  logout: async (options: RequestOptions = {}): Promise<void> => {
+    await api.post("/auth/logout", undefined, requestConfig(options));
   },
 
-  refreshToken: async (refreshToken: string): Promise<AuthTokens> => {
-    const response = await api.post("/auth/refresh", { refreshToken });
-    return response.data;
+  refreshToken: async (
+    refreshToken: string,
+    options: RequestOptions = {}
+  ): Promise<AuthTokens> => {
+    const response = await api.post(
+      "/auth/refresh",
+      { refreshToken },
+      requestConfig(options)
+    );
+    return decodeAuthTokens(response.data);
   },
 };
 
+// Ping leve usado pelo monitor de conectividade enquanto o servidor não responde
+connectivityMonitor.setPing(() =>
+  api.get("/posts", { params: { limit: 1 }, retry: false, timeout: 5000 })
+);
+
+/**
+ * Renova o access token passando pelo mesmo coordenador do interceptor,
+ * evitando renovações paralelas com o refresh token
+ */
+export const refreshAccessToken = (): Promise<string> =>
+  refreshCoordinator.refresh();
+
 export default api;
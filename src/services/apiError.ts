@@ -0,0 +1,225 @@
+import axios from "axios";
+import { DecodeError } from "./decoders";
+
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "validation"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "server"
+  | "invalid_response"
+  | "unknown";
+
+export type FieldErrors = Record<string, string>;
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: "Não foi possível conectar ao servidor. Verifique sua conexão.",
+  timeout: "O servidor demorou para responder. Tente novamente.",
+  cancelled: "Requisição cancelada.",
+  validation: "Dados inválidos. Verifique os campos e tente novamente.",
+  unauthorized: "Sua sessão expirou. Faça login novamente.",
+  forbidden: "Você não tem permissão para realizar esta ação.",
+  not_found: "Recurso não encontrado.",
+  conflict: "Este conteúdo foi modificado por outra pessoa.",
+  rate_limited: "Muitas requisições. Aguarde um momento e tente novamente.",
+  server: "Erro interno do servidor. Tente novamente mais tarde.",
+  invalid_response:
+    "O servidor respondeu em um formato inesperado. Tente novamente mais tarde.",
+  unknown: "Ocorreu um erro inesperado. Tente novamente.",
+};
+
+const RETRYABLE_KINDS: ApiErrorKind[] = [
+  "network",
+  "timeout",
+  "rate_limited",
+  "server",
+];
+
+/**
+ * Erro normalizado da API
+ *
+ * Produzido pelo interceptor de resposta do axios em `services/api.ts`,
+ * para que contextos e páginas nunca precisem inspecionar `err.response`.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly serverMessage?: string;
+  readonly errors: string[];
+  readonly fieldErrors: FieldErrors;
+  readonly retryable: boolean;
+  readonly field?: string;
+  readonly cause?: unknown;
+
+  constructor(params: {
+    kind: ApiErrorKind;
+    status?: number;
+    serverMessage?: string;
+    errors?: string[];
+    fieldErrors?: FieldErrors;
+    retryable?: boolean;
+    field?: string;
+    cause?: unknown;
+  }) {
+    super(params.serverMessage || DEFAULT_MESSAGES[params.kind]);
+    Object.setPrototypeOf(this, ApiError.prototype);
+    this.name = "ApiError";
+    this.kind = params.kind;
+    this.status = params.status;
+    this.serverMessage = params.serverMessage;
+    this.errors = params.errors || [];
+    this.fieldErrors = params.fieldErrors || {};
+    this.retryable = params.retryable ?? RETRYABLE_KINDS.includes(params.kind);
+    this.field = params.field;
+    this.cause = params.cause;
+  }
+}
+
+const kindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 400 || status === 413 || status === 415 || status === 422) {
+    return "validation";
+  }
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 409 || status === 412) return "conflict";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server";
+  return "unknown";
+};
+
+// "Title é obrigatório", "Campo 'title' deve ter..." -> title
+const FIELD_MESSAGE_PATTERN =
+  /^(?:campo\s+)?['"]?([A-Za-z][\w.]*)['"]?\s+(?:é|deve|não|precisa|inválido)/i;
+
+const toFieldName = (raw: string) => raw.charAt(0).toLowerCase() + raw.slice(1);
+
+const parseErrorDetails = (
+  rawErrors: unknown
+): { errors: string[]; fieldErrors: FieldErrors } => {
+  const errors: string[] = [];
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(rawErrors)) {
+    rawErrors.forEach((entry) => {
+      if (typeof entry === "string") {
+        errors.push(entry);
+        const match = entry.match(FIELD_MESSAGE_PATTERN);
+        if (match) {
+          const field = toFieldName(match[1]);
+          if (!fieldErrors[field]) fieldErrors[field] = entry;
+        }
+      } else if (entry && typeof entry === "object") {
+        const { field, message } = entry as { field?: string; message?: string };
+        if (message) errors.push(message);
+        if (field && message && !fieldErrors[field]) fieldErrors[field] = message;
+      }
+    });
+  } else if (rawErrors && typeof rawErrors === "object") {
+    Object.entries(rawErrors as Record<string, unknown>).forEach(
+      ([field, message]) => {
+        const text = Array.isArray(message) ? message[0] : message;
+        if (typeof text === "string") {
+          errors.push(text);
+          fieldErrors[field] = text;
+        }
+      }
+    );
+  }
+
+  return { errors, fieldErrors };
+};
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error;
+
+  if (axios.isCancel(error)) {
+    return new ApiError({ kind: "cancelled", cause: error });
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === "ERR_CANCELED") {
+      return new ApiError({ kind: "cancelled", cause: error });
+    }
+
+    if (!error.response) {
+      const isTimeout =
+        error.code === "ECONNABORTED" || error.code === "ETIMEDOUT";
+      return new ApiError({
+        kind: isTimeout ? "timeout" : "network",
+        cause: error,
+      });
+    }
+
+    const { status, data } = error.response;
+    const body = (data && typeof data === "object" ? data : {}) as {
+      message?: unknown;
+      errors?: unknown;
+    };
+    const kind = kindFromStatus(status);
+    const { errors, fieldErrors } = parseErrorDetails(body.errors);
+
+    return new ApiError({
+      kind,
+      status,
+      serverMessage:
+        typeof body.message === "string" ? body.message : undefined,
+      errors,
+      fieldErrors: kind === "validation" ? fieldErrors : {},
+      retryable: RETRYABLE_KINDS.includes(kind) && status !== 501,
+      cause: error,
+    });
+  }
+
+  if (error instanceof DecodeError) {
+    return new ApiError({
+      kind: "invalid_response",
+      field: error.field,
+      cause: error,
+    });
+  }
+
+  return new ApiError({
+    kind: "unknown",
+    serverMessage: error instanceof Error ? error.message : undefined,
+    cause: error,
+  });
+};
+
+export type ErrorMessageOverrides = Partial<Record<ApiErrorKind, string>>;
+
+/**
+ * Converte qualquer erro em uma mensagem em pt-BR para o usuário
+ *
+ * @param error - Erro capturado (normalizado ou não)
+ * @param overrides - Mensagens específicas da tela, por tipo de erro
+ *
+ * @example
+ * getErrorMessage(err, { forbidden: "Você não tem permissão para editar este post" })
+ */
+export const getErrorMessage = (
+  error: unknown,
+  overrides: ErrorMessageOverrides = {}
+): string => {
+  const apiError = toApiError(error);
+  const override = overrides[apiError.kind];
+  if (override) return override;
+
+  if (
+    apiError.serverMessage &&
+    apiError.kind !== "unknown" &&
+    apiError.kind !== "server"
+  ) {
+    return apiError.serverMessage;
+  }
+
+  return DEFAULT_MESSAGES[apiError.kind];
+};
@@ -0,0 +1,165 @@
+import { ApiError } from "./apiError";
+
+export type ConnectivityStatus = "online" | "offline" | "server_waking";
+
+export interface ConnectivityState {
+  status: ConnectivityStatus;
+  browserOnline: boolean;
+  consecutiveFailures: number;
+  lastSuccessAt: number | null;
+  lastCheckedAt: number | null;
+}
+
+type ConnectivityListener = (state: ConnectivityState) => void;
+
+// Falhas seguidas até considerar que o servidor está fora do ar/acordando
+const FAILURE_THRESHOLD = 2;
+const PING_INTERVAL_MS = 5000;
+const MAX_PING_INTERVAL_MS = 30000;
+
+// Só falhas de infraestrutura indicam problema de conectividade;
+// 4xx e erros de aplicação (500) significam que o servidor respondeu
+const isConnectivityFailure = (error: ApiError) =>
+  error.kind === "network" ||
+  error.kind === "timeout" ||
+  error.status === 502 ||
+  error.status === 503 ||
+  error.status === 504;
+
+const isBrowserOnline = () =>
+  typeof navigator === "undefined" || navigator.onLine !== false;
+
+/**
+ * Monitor de conectividade com o backend
+ *
+ * Combina os eventos online/offline do navegador com a saúde da API,
+ * alimentada pelo interceptor do axios (sucessos e falhas consecutivas).
+ * Quando o servidor parece indisponível, faz pings leves em intervalos
+ * crescentes até ele voltar a responder.
+ */
+const createConnectivityMonitor = () => {
+  let state: ConnectivityState = {
+    status: isBrowserOnline() ? "online" : "offline",
+    browserOnline: isBrowserOnline(),
+    consecutiveFailures: 0,
+    lastSuccessAt: null,
+    lastCheckedAt: null,
+  };
+  let ping: (() => Promise<unknown>) | null = null;
+  let pingTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingInterval = PING_INTERVAL_MS;
+  let started = 0;
+  const listeners = new Set<ConnectivityListener>();
+
+  const deriveStatus = (
+    browserOnline: boolean,
+    consecutiveFailures: number
+  ): ConnectivityStatus => {
+    if (!browserOnline) return "offline";
+    return consecutiveFailures >= FAILURE_THRESHOLD ? "server_waking" : "online";
+  };
+
+  const clearPing = () => {
+    if (pingTimer) {
+      clearTimeout(pingTimer);
+      pingTimer = null;
+    }
+  };
+
+  const schedulePing = () => {
+    if (!started || !ping || state.status !== "server_waking") {
+      clearPing();
+      pingInterval = PING_INTERVAL_MS;
+      return;
+    }
+    if (pingTimer) return;
+
+    pingTimer = setTimeout(() => {
+      pingTimer = null;
+      pingInterval = Math.min(pingInterval * 2, MAX_PING_INTERVAL_MS);
+      monitor.checkNow();
+    }, pingInterval);
+  };
+
+  const setState = (patch: Partial<ConnectivityState>) => {
+    const next = { ...state, ...patch };
+    next.status = deriveStatus(next.browserOnline, next.consecutiveFailures);
+    state = next;
+    listeners.forEach((listener) => listener(state));
+    schedulePing();
+  };
+
+  const handleOnline = () => {
+    setState({ browserOnline: true });
+    monitor.checkNow();
+  };
+
+  const handleOffline = () => {
+    setState({ browserOnline: false });
+  };
+
+  const monitor = {
+    getState: (): ConnectivityState => state,
+
+    setPing: (pingFn: () => Promise<unknown>) => {
+      ping = pingFn;
+    },
+
+    reportSuccess: () => {
+      if (state.consecutiveFailures === 0 && state.lastSuccessAt) {
+        state = { ...state, lastSuccessAt: Date.now() };
+        return;
+      }
+      setState({ consecutiveFailures: 0, lastSuccessAt: Date.now() });
+    },
+
+    reportError: (error: ApiError) => {
+      if (isConnectivityFailure(error)) {
+        setState({ consecutiveFailures: state.consecutiveFailures + 1 });
+      } else if (error.status !== undefined) {
+        monitor.reportSuccess();
+      }
+    },
+
+    checkNow: async () => {
+      if (!ping || !isBrowserOnline()) return;
+
+      try {
+        await ping();
+      } catch {
+        // O resultado já foi reportado pelo interceptor
+      } finally {
+        state = { ...state, lastCheckedAt: Date.now() };
+      }
+    },
+
+    start: () => {
+      started += 1;
+      if (started === 1) {
+        window.addEventListener("online", handleOnline);
+        window.addEventListener("offline", handleOffline);
+        setState({ browserOnline: isBrowserOnline() });
+      }
+    },
+
+    stop: () => {
+      started = Math.max(0, started - 1);
+      if (started === 0) {
+        window.removeEventListener("online", handleOnline);
+        window.removeEventListener("offline", handleOffline);
+        clearPing();
+      }
+    },
+
+    subscribe: (listener: ConnectivityListener): (() => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return monitor;
+};
+
+export const connectivityMonitor = createConnectivityMonitor();
@@ -0,0 +1,551 @@
+import type {
+  Post,
+  PostStatus,
+  Comment,
+  CommentStatus,
+  ReportReason,
+  CommentsPage,
+  User,
+  LoginResponse,
+  AuthTokens,
+  PostsResponse,
+  TagSummary,
+  MediaItem,
+  MediaPage,
+  PostRevision,
+  PostRevisionSummary,
+  RealtimeEvent,
+  TrashedPost,
+  TrashResponse,
+} from "./api";
+
+/**
+ * Payload da API fora do formato esperado
+ *
+ * `field` indica o caminho do campo inválido (ex.: `posts[3].title`).
+ */
+export class DecodeError extends Error {
+  readonly field: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(field: string, expected: string, received: unknown) {
+    super(
+      `Resposta inválida da API: campo "${field}" deveria ser ${expected}, ` +
+        `recebido ${describe(received)}`
+    );
+    Object.setPrototypeOf(this, DecodeError.prototype);
+    this.name = "DecodeError";
+    this.field = field;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+const fieldPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const asObject = (value: unknown, path: string): JsonObject => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new DecodeError(path || "(raiz)", "um objeto", value);
+  }
+  return value as JsonObject;
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+// Aceita o primeiro dos nomes alternativos presente (ex.: `_id` ou `id`)
+const requiredString = (
+  data: JsonObject,
+  keys: string[],
+  path: string
+): string => {
+  for (const key of keys) {
+    const value = data[key];
+    if (isNonEmptyString(value)) return value;
+    if (typeof value === "number") return String(value);
+    if (value !== undefined && value !== null) {
+      throw new DecodeError(fieldPath(path, key), "um texto", value);
+    }
+  }
+  throw new DecodeError(fieldPath(path, keys[0]), "um texto", undefined);
+};
+
+const optionalString = (
+  data: JsonObject,
+  keys: string[],
+  path: string
+): string | undefined => {
+  for (const key of keys) {
+    const value = data[key];
+    if (typeof value === "string") return value;
+    if (value !== undefined && value !== null) {
+      throw new DecodeError(fieldPath(path, key), "um texto", value);
+    }
+  }
+  return undefined;
+};
+
+const requiredDate = (data: JsonObject, key: string, path: string): string => {
+  const value = requiredString(data, [key], path);
+  if (Number.isNaN(Date.parse(value))) {
+    throw new DecodeError(fieldPath(path, key), "uma data ISO 8601", value);
+  }
+  return value;
+};
+
+const optionalNumber = (
+  data: JsonObject,
+  key: string,
+  path: string
+): number | undefined => {
+  const value = data[key];
+  if (value === undefined || value === null) return undefined;
+  const number = typeof value === "string" ? Number(value) : value;
+  if (typeof number !== "number" || Number.isNaN(number)) {
+    throw new DecodeError(fieldPath(path, key), "um número", value);
+  }
+  return number;
+};
+
+const optionalBoolean = (
+  data: JsonObject,
+  key: string,
+  path: string
+): boolean | undefined => {
+  const value = data[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "boolean") {
+    throw new DecodeError(fieldPath(path, key), "um booleano", value);
+  }
+  return value;
+};
+
+const POST_STATUSES: PostStatus[] = ["draft", "published", "scheduled", "archived"];
+
+// Backends sem fluxo de publicação não enviam status: todo post é público
+const decodePostStatus = (data: JsonObject, path: string): PostStatus => {
+  const status = optionalString(data, ["status"], path);
+  if (status === undefined) return "published";
+  if (!POST_STATUSES.includes(status as PostStatus)) {
+    throw new DecodeError(
+      fieldPath(path, "status"),
+      `um de ${POST_STATUSES.join(", ")}`,
+      status
+    );
+  }
+  return status as PostStatus;
+};
+
+// Backends sem tags omitem o campo
+const decodeTagList = (data: JsonObject, path: string): string[] => {
+  if (data.tags === undefined || data.tags === null) return [];
+  if (!Array.isArray(data.tags)) {
+    throw new DecodeError(fieldPath(path, "tags"), "uma lista", data.tags);
+  }
+  return data.tags.map((tag, index) => {
+    if (typeof tag !== "string") {
+      throw new DecodeError(fieldPath(path, `tags[${index}]`), "um texto", tag);
+    }
+    return tag;
+  });
+};
+
+const COMMENT_STATUSES: CommentStatus[] = ["visible", "hidden"];
+
+// Backends sem moderação não enviam status: tudo é visível
+const decodeCommentStatus = (data: JsonObject, path: string): CommentStatus => {
+  const status = optionalString(data, ["status"], path);
+  if (status === undefined) return "visible";
+  if (!COMMENT_STATUSES.includes(status as CommentStatus)) {
+    throw new DecodeError(
+      fieldPath(path, "status"),
+      `um de ${COMMENT_STATUSES.join(", ")}`,
+      status
+    );
+  }
+  return status as CommentStatus;
+};
+
+const REPORT_REASONS: ReportReason[] = ["spam", "offensive", "off_topic", "other"];
+
+// Motivos desconhecidos são ignorados para não quebrar a tela de moderação
+const decodeReportReasons = (
+  data: JsonObject,
+  path: string
+): Partial<Record<ReportReason, number>> | undefined => {
+  if (data.reportReasons === undefined || data.reportReasons === null) {
+    return undefined;
+  }
+  const reasons = asObject(data.reportReasons, fieldPath(path, "reportReasons"));
+  const counts: Partial<Record<ReportReason, number>> = {};
+  REPORT_REASONS.forEach((reason) => {
+    const count = optionalNumber(reasons, reason, fieldPath(path, "reportReasons"));
+    if (count) counts[reason] = count;
+  });
+  return counts;
+};
+
+const excerpt = (content: string) =>
+  content.length <= 150 ? content : content.substring(0, 150) + "...";
+
+export const decodePost = (value: unknown, path = ""): Post => {
+  const data = asObject(value, path);
+  const content = requiredString(data, ["content"], path);
+  const createdAt = requiredDate(data, "createdAt", path);
+
+  return {
+    _id: requiredString(data, ["_id", "id"], path),
+    title: requiredString(data, ["title"], path),
+    author: requiredString(data, ["author", "authorName"], path),
+    authorId: optionalString(data, ["authorId"], path),
+    content,
+    description:
+      optionalString(data, ["description", "excerpt"], path) ||
+      excerpt(content),
+    status: decodePostStatus(data, path),
+    publishAt: data.publishAt ? requiredDate(data, "publishAt", path) : undefined,
+    tags: decodeTagList(data, path),
+    createdAt,
+    updatedAt: data.updatedAt ? requiredDate(data, "updatedAt", path) : createdAt,
+  };
+};
+
+const decodeTrashedPost = (value: unknown, path: string): TrashedPost => {
+  const data = asObject(value, path);
+
+  return {
+    ...decodePost(data, path),
+    deletedAt: requiredDate(data, "deletedAt", path),
+    deletedBy: requiredString(data, ["deletedBy", "deletedByName"], path),
+    deletedById: optionalString(data, ["deletedById"], path),
+    purgeAt: requiredDate(data, "purgeAt", path),
+  };
+};
+
+export const decodeTrashResponse = (value: unknown): TrashResponse => {
+  const data = asObject(value, "");
+  if (!Array.isArray(data.posts)) {
+    throw new DecodeError("posts", "uma lista", data.posts);
+  }
+
+  return {
+    posts: data.posts.map((item, index) =>
+      decodeTrashedPost(item, `posts[${index}]`)
+    ),
+    retentionDays: optionalNumber(data, "retentionDays", "") ?? 30,
+  };
+};
+
+export const decodeComment = (
+  value: unknown,
+  path = "",
+  postId?: string
+): Comment => {
+  const data = asObject(value, path);
+  const createdAt = requiredDate(data, "createdAt", path);
+
+  return {
+    _id: requiredString(data, ["_id", "id"], path),
+    postId:
+      optionalString(data, ["postId"], path) ||
+      postId ||
+      requiredString(data, ["postId"], path),
+    author: requiredString(data, ["author", "authorName"], path),
+    authorId: optionalString(data, ["authorId"], path),
+    parentId: optionalString(data, ["parentId"], path),
+    content: requiredString(data, ["content"], path),
+    status: decodeCommentStatus(data, path),
+    flagged: optionalBoolean(data, "flagged", path) ?? false,
+    reportCount: optionalNumber(data, "reportCount", path) ?? 0,
+    reportedByMe: optionalBoolean(data, "reportedByMe", path) ?? false,
+    postTitle: optionalString(data, ["postTitle"], path),
+    reportReasons: decodeReportReasons(data, path),
+    createdAt,
+    updatedAt: data.updatedAt ? requiredDate(data, "updatedAt", path) : createdAt,
+  };
+};
+
+export const decodeTags = (value: unknown): TagSummary[] => {
+  if (!Array.isArray(value)) {
+    throw new DecodeError("", "uma lista", value);
+  }
+  return value.map((item, index) => {
+    const path = `[${index}]`;
+    const data = asObject(item, path);
+    return {
+      name: requiredString(data, ["name"], path),
+      count: optionalNumber(data, "count", path) ?? 0,
+    };
+  });
+};
+
+const decodeRevisionSummary = (
+  value: unknown,
+  path: string,
+  postId?: string
+): PostRevisionSummary => {
+  const data = asObject(value, path);
+
+  return {
+    _id: requiredString(data, ["_id", "id"], path),
+    postId: optionalString(data, ["postId"], path) || postId || "",
+    title: requiredString(data, ["title"], path),
+    author: requiredString(data, ["author", "authorName"], path),
+    authorId: optionalString(data, ["authorId"], path),
+    createdAt: requiredDate(data, "createdAt", path),
+  };
+};
+
+export const decodeRevision = (
+  value: unknown,
+  path = "",
+  postId?: string
+): PostRevision => {
+  const data = asObject(value, path);
+
+  return {
+    ...decodeRevisionSummary(value, path, postId),
+    content: requiredString(data, ["content"], path),
+    status: decodePostStatus(data, path),
+    tags: decodeTagList(data, path),
+  };
+};
+
+export const decodeRevisions = (
+  value: unknown,
+  postId?: string
+): PostRevisionSummary[] => {
+  if (!Array.isArray(value)) {
+    const data = asObject(value, "");
+    if (!Array.isArray(data.revisions)) {
+      throw new DecodeError("revisions", "uma lista", data.revisions);
+    }
+    value = data.revisions;
+  }
+  return (value as unknown[]).map((item, index) =>
+    decodeRevisionSummary(item, `[${index}]`, postId)
+  );
+};
+
+export const decodeComments = (value: unknown, postId?: string): Comment[] => {
+  if (!Array.isArray(value)) {
+    const data = asObject(value, "");
+    if (!Array.isArray(data.comments)) {
+      throw new DecodeError("comments", "uma lista", data.comments);
+    }
+    value = data.comments;
+  }
+  return (value as unknown[]).map((item, index) =>
+    decodeComment(item, `[${index}]`, postId)
+  );
+};
+
+/**
+ * Decodifica uma mensagem do canal em tempo real
+ *
+ * Tipos desconhecidos viram null para que o servidor possa anunciar
+ * eventos novos sem quebrar clientes antigos.
+ */
+export const decodeRealtimeEvent = (value: unknown): RealtimeEvent | null => {
+  const data = asObject(value, "");
+
+  switch (data.type) {
+    case "post.created":
+    case "post.updated":
+      return { type: data.type, post: decodePost(data.post, "post") };
+    case "post.deleted":
+      return {
+        type: data.type,
+        postId: requiredString(data, ["postId"], ""),
+      };
+    case "comment.created":
+      return {
+        type: data.type,
+        comment: decodeComment(data.comment, "comment"),
+      };
+    default:
+      return null;
+  }
+};
+
+export const decodeCommentsPage = (
+  value: unknown,
+  requested: { page: number; limit: number }
+): CommentsPage => {
+  const data = asObject(value, "");
+  if (!Array.isArray(data.comments)) {
+    throw new DecodeError("comments", "uma lista", data.comments);
+  }
+
+  const comments = data.comments.map((item, index) =>
+    decodeComment(item, `comments[${index}]`)
+  );
+  const total = optionalNumber(data, "total", "") ?? comments.length;
+  const limit = optionalNumber(data, "limit", "") || requested.limit;
+
+  return {
+    comments,
+    total,
+    page: optionalNumber(data, "page", "") || requested.page,
+    limit,
+    totalPages:
+      optionalNumber(data, "totalPages", "") ??
+      Math.max(1, Math.ceil(total / limit)),
+  };
+};
+
+export const decodeMediaItem = (value: unknown, path = ""): MediaItem => {
+  const data = asObject(value, path);
+
+  return {
+    _id: requiredString(data, ["_id", "id"], path),
+    url: requiredString(data, ["url"], path),
+    filename: optionalString(data, ["filename", "name"], path) || "imagem",
+    mimeType: optionalString(data, ["mimeType"], path) || "image/*",
+    size: optionalNumber(data, "size", path) ?? 0,
+    width: optionalNumber(data, "width", path),
+    height: optionalNumber(data, "height", path),
+    createdAt: requiredDate(data, "createdAt", path),
+  };
+};
+
+export const decodeMediaPage = (
+  value: unknown,
+  requested: { page: number; limit: number }
+): MediaPage => {
+  const data = asObject(value, "");
+  if (!Array.isArray(data.media)) {
+    throw new DecodeError("media", "uma lista", data.media);
+  }
+
+  const media = data.media.map((item, index) =>
+    decodeMediaItem(item, `media[${index}]`)
+  );
+  const total = optionalNumber(data, "total", "") ?? media.length;
+  const limit = optionalNumber(data, "limit", "") || requested.limit;
+
+  return {
+    media,
+    total,
+    page: optionalNumber(data, "page", "") || requested.page,
+    limit,
+    totalPages:
+      optionalNumber(data, "totalPages", "") ??
+      Math.max(1, Math.ceil(total / limit)),
+  };
+};
+
+// O contrato usa "teacher"; o backend legado, "professor"
+const ROLE_ALIASES: Record<string, User["role"]> = {
+  professor: "professor",
+  teacher: "professor",
+  admin: "professor",
+  student: "student",
+  aluno: "student",
+};
+
+export const decodeUser = (value: unknown, path = "user"): User => {
+  const data = asObject(value, path);
+  const email = optionalString(data, ["email"], path) || "";
+  const rawRole = optionalString(data, ["role"], path);
+
+  // Sem role no payload: o backend legado só possui contas de professor
+  let role: User["role"] = "professor";
+  if (rawRole !== undefined) {
+    const alias = ROLE_ALIASES[rawRole.toLowerCase()];
+    if (!alias) {
+      throw new DecodeError(
+        fieldPath(path, "role"),
+        `um de ${Object.keys(ROLE_ALIASES).join(", ")}`,
+        rawRole
+      );
+    }
+    role = alias;
+  }
+
+  return {
+    _id: requiredString(data, ["_id", "id"], path),
+    name:
+      optionalString(data, ["name", "username"], path) ||
+      requiredString(data, ["email"], path),
+    email,
+    role,
+  };
+};
+
+export const decodeAuthTokens = (value: unknown): AuthTokens => {
+  const data = asObject(value, "");
+  return {
+    accessToken: requiredString(data, ["accessToken"], ""),
+    refreshToken: optionalString(data, ["refreshToken"], ""),
+  };
+};
+
+export const decodeLoginResponse = (value: unknown): LoginResponse => {
+  const data = asObject(value, "");
+  return {
+    ...decodeAuthTokens(data),
+    user: decodeUser(data.user, "user"),
+  };
+};
+
+/**
+ * Aceita os três formatos que o backend já devolveu para GET /posts:
+ * o contrato paginado `{ posts, total, ... }`, uma lista simples (backend
+ * legado sem paginação) e um único post.
+ */
+export const decodePostsResponse = (
+  value: unknown,
+  requested: { page: number; limit: number }
+): PostsResponse => {
+  if (Array.isArray(value)) {
+    return {
+      posts: value.map((item, index) => decodePost(item, `[${index}]`)),
+      total: value.length,
+      page: 1,
+      limit: value.length || requested.limit,
+      totalPages: 1,
+    };
+  }
+
+  const data = asObject(value, "");
+
+  if (!("posts" in data) && ("_id" in data || "id" in data)) {
+    return {
+      posts: [decodePost(data)],
+      total: 1,
+      page: 1,
+      limit: requested.limit,
+      totalPages: 1,
+    };
+  }
+
+  if (!Array.isArray(data.posts)) {
+    throw new DecodeError("posts", "uma lista", data.posts);
+  }
+
+  const posts = data.posts.map((item, index) =>
+    decodePost(item, `posts[${index}]`)
+  );
+  const total = optionalNumber(data, "total", "") ?? posts.length;
+  const limit = optionalNumber(data, "limit", "") || requested.limit;
+
+  return {
+    posts,
+    total,
+    page: optionalNumber(data, "page", "") || requested.page,
+    limit,
+    totalPages:
+      optionalNumber(data, "totalPages", "") ??
+      Math.max(1, Math.ceil(total / limit)),
+  };
+};
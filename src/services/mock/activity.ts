@@ -0,0 +1,103 @@
+import { MockComment, MockPost } from "./types";
+import { MockStore } from "./store";
+import { MockEvents } from "./events";
+import { canRead } from "./routes/posts";
+import { recordRevision } from "./routes/revisions";
+
+const ACTIVITY_POSTS = [
+  {
+    title: "Exercícios de revisão: frações",
+    content:
+      "<p>Resolvam os exercícios 1 a 10 da página 42 antes da próxima aula.</p>",
+    tags: ["Matemática", "Exercícios"],
+  },
+  {
+    title: "Leitura para a semana: Vidas Secas",
+    content:
+      "<p>Leiam os três primeiros capítulos e anotem as impressões sobre Fabiano.</p>",
+    tags: ["Literatura"],
+  },
+  {
+    title: "Roteiro do experimento de densidade",
+    content:
+      "<p>Tragam um copo transparente, sal e um ovo cru para a aula prática.</p>",
+    tags: ["Ciências", "Laboratório"],
+  },
+];
+
+const ACTIVITY_COMMENTS = [
+  "Professora, isso vai cair na prova?",
+  "Consegui resolver, obrigada pela explicação!",
+  "Fiquei com dúvida no segundo exemplo.",
+  "Podemos fazer em dupla?",
+];
+
+/**
+ * Simula a turma usando o sistema enquanto o app está aberto
+ *
+ * A cada `intervalMs` Ana Souza publica um post ou Maria Santos comenta o
+ * post publicado mais recente, gerando eventos no canal em tempo real.
+ *
+ * @returns Função que interrompe a simulação
+ */
+export const startMockActivity = (
+  store: MockStore,
+  events: MockEvents,
+  intervalMs: number
+) => {
+  let step = 0;
+
+  const publishPost = () => {
+    const teacher = store.users.find((user) => user.id === "user-2");
+    if (!teacher) return;
+
+    const template = ACTIVITY_POSTS[(step / 3 - 1) % ACTIVITY_POSTS.length];
+    const now = new Date().toISOString();
+    const post: MockPost = {
+      id: store.nextId("post"),
+      ...template,
+      tags: [...template.tags],
+      authorId: teacher.id,
+      authorName: teacher.name,
+      status: "published",
+      publishAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.posts.push(post);
+    recordRevision(store, post, teacher);
+    events.emit({ type: "post.created", post });
+  };
+
+  const addComment = () => {
+    const student = store.users.find((user) => user.id === "user-3");
+    const post = store.posts
+      .filter((candidate) => canRead(candidate, null))
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))[0];
+    if (!student || !post) return;
+
+    const now = new Date().toISOString();
+    const comment: MockComment = {
+      id: store.nextId("comment"),
+      postId: post.id,
+      authorId: student.id,
+      author: student.name,
+      content: ACTIVITY_COMMENTS[step % ACTIVITY_COMMENTS.length],
+      status: "visible",
+      flagged: false,
+      reports: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.comments.push(comment);
+    events.emit({ type: "comment.created", comment });
+  };
+
+  const timer = setInterval(() => {
+    step += 1;
+    if (step % 3 === 0) publishPost();
+    else addComment();
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,263 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { MockRoute, MockResponse } from "./types";
+import { MockStore } from "./store";
+import { matchRoute } from "./router";
+import { fail } from "./responses";
+
+export interface MockAdapterOptions {
+  // Latência simulada de cada resposta, em ms
+  latencyMs?: number;
+  // Probabilidade (0 a 1) de responder 503 em vez de atender a rota
+  errorRate?: number;
+}
+
+export interface MockAdapter {
+  adapter: AxiosAdapter;
+  setLatency: (latencyMs: number) => void;
+  setErrorRate: (errorRate: number) => void;
+  /**
+   * Faz as próximas `times` requisições falharem com `status`.
+   * Use `0` para simular uma falha de rede (sem resposta).
+   */
+  failNext: (status: number, times?: number) => void;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  409: "Conflict",
+  413: "Payload Too Large",
+  415: "Unsupported Media Type",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  503: "Service Unavailable",
+};
+
+const parseUrl = (config: InternalAxiosRequestConfig) => {
+  const url = new URL(config.url || "/", "http://mock.local");
+  const query = new URLSearchParams(url.search);
+
+  if (config.params instanceof URLSearchParams) {
+    config.params.forEach((value, key) => query.append(key, value));
+  } else if (config.params) {
+    Object.entries(config.params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        query.append(key, String(value));
+      }
+    });
+  }
+
+  return { path: url.pathname, query };
+};
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== "string") return data ?? null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const readHeaders = (config: InternalAxiosRequestConfig) => {
+  const headers: Record<string, string> = {};
+  const raw = AxiosHeaders.from(config.headers).toJSON();
+  Object.entries(raw).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== false) {
+      headers[key.toLowerCase()] = String(value);
+    }
+  });
+  return headers;
+};
+
+// Espera `delayMs` respeitando o cancelamento e o timeout da requisição
+const delay = (config: InternalAxiosRequestConfig, delayMs: number) =>
+  new Promise<void>((resolve, reject) => {
+    const { signal, timeout } = config;
+    if (signal?.aborted) {
+      reject(new CanceledError(undefined, undefined, config));
+      return;
+    }
+
+    const timedOut = !!timeout && timeout < delayMs;
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    const timer = setTimeout(
+      () => {
+        signal?.removeEventListener?.("abort", onAbort);
+        if (timedOut) {
+          reject(
+            new AxiosError(
+              `timeout of ${timeout}ms exceeded`,
+              AxiosError.ECONNABORTED,
+              config
+            )
+          );
+          return;
+        }
+        resolve();
+      },
+      timedOut ? timeout : delayMs
+    );
+
+    signal?.addEventListener?.("abort", onAbort);
+  });
+
+const UPLOAD_PROGRESS_STEPS = 4;
+
+// Tamanho aproximado do corpo multipart, somando arquivos e campos de texto
+const formDataSize = (data: FormData) => {
+  let size = 0;
+  data.forEach((value) => {
+    size += typeof value === "string" ? value.length : value.size;
+  });
+  return size;
+};
+
+// Espera a latência emitindo eventos de progresso de envio em etapas
+const delayWithUploadProgress = async (
+  config: InternalAxiosRequestConfig,
+  delayMs: number
+) => {
+  const onUploadProgress = config.onUploadProgress;
+  if (!onUploadProgress || !(config.data instanceof FormData)) {
+    await delay(config, delayMs);
+    return;
+  }
+
+  const total = formDataSize(config.data);
+  let previous = 0;
+  for (let step = 1; step <= UPLOAD_PROGRESS_STEPS; step++) {
+    await delay(config, delayMs / UPLOAD_PROGRESS_STEPS);
+    const loaded = Math.round((total * step) / UPLOAD_PROGRESS_STEPS);
+    onUploadProgress({
+      loaded,
+      total,
+      progress: total > 0 ? loaded / total : 1,
+      bytes: loaded - previous,
+      upload: true,
+      lengthComputable: true,
+    });
+    previous = loaded;
+  }
+};
+
+/**
+ * Adapter do axios que atende as requisições com `routes` em memória
+ *
+ * Substitui o transporte HTTP: interceptors, retry e decoders continuam
+ * rodando normalmente sobre as respostas simuladas.
+ */
+export const createMockAdapter = (
+  routes: MockRoute[],
+  store: MockStore,
+  options: MockAdapterOptions = {}
+): MockAdapter => {
+  let latencyMs = options.latencyMs ?? 0;
+  let errorRate = options.errorRate ?? 0;
+  const forcedFailures: number[] = [];
+
+  const handle = async (
+    config: InternalAxiosRequestConfig,
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    headers: Record<string, string>
+  ): Promise<MockResponse> => {
+    if (forcedFailures.length > 0) {
+      const status = forcedFailures.shift() as number;
+      return fail(status, STATUS_TEXT[status] || "Falha simulada");
+    }
+    if (errorRate > 0 && Math.random() < errorRate) {
+      return fail(503, "Serviço temporariamente indisponível");
+    }
+
+    const match = matchRoute(routes, method, path);
+    if (match === null) return fail(404, `Rota ${path} não encontrada`);
+    if (match === "method_not_allowed") {
+      return fail(405, `Método ${method.toUpperCase()} não permitido`);
+    }
+
+    const token = (headers.authorization || "").replace(/^Bearer /, "");
+    try {
+      return await match.handler({
+        method,
+        path,
+        params: match.params,
+        query,
+        headers,
+        body: parseBody(config.data),
+        user: token ? store.authenticate(token) : null,
+      });
+    } catch (error) {
+      console.error("Mock handler failed:", error);
+      return fail(500, "Erro interno do servidor");
+    }
+  };
+
+  const adapter: AxiosAdapter = async (config) => {
+    const method = (config.method || "get").toLowerCase();
+    const { path, query } = parseUrl(config);
+    const headers = readHeaders(config);
+
+    await delayWithUploadProgress(config, latencyMs);
+
+    const result = await handle(config, method, path, query, headers);
+    if (result.status === 0) {
+      throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config);
+    }
+
+    const response: AxiosResponse = {
+      data: result.status === 204 ? "" : result.data,
+      status: result.status,
+      statusText: STATUS_TEXT[result.status] || "",
+      headers: AxiosHeaders.from({
+        "content-type": "application/json",
+        ...result.headers,
+      }),
+      config,
+      request: { mock: true },
+    };
+
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) return response;
+
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  };
+
+  return {
+    adapter,
+    setLatency: (value) => {
+      latencyMs = Math.max(0, value);
+    },
+    setErrorRate: (value) => {
+      errorRate = Math.min(1, Math.max(0, value));
+    },
+    failNext: (status, times = 1) => {
+      for (let i = 0; i < times; i++) forcedFailures.push(status);
+    },
+  };
+};
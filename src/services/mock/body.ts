@@ -0,0 +1,22 @@
+export type MockBody = Record<string, unknown>;
+
+/**
+ * Lê o corpo JSON da requisição como objeto
+ *
+ * O corpo chega sem tipo: o que não for objeto vira `{}` e cada rota
+ * confere o tipo dos campos que usa, como os decoders fazem com as respostas.
+ */
+export const readBody = (body: unknown): MockBody =>
+  body && typeof body === "object" && !Array.isArray(body)
+    ? (body as MockBody)
+    : {};
+
+// Texto sem espaços nas pontas, ou "" quando o campo não é texto
+export const readText = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : "";
+
+export const isOneOf = <T extends string>(
+  values: readonly T[],
+  value: unknown
+): value is T =>
+  typeof value === "string" && (values as readonly string[]).includes(value);
@@ -0,0 +1,35 @@
+import { MockComment, MockPost } from "./types";
+
+// Alterações que o backend simulado anuncia pelo canal em tempo real
+export type MockEvent =
+  | { type: "post.created"; post: MockPost }
+  | { type: "post.updated"; post: MockPost }
+  | { type: "post.deleted"; postId: string }
+  | { type: "comment.created"; comment: MockComment };
+
+type MockEventListener = (event: MockEvent) => void;
+
+/**
+ * Barramento de eventos do backend simulado
+ *
+ * As rotas publicam depois de gravar no store; quem assina decide o que
+ * cada usuário pode receber (ver `subscribe` em `createMockBackend`).
+ */
+export const createMockEvents = () => {
+  const listeners = new Set<MockEventListener>();
+
+  return {
+    emit: (event: MockEvent) => {
+      listeners.forEach((listener) => listener(event));
+    },
+
+    subscribe: (listener: MockEventListener): (() => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export type MockEvents = ReturnType<typeof createMockEvents>;
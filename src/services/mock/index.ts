@@ -0,0 +1,132 @@
+import { MockSeed, MockRoute } from "./types";
+import { createMockStore, MockStoreOptions } from "./store";
+import { createMockEvents, MockEvent } from "./events";
+import { startMockActivity } from "./activity";
+import { createDefaultSeed } from "./seed";
+import { createMockAdapter, MockAdapterOptions } from "./adapter";
+import { createAuthRoutes } from "./routes/auth";
+import { createPostsRoutes, serializePost, canRead, isTeacher } from "./routes/posts";
+import { createCommentsRoutes, serializeComment } from "./routes/comments";
+import { createModerationRoutes } from "./routes/moderation";
+import { createMediaRoutes } from "./routes/media";
+import { createRevisionsRoutes } from "./routes/revisions";
+import { createTrashRoutes } from "./routes/trash";
+
+export interface MockBackendOptions extends MockAdapterOptions, MockStoreOptions {
+  seed?: MockSeed;
+}
+
+/**
+ * Backend simulado que implementa as rotas do API_CONTRACT.md em memória
+ *
+ * `adapter` pode ser usado diretamente como `adapter` de uma instância
+ * do axios. `store` expõe os dados para inspeção e `reset` volta ao seed.
+ * `subscribe` faz o papel do GET /events, entregando os mesmos payloads.
+ */
+export const createMockBackend = (options: MockBackendOptions = {}) => {
+  const seed = options.seed ?? createDefaultSeed();
+  const store = createMockStore(seed, options);
+  const events = createMockEvents();
+  const routes: MockRoute[] = [
+    ...createAuthRoutes(store),
+    ...createCommentsRoutes(store, events),
+    ...createRevisionsRoutes(store),
+    ...createModerationRoutes(store),
+    ...createMediaRoutes(store),
+    // Antes das rotas de posts: "/posts/trash" não pode cair em "/posts/:id"
+    ...createTrashRoutes(store, events),
+    ...createPostsRoutes(store, events),
+  ];
+  const mockAdapter = createMockAdapter(routes, store, options);
+
+  // Filtra cada evento pelo que o dono do token pode ler, como o servidor
+  const toPayload = (event: MockEvent, accessToken: string | null) => {
+    const user = accessToken ? store.authenticate(accessToken) : null;
+
+    switch (event.type) {
+      case "post.created":
+        return canRead(event.post, user)
+          ? { type: event.type, post: serializePost(event.post) }
+          : null;
+      case "post.updated":
+        // Post que deixou de ser visível some da lista de quem não pode lê-lo
+        return canRead(event.post, user)
+          ? { type: event.type, post: serializePost(event.post) }
+          : { type: "post.deleted", postId: event.post.id };
+      case "post.deleted":
+        return event;
+      case "comment.created": {
+        const post = store.posts.find(
+          (candidate) => candidate.id === event.comment.postId
+        );
+        const visible =
+          event.comment.status === "visible" || isTeacher(user);
+        return post && canRead(post, user) && visible
+          ? { type: event.type, comment: serializeComment(event.comment, user) }
+          : null;
+      }
+    }
+  };
+
+  return {
+    ...mockAdapter,
+    store,
+    reset: () => store.reset(seed),
+
+    subscribe: (
+      listener: (payload: unknown) => void,
+      getAccessToken: () => string | null = () => null
+    ) =>
+      events.subscribe((event) => {
+        const payload = toPayload(event, getAccessToken());
+        if (payload) listener(payload);
+      }),
+
+    startActivity: (intervalMs: number) =>
+      startMockActivity(store, events, intervalMs),
+  };
+};
+
+export type MockBackend = ReturnType<typeof createMockBackend>;
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return value && Number.isFinite(number) ? number : fallback;
+};
+
+let sharedBackend: MockBackend | null = null;
+
+/**
+ * Instância usada pela aplicação quando REACT_APP_USE_MOCK_API=true,
+ * configurada por REACT_APP_MOCK_LATENCY_MS, REACT_APP_MOCK_ERROR_RATE,
+ * REACT_APP_MOCK_REPORT_THRESHOLD, REACT_APP_MOCK_TRASH_RETENTION_DAYS e
+ * REACT_APP_MOCK_ACTIVITY_INTERVAL_MS
+ */
+export const getMockBackend = (): MockBackend => {
+  if (!sharedBackend) {
+    sharedBackend = createMockBackend({
+      latencyMs: readNumber(process.env.REACT_APP_MOCK_LATENCY_MS, 300),
+      errorRate: readNumber(process.env.REACT_APP_MOCK_ERROR_RATE, 0),
+      reportThreshold: readNumber(
+        process.env.REACT_APP_MOCK_REPORT_THRESHOLD,
+        3
+      ),
+      trashRetentionDays: readNumber(
+        process.env.REACT_APP_MOCK_TRASH_RETENTION_DAYS,
+        30
+      ),
+    });
+
+    const activityIntervalMs = readNumber(
+      process.env.REACT_APP_MOCK_ACTIVITY_INTERVAL_MS,
+      0
+    );
+    if (activityIntervalMs > 0) {
+      sharedBackend.startActivity(activityIntervalMs);
+    }
+  }
+  return sharedBackend;
+};
+
+export { createDefaultSeed };
+export type { MockSeed };
@@ -0,0 +1,35 @@
+import { MockResponse } from "./types";
+
+export const ok = (data: unknown): MockResponse => ({ status: 200, data });
+
+export const created = (data: unknown): MockResponse => ({ status: 201, data });
+
+export const noContent = (): MockResponse => ({ status: 204 });
+
+export const fail = (
+  status: number,
+  message: string,
+  errors?: string[]
+): MockResponse => ({
+  status,
+  data: errors && errors.length > 0 ? { message, errors } : { message },
+});
+
+export const unauthorized = () =>
+  fail(401, "Token de acesso inválido ou expirado");
+
+export const postNotFound = (id: string) =>
+  fail(404, "Post não encontrado", [`Post com ID '${id}' não existe`]);
+
+export const commentNotFound = (id: string) =>
+  fail(404, "Comentário não encontrado", [
+    `Comentário com ID '${id}' não existe`,
+  ]);
+
+export const teacherOnly = (role: string) =>
+  fail(403, "Apenas professores podem moderar comentários", [
+    `Role '${role}' não tem permissão para moderar comentários`,
+  ]);
+
+export const invalidInput = (errors: string[]) =>
+  fail(400, "Dados de entrada inválidos", errors);
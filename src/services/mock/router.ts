@@ -0,0 +1,44 @@
+import { MockRoute, MockHandler } from "./types";
+
+export interface RouteMatch {
+  handler: MockHandler;
+  params: Record<string, string>;
+}
+
+const splitPath = (path: string) => path.split("/").filter(Boolean);
+
+/**
+ * Encontra a rota que atende `method` + `path`
+ *
+ * Segmentos iniciados com `:` capturam parâmetros (ex.: `/posts/:id`).
+ * Retorna `null` quando nenhuma rota casa e `"method_not_allowed"`
+ * quando o caminho existe mas com outro método.
+ */
+export const matchRoute = (
+  routes: MockRoute[],
+  method: string,
+  path: string
+): RouteMatch | "method_not_allowed" | null => {
+  const segments = splitPath(path);
+  let pathMatched = false;
+
+  for (const route of routes) {
+    const routeSegments = splitPath(route.path);
+    if (routeSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = routeSegments.every((segment, index) => {
+      if (segment.startsWith(":")) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return segment === segments[index];
+    });
+    if (!matches) continue;
+
+    if (route.method === method) return { handler: route.handler, params };
+    pathMatched = true;
+  }
+
+  return pathMatched ? "method_not_allowed" : null;
+};
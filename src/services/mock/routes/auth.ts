@@ -0,0 +1,66 @@
+import { MockRoute } from "../types";
+import { MockStore } from "../store";
+import { ok, fail, unauthorized, invalidInput } from "../responses";
+import { readBody } from "../body";
+
+export const createAuthRoutes = (store: MockStore): MockRoute[] => [
+  {
+    method: "post",
+    path: "/auth/login",
+    handler: ({ body }) => {
+      const { username, password } = readBody(body);
+
+      const errors: string[] = [];
+      if (!username) errors.push("Username é obrigatório");
+      if (!password) errors.push("Password é obrigatório");
+      else if (String(password).length < 6) {
+        errors.push("Password deve ter pelo menos 6 caracteres");
+      }
+      if (errors.length > 0) return invalidInput(errors);
+
+      const user = store.users.find(
+        (candidate) =>
+          (candidate.username === username || candidate.email === username) &&
+          candidate.password === password
+      );
+      if (!user) {
+        return fail(401, "Credenciais inválidas", [
+          "Usuário ou senha incorretos",
+        ]);
+      }
+
+      return ok({
+        ...store.issueTokens(user),
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+        },
+      });
+    },
+  },
+  {
+    method: "post",
+    path: "/auth/refresh",
+    handler: ({ body }) => {
+      const { refreshToken } = readBody(body);
+      const tokens = refreshToken
+        ? store.rotateRefreshToken(String(refreshToken))
+        : null;
+      if (!tokens) return fail(401, "Refresh token inválido ou expirado");
+      return ok(tokens);
+    },
+  },
+  {
+    method: "post",
+    path: "/auth/logout",
+    handler: ({ headers, user }) => {
+      if (!user) return unauthorized();
+      store.revokeAccessToken(
+        (headers.authorization || "").replace(/^Bearer /, "")
+      );
+      return ok({ message: "Logout realizado com sucesso" });
+    },
+  },
+];
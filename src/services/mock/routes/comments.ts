@@ -0,0 +1,230 @@
+import { MockRoute, MockComment, MockUser, MockReportReason } from "../types";
+import { MockStore } from "../store";
+import { MockEvents } from "../events";
+import { isTeacher } from "./posts";
+import { readBody, readText, isOneOf } from "../body";
+import {
+  ok,
+  created,
+  noContent,
+  fail,
+  unauthorized,
+  postNotFound,
+  commentNotFound,
+  invalidInput,
+} from "../responses";
+
+export const serializeComment = (
+  comment: MockComment,
+  user: MockUser | null = null
+) => ({
+  id: comment.id,
+  postId: comment.postId,
+  ...(comment.authorId ? { authorId: comment.authorId } : {}),
+  ...(comment.parentId ? { parentId: comment.parentId } : {}),
+  author: comment.author,
+  content: comment.content,
+  status: comment.status,
+  flagged: comment.flagged,
+  reportCount: comment.reports.length,
+  reportedByMe:
+    !!user && comment.reports.some((report) => report.userId === user.id),
+  createdAt: comment.createdAt,
+  updatedAt: comment.updatedAt,
+});
+
+const REPORT_REASONS: MockReportReason[] = [
+  "spam",
+  "offensive",
+  "off_topic",
+  "other",
+];
+
+const validateContent = (body: unknown) => {
+  const content = readText(readBody(body).content);
+  const errors: string[] = [];
+  if (!content) errors.push("Content é obrigatório");
+  else if (content.length < 3) {
+    errors.push("Content deve ter pelo menos 3 caracteres");
+  }
+  return { content, errors };
+};
+
+// IDs do comentário e de todas as respostas abaixo dele, em qualquer nível
+const collectThread = (comments: MockComment[], commentId: string) => {
+  const ids = new Set([commentId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const comment of comments) {
+      if (comment.parentId && ids.has(comment.parentId) && !ids.has(comment.id)) {
+        ids.add(comment.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+};
+
+export const createCommentsRoutes = (
+  store: MockStore,
+  events: MockEvents
+): MockRoute[] => {
+  const findComment = (postId: string, commentId: string) =>
+    store.comments.find(
+      (comment) => comment.id === commentId && comment.postId === postId
+    );
+
+  return [
+    {
+      method: "get",
+      path: "/posts/:id/comments",
+      handler: ({ params, user }) => {
+        if (!store.posts.some((post) => post.id === params.id)) {
+          return postNotFound(params.id);
+        }
+
+        // Comentários ocultos só aparecem para professores
+        const includeHidden = isTeacher(user);
+        return ok(
+          store.comments
+            .filter(
+              (comment) =>
+                comment.postId === params.id &&
+                (includeHidden || comment.status === "visible")
+            )
+            .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+            .map((comment) => serializeComment(comment, user))
+        );
+      },
+    },
+    {
+      method: "post",
+      path: "/posts/:id/comments",
+      handler: ({ params, body, user }) => {
+        if (!user) return unauthorized();
+        if (!store.posts.some((post) => post.id === params.id)) {
+          return postNotFound(params.id);
+        }
+
+        const { content, errors } = validateContent(body);
+        const data = readBody(body);
+        const author = readText(data.author);
+        if (!author) errors.push("Author é obrigatório");
+        const parentId = data.parentId ? String(data.parentId) : undefined;
+        if (parentId && !findComment(params.id, parentId)) {
+          errors.push("ParentId deve ser um comentário deste post");
+        }
+        if (errors.length > 0) return invalidInput(errors);
+
+        const now = new Date().toISOString();
+        const comment: MockComment = {
+          id: store.nextId("comment"),
+          postId: params.id,
+          authorId: user.id,
+          parentId,
+          author,
+          content,
+          status: "visible",
+          flagged: false,
+          reports: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+        store.comments.push(comment);
+        events.emit({ type: "comment.created", comment });
+
+        return created(serializeComment(comment, user));
+      },
+    },
+    {
+      method: "put",
+      path: "/posts/:id/comments/:commentId",
+      handler: ({ params, body, user }) => {
+        if (!user) return unauthorized();
+        const comment = findComment(params.id, params.commentId);
+        if (!comment) return commentNotFound(params.commentId);
+        if (comment.authorId !== user.id) {
+          return fail(403, "Apenas o autor pode editar este comentário", [
+            "Usuário não tem permissão para editar este comentário",
+          ]);
+        }
+
+        const { content, errors } = validateContent(body);
+        if (errors.length > 0) return invalidInput(errors);
+
+        comment.content = content;
+        comment.updatedAt = new Date().toISOString();
+
+        return ok(serializeComment(comment, user));
+      },
+    },
+    {
+      method: "post",
+      path: "/posts/:id/comments/:commentId/reports",
+      handler: ({ params, body, user }) => {
+        if (!user) return unauthorized();
+        const comment = findComment(params.id, params.commentId);
+        if (!comment) return commentNotFound(params.commentId);
+        if (comment.authorId === user.id) {
+          return fail(403, "Não é possível denunciar o próprio comentário");
+        }
+        if (comment.reports.some((report) => report.userId === user.id)) {
+          return fail(409, "Comentário já denunciado", [
+            "Você já denunciou este comentário",
+          ]);
+        }
+
+        const data = readBody(body);
+        const reason = isOneOf(REPORT_REASONS, data.reason)
+          ? data.reason
+          : undefined;
+        const details = readText(data.details);
+        const errors: string[] = [];
+        if (!reason) {
+          errors.push("Reason deve ser spam, offensive, off_topic ou other");
+        }
+        if (details.length > 500) {
+          errors.push("Details deve ter no máximo 500 caracteres");
+        }
+        if (errors.length > 0 || !reason) return invalidInput(errors);
+
+        comment.reports.push({
+          userId: user.id,
+          reason,
+          ...(details ? { details } : {}),
+          createdAt: new Date().toISOString(),
+        });
+        comment.flagged = true;
+        // Oculta automaticamente até um professor revisar
+        if (comment.reports.length >= store.reportThreshold) {
+          comment.status = "hidden";
+        }
+
+        return created(serializeComment(comment, user));
+      },
+    },
+    {
+      method: "delete",
+      path: "/posts/:id/comments/:commentId",
+      handler: ({ params, user }) => {
+        if (!user) return unauthorized();
+        const comment = findComment(params.id, params.commentId);
+        if (!comment) return commentNotFound(params.commentId);
+        if (!isTeacher(user) && comment.authorId !== user.id) {
+          return fail(
+            403,
+            "Apenas o autor ou professores podem excluir este comentário",
+            ["Usuário não tem permissão para excluir este comentário"]
+          );
+        }
+
+        const removed = collectThread(store.comments, comment.id);
+        for (let i = store.comments.length - 1; i >= 0; i--) {
+          if (removed.has(store.comments[i].id)) store.comments.splice(i, 1);
+        }
+        return noContent();
+      },
+    },
+  ];
+};
@@ -0,0 +1,136 @@
+import { MockRoute, MockMedia } from "../types";
+import { MockStore } from "../store";
+import { isTeacher } from "./posts";
+import { ok, created, fail, unauthorized } from "../responses";
+
+export const MEDIA_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+];
+
+export const MAX_MEDIA_SIZE = 5 * 1024 * 1024;
+
+export const serializeMedia = (media: MockMedia) => ({
+  _id: media.id,
+  url: media.url,
+  filename: media.filename,
+  mimeType: media.mimeType,
+  size: media.size,
+  width: media.width,
+  height: media.height,
+  createdAt: media.createdAt,
+});
+
+const uploadersOnly = (role: string) =>
+  fail(403, "Apenas professores podem enviar imagens", [
+    `Role '${role}' não tem permissão para enviar imagens`,
+  ]);
+
+// O corpo chega como FormData; qualquer outro formato é tratado como vazio
+const readFormData = (body: unknown): FormData | null =>
+  body && typeof (body as FormData).get === "function"
+    ? (body as FormData)
+    : null;
+
+const readDimension = (value: FormDataEntryValue | null) => {
+  const number = Number(value);
+  return typeof value === "string" && Number.isInteger(number) && number > 0
+    ? number
+    : undefined;
+};
+
+const toDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Os dados vivem só em memória, então uma object URL basta e mantém o
+// conteúdo dos posts curto; data URL fica para ambientes sem ela (jsdom)
+const toUrl = (file: Blob) =>
+  typeof URL.createObjectURL === "function"
+    ? Promise.resolve(URL.createObjectURL(file))
+    : toDataUrl(file);
+
+export const createMediaRoutes = (store: MockStore): MockRoute[] => [
+  {
+    method: "get",
+    path: "/media",
+    handler: ({ query, user }) => {
+      if (!user) return unauthorized();
+      if (!isTeacher(user)) return uploadersOnly(user.role);
+
+      const page = Number(query.get("page") || 1);
+      const limit = Number(query.get("limit") || 10);
+
+      const errors: string[] = [];
+      if (!Number.isInteger(page) || page < 1) {
+        errors.push("Page deve ser um número positivo");
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+        errors.push("Limit deve estar entre 1 e 100");
+      }
+      if (errors.length > 0) {
+        return fail(400, "Parâmetros de query inválidos", errors);
+      }
+
+      const media = [...store.media].sort(
+        (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)
+      );
+      const start = (page - 1) * limit;
+
+      return ok({
+        media: media.slice(start, start + limit).map(serializeMedia),
+        total: media.length,
+        page,
+        limit,
+        totalPages: Math.max(1, Math.ceil(media.length / limit)),
+      });
+    },
+  },
+  {
+    method: "post",
+    path: "/media",
+    handler: async ({ body, user }) => {
+      if (!user) return unauthorized();
+      if (!isTeacher(user)) return uploadersOnly(user.role);
+
+      const form = readFormData(body);
+      const file = form?.get("file");
+      if (!form || !file || typeof file === "string") {
+        return fail(400, "Dados de entrada inválidos", [
+          "File é obrigatório",
+        ]);
+      }
+      if (!MEDIA_MIME_TYPES.includes(file.type)) {
+        return fail(415, "Tipo de arquivo não suportado", [
+          "File deve ser uma imagem JPEG, PNG, GIF ou WebP",
+        ]);
+      }
+      if (file.size > MAX_MEDIA_SIZE) {
+        return fail(413, "Arquivo muito grande", [
+          "File deve ter no máximo 5 MB",
+        ]);
+      }
+
+      const media: MockMedia = {
+        id: store.nextId("media"),
+        url: await toUrl(file),
+        filename: (file as File).name || "imagem",
+        mimeType: file.type,
+        size: file.size,
+        width: readDimension(form.get("width")),
+        height: readDimension(form.get("height")),
+        uploadedBy: user.id,
+        createdAt: new Date().toISOString(),
+      };
+      store.media.push(media);
+
+      return created(serializeMedia(media));
+    },
+  },
+];
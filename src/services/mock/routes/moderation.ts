@@ -0,0 +1,124 @@
+import { MockRoute, MockCommentStatus } from "../types";
+import { MockStore } from "../store";
+import { isTeacher } from "./posts";
+import { readBody, isOneOf } from "../body";
+import { serializeComment } from "./comments";
+import {
+  ok,
+  fail,
+  unauthorized,
+  commentNotFound,
+  invalidInput,
+  teacherOnly,
+} from "../responses";
+
+const STATUSES: MockCommentStatus[] = ["visible", "hidden"];
+
+const parseDate = (value: string | null) => {
+  if (value === null) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? NaN : time;
+};
+
+export const createModerationRoutes = (store: MockStore): MockRoute[] => [
+  {
+    method: "get",
+    path: "/comments",
+    handler: ({ query, user }) => {
+      if (!user) return unauthorized();
+      if (!isTeacher(user)) return teacherOnly(user.role);
+
+      const page = Number(query.get("page") || 1);
+      const limit = Number(query.get("limit") || 10);
+      const from = parseDate(query.get("from"));
+      const to = parseDate(query.get("to"));
+      const status = query.get("status");
+
+      const errors: string[] = [];
+      if (!Number.isInteger(page) || page < 1) {
+        errors.push("Page deve ser um número positivo");
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+        errors.push("Limit deve estar entre 1 e 100");
+      }
+      if (Number.isNaN(from) || Number.isNaN(to)) {
+        errors.push("From e To devem ser datas ISO 8601");
+      }
+      if (status && !isOneOf(STATUSES, status)) {
+        errors.push("Status deve ser visible ou hidden");
+      }
+      if (errors.length > 0) {
+        return fail(400, "Parâmetros de query inválidos", errors);
+      }
+
+      const postId = query.get("postId");
+      const author = (query.get("author") || "").trim().toLowerCase();
+      const flaggedOnly = query.get("flagged") === "true";
+
+      const matches = store.comments
+        .filter((comment) => {
+          const createdAt = Date.parse(comment.createdAt);
+          return (
+            (!postId || comment.postId === postId) &&
+            // Comentários de posts na lixeira ficam fora da fila
+            store.posts.some((post) => post.id === comment.postId) &&
+            (!author || comment.author.toLowerCase().includes(author)) &&
+            (from === undefined || createdAt >= from) &&
+            (to === undefined || createdAt <= to) &&
+            (!flaggedOnly || comment.flagged) &&
+            (!status || comment.status === status)
+          );
+        })
+        .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+
+      const start = (page - 1) * limit;
+      return ok({
+        comments: matches.slice(start, start + limit).map((comment) => ({
+          ...serializeComment(comment, user),
+          postTitle: store.posts.find((post) => post.id === comment.postId)
+            ?.title,
+          reportReasons: comment.reports.reduce<Record<string, number>>(
+            (counts, report) => ({
+              ...counts,
+              [report.reason]: (counts[report.reason] || 0) + 1,
+            }),
+            {}
+          ),
+        })),
+        total: matches.length,
+        page,
+        limit,
+        totalPages: Math.ceil(matches.length / limit),
+      });
+    },
+  },
+  {
+    method: "patch",
+    path: "/posts/:id/comments/:commentId/status",
+    handler: ({ params, body, user }) => {
+      if (!user) return unauthorized();
+      if (!isTeacher(user)) return teacherOnly(user.role);
+
+      const comment = store.comments.find(
+        (candidate) =>
+          candidate.id === params.commentId && candidate.postId === params.id
+      );
+      if (!comment) return commentNotFound(params.commentId);
+
+      const { status } = readBody(body);
+      if (!isOneOf(STATUSES, status)) {
+        return invalidInput(["Status deve ser visible ou hidden"]);
+      }
+
+      comment.status = status;
+      // Restaurar um comentário encerra a análise das denúncias
+      if (status === "visible") {
+        comment.flagged = false;
+        comment.reports = [];
+      }
+      // `updatedAt` marca só edições do texto: moderar não torna o comentário "editado"
+
+      return ok(serializeComment(comment, user));
+    },
+  },
+];
@@ -0,0 +1,374 @@
+import { MockRoute, MockPost, MockPostStatus, MockUser } from "../types";
+import { MockStore } from "../store";
+import { MockEvents } from "../events";
+import {
+  ok,
+  created,
+  noContent,
+  fail,
+  unauthorized,
+  postNotFound,
+  invalidInput,
+} from "../responses";
+import { recordRevision } from "./revisions";
+import { readBody, readText, isOneOf } from "../body";
+
+const SORT_FIELDS = ["createdAt", "updatedAt", "title"];
+
+const POST_STATUSES: MockPostStatus[] = [
+  "draft",
+  "published",
+  "scheduled",
+  "archived",
+];
+
+// Agendamentos cuja data já passou são tratados como publicados
+const effectiveStatus = (post: MockPost): MockPostStatus =>
+  post.status === "scheduled" &&
+  post.publishAt &&
+  Date.parse(post.publishAt) <= Date.now()
+    ? "published"
+    : post.status;
+
+// Alunos e visitantes só enxergam posts publicados
+export const canRead = (post: MockPost, user: MockUser | null) =>
+  isTeacher(user) || effectiveStatus(post) === "published";
+
+const toExcerpt = (content: string) => {
+  const text = content.replace(/<[^>]*>/g, "").trim();
+  return text.length <= 150 ? text : text.substring(0, 150) + "...";
+};
+
+export const serializePost = (post: MockPost, withExcerpt = false) => ({
+  id: post.id,
+  title: post.title,
+  content: post.content,
+  authorId: post.authorId,
+  authorName: post.authorName,
+  status: effectiveStatus(post),
+  ...(post.publishAt ? { publishAt: post.publishAt } : {}),
+  tags: [...post.tags],
+  ...(withExcerpt ? { excerpt: toExcerpt(post.content) } : {}),
+  createdAt: post.createdAt,
+  updatedAt: post.updatedAt,
+});
+
+export const isTeacher = (user: MockUser | null) =>
+  !!user && (user.role === "teacher" || user.role === "admin");
+
+const validatePostBody = (body: unknown) => {
+  const errors: string[] = [];
+  const data = readBody(body);
+  const title = readText(data.title);
+  const content = readText(data.content);
+
+  if (!title) errors.push("Title é obrigatório");
+  else if (title.length < 3) errors.push("Title deve ter pelo menos 3 caracteres");
+  if (!content) errors.push("Content é obrigatório");
+  else if (content.length < 10) {
+    errors.push("Content deve ter pelo menos 10 caracteres");
+  }
+
+  return { title, content, errors };
+};
+
+/**
+ * Valida status/publishAt e devolve os campos de publicação a gravar
+ *
+ * Sem status o post é publicado na hora, como antes do fluxo de publicação.
+ */
+const resolvePublication = (body: unknown, current?: MockPost) => {
+  const errors: string[] = [];
+  const data = readBody(body);
+  const status =
+    data.status ?? (current ? effectiveStatus(current) : "published");
+  if (!isOneOf(POST_STATUSES, status)) {
+    errors.push("Status deve ser draft, published, scheduled ou archived");
+    return { errors };
+  }
+
+  const now = new Date().toISOString();
+  let publishAt: string | undefined;
+  if (status === "scheduled") {
+    const requested = data.publishAt ?? current?.publishAt;
+    if (!requested) {
+      errors.push("PublishAt é obrigatório para posts agendados");
+    } else if (
+      typeof requested !== "string" ||
+      Number.isNaN(Date.parse(requested))
+    ) {
+      errors.push("PublishAt deve ser uma data ISO 8601");
+    } else if (Date.parse(requested) <= Date.now()) {
+      errors.push("PublishAt deve ser uma data futura");
+    } else {
+      publishAt = new Date(requested).toISOString();
+    }
+  } else if (status === "published") {
+    // Mantém a data original de posts que já estavam no ar
+    publishAt =
+      current && effectiveStatus(current) === "published"
+        ? current.publishAt ?? now
+        : now;
+  } else if (status === "archived") {
+    publishAt = current?.publishAt;
+  }
+
+  return { errors, status, publishAt };
+};
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+const normalizeTag = (tag: string) => tag.replace(/\s+/g, " ").trim();
+
+const sameTag = (a: string, b: string) =>
+  a.toLocaleLowerCase("pt-BR") === b.toLocaleLowerCase("pt-BR");
+
+// Valida e normaliza as tags do body; undefined mantém as tags atuais
+const resolveTags = (body: unknown, current: string[] = []) => {
+  const errors: string[] = [];
+  const requested = readBody(body).tags;
+  if (requested === undefined) return { errors, tags: current };
+  if (
+    !Array.isArray(requested) ||
+    requested.some((tag: unknown) => typeof tag !== "string")
+  ) {
+    errors.push("Tags deve ser uma lista de textos");
+    return { errors, tags: current };
+  }
+
+  const tags: string[] = [];
+  for (const raw of requested as string[]) {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.some((existing) => sameTag(existing, tag))) tags.push(tag);
+  }
+  if (tags.length > MAX_TAGS) {
+    errors.push(`Tags deve ter no máximo ${MAX_TAGS} itens`);
+  }
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH || tag.includes(","))) {
+    errors.push(
+      `Cada tag deve ter no máximo ${MAX_TAG_LENGTH} caracteres, sem vírgulas`
+    );
+  }
+  return { errors, tags };
+};
+
+const parsePositiveInt = (value: string | null, fallback: number) => {
+  if (value === null) return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) ? number : NaN;
+};
+
+export const createPostsRoutes = (
+  store: MockStore,
+  events: MockEvents
+): MockRoute[] => [
+  {
+    method: "get",
+    path: "/posts",
+    handler: ({ query, user }) => {
+      const page = parsePositiveInt(query.get("page"), 1);
+      const limit = parsePositiveInt(query.get("limit"), 10);
+      const sort = query.get("sort") || "createdAt";
+      const order = query.get("order") || "desc";
+      const status = query.get("status");
+
+      const errors: string[] = [];
+      if (!(page >= 1)) errors.push("Page deve ser um número positivo");
+      if (!(limit >= 1 && limit <= 100)) {
+        errors.push("Limit deve estar entre 1 e 100");
+      }
+      if (!SORT_FIELDS.includes(sort)) {
+        errors.push("Sort deve ser createdAt, updatedAt ou title");
+      }
+      if (order !== "asc" && order !== "desc") {
+        errors.push("Order deve ser asc ou desc");
+      }
+      if (status && !isOneOf(POST_STATUSES, status)) {
+        errors.push("Status deve ser draft, published, scheduled ou archived");
+      }
+      if (errors.length > 0) {
+        return fail(400, "Parâmetros de query inválidos", errors);
+      }
+
+      const search = (query.get("search") || "").trim().toLowerCase();
+      const tags = (query.get("tags") || "")
+        .split(",")
+        .map(normalizeTag)
+        .filter(Boolean);
+      const matches = store.posts.filter(
+        (post) =>
+          canRead(post, user) &&
+          (!status || effectiveStatus(post) === status) &&
+          tags.every((tag) => post.tags.some((own) => sameTag(own, tag))) &&
+          (!search ||
+            post.title.toLowerCase().includes(search) ||
+            post.content.toLowerCase().includes(search))
+      );
+
+      const direction = order === "asc" ? 1 : -1;
+      const key = sort as "createdAt" | "updatedAt" | "title";
+      matches.sort(
+        (a, b) =>
+          direction *
+          (key === "title"
+            ? a.title.localeCompare(b.title, "pt-BR")
+            : Date.parse(a[key]) - Date.parse(b[key]))
+      );
+
+      const start = (page - 1) * limit;
+      return ok({
+        posts: matches
+          .slice(start, start + limit)
+          .map((post) => serializePost(post, true)),
+        total: matches.length,
+        page,
+        limit,
+        totalPages: Math.ceil(matches.length / limit),
+      });
+    },
+  },
+  {
+    method: "get",
+    path: "/tags",
+    handler: ({ user }) => {
+      // Conta apenas posts que o usuário pode ler; a grafia da primeira ocorrência vence
+      const counts: { name: string; count: number }[] = [];
+      for (const post of store.posts) {
+        if (!canRead(post, user)) continue;
+        for (const tag of post.tags) {
+          const entry = counts.find((candidate) => sameTag(candidate.name, tag));
+          if (entry) entry.count += 1;
+          else counts.push({ name: tag, count: 1 });
+        }
+      }
+      return ok(
+        counts.sort(
+          (a, b) => b.count - a.count || a.name.localeCompare(b.name, "pt-BR")
+        )
+      );
+    },
+  },
+  {
+    method: "get",
+    path: "/posts/:id",
+    handler: ({ params, user }) => {
+      const post = store.posts.find((candidate) => candidate.id === params.id);
+      return post && canRead(post, user)
+        ? ok(serializePost(post))
+        : postNotFound(params.id);
+    },
+  },
+  {
+    method: "post",
+    path: "/posts",
+    handler: ({ body, user }) => {
+      if (!user) return unauthorized();
+      if (!isTeacher(user)) {
+        return fail(403, "Apenas professores podem criar posts", [
+          `Role '${user.role}' não tem permissão para criar posts`,
+        ]);
+      }
+
+      const { title, content, errors } = validatePostBody(body);
+      if (!readBody(body).authorId) errors.push("AuthorId é obrigatório");
+      const publication = resolvePublication(body);
+      const { tags, errors: tagErrors } = resolveTags(body);
+      errors.push(...publication.errors, ...tagErrors);
+      if (errors.length > 0 || !publication.status) {
+        return invalidInput(errors);
+      }
+
+      const now = new Date().toISOString();
+      const post: MockPost = {
+        id: store.nextId("post"),
+        title,
+        content,
+        authorId: user.id,
+        authorName: user.name,
+        status: publication.status,
+        ...(publication.publishAt ? { publishAt: publication.publishAt } : {}),
+        tags,
+        createdAt: now,
+        updatedAt: now,
+      };
+      store.posts.push(post);
+      recordRevision(store, post, user);
+      events.emit({ type: "post.created", post });
+
+      return created(serializePost(post));
+    },
+  },
+  {
+    method: "put",
+    path: "/posts/:id",
+    handler: ({ params, body, user }) => {
+      if (!user) return unauthorized();
+      const post = store.posts.find((candidate) => candidate.id === params.id);
+      if (!post) return postNotFound(params.id);
+      if (!isTeacher(user) && post.authorId !== user.id) {
+        return fail(403, "Apenas o autor ou professores podem editar este post", [
+          "Usuário não tem permissão para editar este post",
+        ]);
+      }
+      // Sem `updatedAt` no corpo a última gravação vence, como antes
+      const { updatedAt } = readBody(body);
+      if (
+        typeof updatedAt === "string" &&
+        Date.parse(updatedAt) !== Date.parse(post.updatedAt)
+      ) {
+        return fail(409, "Post foi modificado por outra pessoa", [
+          `Post foi atualizado em ${post.updatedAt}`,
+        ]);
+      }
+
+      const { title, content, errors } = validatePostBody(body);
+      const publication = resolvePublication(body, post);
+      const { tags, errors: tagErrors } = resolveTags(body, post.tags);
+      errors.push(...publication.errors, ...tagErrors);
+      if (errors.length > 0 || !publication.status) {
+        return invalidInput(errors);
+      }
+
+      post.title = title;
+      post.content = content;
+      post.status = publication.status;
+      post.publishAt = publication.publishAt;
+      post.tags = tags;
+      post.updatedAt = new Date().toISOString();
+      recordRevision(store, post, user);
+      events.emit({ type: "post.updated", post });
+
+      return ok(serializePost(post));
+    },
+  },
+  {
+    method: "delete",
+    path: "/posts/:id",
+    handler: ({ params, user }) => {
+      if (!user) return unauthorized();
+      const index = store.posts.findIndex(
+        (candidate) => candidate.id === params.id
+      );
+      if (index === -1) return postNotFound(params.id);
+      if (!isTeacher(user) && store.posts[index].authorId !== user.id) {
+        return fail(
+          403,
+          "Apenas o autor ou professores podem excluir este post",
+          ["Usuário não tem permissão para excluir este post"]
+        );
+      }
+
+      // Vai para a lixeira com comentários e revisões; ver routes/trash.ts
+      const [post] = store.posts.splice(index, 1);
+      store.trash.push({
+        post,
+        deletedAt: new Date().toISOString(),
+        deletedById: user.id,
+        deletedByName: user.name,
+      });
+      events.emit({ type: "post.deleted", postId: params.id });
+      return noContent();
+    },
+  },
+];
@@ -0,0 +1,102 @@
+import { MockRoute, MockPost, MockRevision, MockUser } from "../types";
+import { MockStore } from "../store";
+import { isTeacher } from "./posts";
+import { ok, fail, unauthorized, postNotFound } from "../responses";
+
+/**
+ * Guarda o estado atual do post como uma nova revisão
+ *
+ * Chamado depois de cada criação e edição, com o usuário que salvou.
+ */
+export const recordRevision = (
+  store: MockStore,
+  post: MockPost,
+  user: MockUser
+) => {
+  store.revisions.push({
+    id: store.nextId("revision"),
+    postId: post.id,
+    title: post.title,
+    content: post.content,
+    status: post.status,
+    tags: [...post.tags],
+    authorId: user.id,
+    authorName: user.name,
+    createdAt: post.updatedAt,
+  });
+};
+
+const serializeRevision = (revision: MockRevision, withContent: boolean) => ({
+  id: revision.id,
+  postId: revision.postId,
+  title: revision.title,
+  ...(withContent
+    ? {
+        content: revision.content,
+        status: revision.status,
+        tags: [...revision.tags],
+      }
+    : {}),
+  authorId: revision.authorId,
+  authorName: revision.authorName,
+  createdAt: revision.createdAt,
+});
+
+const revisionNotFound = (id: string) =>
+  fail(404, "Revisão não encontrada", [`Revisão com ID '${id}' não existe`]);
+
+export const createRevisionsRoutes = (store: MockStore): MockRoute[] => {
+  // O histórico segue a permissão de edição do post
+  const findEditablePost = (id: string, user: MockUser | null) => {
+    if (!user) return { error: unauthorized() };
+    const post = store.posts.find((candidate) => candidate.id === id);
+    if (!post) return { error: postNotFound(id) };
+    if (!isTeacher(user) && post.authorId !== user.id) {
+      return {
+        error: fail(
+          403,
+          "Apenas o autor ou professores podem ver o histórico deste post",
+          ["Usuário não tem permissão para ver o histórico deste post"]
+        ),
+      };
+    }
+    return { post };
+  };
+
+  return [
+    {
+      method: "get",
+      path: "/posts/:id/revisions",
+      handler: ({ params, user }) => {
+        const { error } = findEditablePost(params.id, user);
+        if (error) return error;
+
+        const revisions = store.revisions
+          .filter((revision) => revision.postId === params.id)
+          // Edições no mesmo milissegundo mantêm a ordem de gravação
+          .reverse()
+          .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+          .map((revision) => serializeRevision(revision, false));
+
+        return ok({ revisions });
+      },
+    },
+    {
+      method: "get",
+      path: "/posts/:id/revisions/:revisionId",
+      handler: ({ params, user }) => {
+        const { error } = findEditablePost(params.id, user);
+        if (error) return error;
+
+        const revision = store.revisions.find(
+          (candidate) =>
+            candidate.id === params.revisionId &&
+            candidate.postId === params.id
+        );
+        return revision
+          ? ok(serializeRevision(revision, true))
+          : revisionNotFound(params.revisionId);
+      },
+    },
+  ];
+};
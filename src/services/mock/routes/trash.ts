@@ -0,0 +1,110 @@
+import { MockRoute, MockTrashedPost, MockUser } from "../types";
+import { MockStore } from "../store";
+import { MockEvents } from "../events";
+import { serializePost, isTeacher } from "./posts";
+import { ok, noContent, fail, unauthorized, postNotFound } from "../responses";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const purgeAt = (store: MockStore, entry: MockTrashedPost) =>
+  Date.parse(entry.deletedAt) + store.trashRetentionDays * DAY_MS;
+
+// Exclusão definitiva: o post leva junto comentários e revisões
+const destroy = (store: MockStore, postId: string) => {
+  const index = store.trash.findIndex((entry) => entry.post.id === postId);
+  if (index !== -1) store.trash.splice(index, 1);
+  for (let i = store.comments.length - 1; i >= 0; i--) {
+    if (store.comments[i].postId === postId) store.comments.splice(i, 1);
+  }
+  for (let i = store.revisions.length - 1; i >= 0; i--) {
+    if (store.revisions[i].postId === postId) store.revisions.splice(i, 1);
+  }
+};
+
+/**
+ * Apaga de vez os posts cujo prazo na lixeira venceu
+ *
+ * Um servidor real rodaria isso periodicamente; aqui roda a cada acesso
+ * à lixeira, o que basta para ninguém ver um post vencido.
+ */
+const purgeExpired = (store: MockStore) => {
+  const now = Date.now();
+  store.trash
+    .filter((entry) => purgeAt(store, entry) <= now)
+    .forEach((entry) => destroy(store, entry.post.id));
+};
+
+const serializeTrashedPost = (store: MockStore, entry: MockTrashedPost) => ({
+  ...serializePost(entry.post, true),
+  deletedAt: entry.deletedAt,
+  deletedById: entry.deletedById,
+  deletedByName: entry.deletedByName,
+  purgeAt: new Date(purgeAt(store, entry)).toISOString(),
+});
+
+const teacherOnly = (user: MockUser) =>
+  fail(403, "Apenas professores podem acessar a lixeira", [
+    `Role '${user.role}' não tem permissão para acessar a lixeira`,
+  ]);
+
+export const createTrashRoutes = (
+  store: MockStore,
+  events: MockEvents
+): MockRoute[] => {
+  // Toda rota da lixeira exige professor e descarta antes o que venceu
+  const authorize = (user: MockUser | null) => {
+    if (!user) return unauthorized();
+    if (!isTeacher(user)) return teacherOnly(user);
+    purgeExpired(store);
+    return null;
+  };
+
+  const findTrashed = (id: string) =>
+    store.trash.find((entry) => entry.post.id === id);
+
+  return [
+    {
+      method: "get",
+      path: "/posts/trash",
+      handler: ({ user }) => {
+        const error = authorize(user);
+        if (error) return error;
+
+        return ok({
+          posts: [...store.trash]
+            .sort((a, b) => Date.parse(b.deletedAt) - Date.parse(a.deletedAt))
+            .map((entry) => serializeTrashedPost(store, entry)),
+          retentionDays: store.trashRetentionDays,
+        });
+      },
+    },
+    {
+      method: "post",
+      path: "/posts/trash/:id/restore",
+      handler: ({ params, user }) => {
+        const error = authorize(user);
+        if (error) return error;
+        const entry = findTrashed(params.id);
+        if (!entry) return postNotFound(params.id);
+
+        store.trash.splice(store.trash.indexOf(entry), 1);
+        store.posts.push(entry.post);
+        events.emit({ type: "post.created", post: entry.post });
+
+        return ok(serializePost(entry.post));
+      },
+    },
+    {
+      method: "delete",
+      path: "/posts/trash/:id",
+      handler: ({ params, user }) => {
+        const error = authorize(user);
+        if (error) return error;
+        if (!findTrashed(params.id)) return postNotFound(params.id);
+
+        destroy(store, params.id);
+        return noContent();
+      },
+    },
+  ];
+};
@@ -0,0 +1,238 @@
+import { MockSeed, MockPost, MockMedia, MockRevision } from "./types";
+
+const daysAgo = (days: number, hour = 10) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date.toISOString();
+};
+
+const SUBJECTS = [
+  {
+    title: "Introdução às frações",
+    tags: ["Matemática", "Frações"],
+    content:
+      "<p>Frações representam partes de um todo. Nesta aula vamos ver <strong>numerador</strong> e <strong>denominador</strong>.</p>",
+  },
+  {
+    title: "A Revolução Francesa",
+    tags: ["História", "Europa"],
+    content:
+      "<p>Em 1789 a queda da Bastilha marcou o início de um período de transformações políticas e sociais na França.</p>",
+  },
+  {
+    title: "Ciclo da água",
+    tags: ["Ciências", "Meio ambiente"],
+    content:
+      "<p>Evaporação, condensação e precipitação: entenda como a água circula no planeta.</p>",
+  },
+  {
+    title: "Verbos no pretérito perfeito",
+    tags: ["Português", "Gramática"],
+    content:
+      "<p>O pretérito perfeito indica uma ação concluída no passado. Exemplos: <em>eu estudei</em>, <em>nós lemos</em>.</p>",
+  },
+  {
+    title: "Equações do primeiro grau",
+    tags: ["Matemática", "Álgebra"],
+    content:
+      "<p>Uma equação do primeiro grau tem a forma <strong>ax + b = 0</strong>. Vamos resolver alguns exemplos.</p>",
+  },
+  {
+    title: "O Brasil Colônia",
+    tags: ["História", "Brasil"],
+    content:
+      "<p>De 1500 a 1822 o Brasil foi colônia de Portugal. Conheça os ciclos econômicos do período.</p>",
+  },
+];
+
+// Ilustração simples em SVG para a biblioteca de mídia inicial
+const placeholderImage = (color: string, label: string) =>
+  "data:image/svg+xml;charset=utf-8," +
+  encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="360">` +
+      `<rect width="100%" height="100%" fill="${color}"/>` +
+      `<text x="50%" y="50%" font-family="sans-serif" font-size="40" fill="#fff" text-anchor="middle" dominant-baseline="middle">${label}</text>` +
+      `</svg>`
+  );
+
+const MEDIA = [
+  { label: "Frações", color: "#2563eb", filename: "fracoes.svg" },
+  { label: "Ciclo da água", color: "#0891b2", filename: "ciclo-da-agua.svg" },
+];
+
+/**
+ * Dados iniciais do backend simulado
+ *
+ * Usuários de teste: `professor` / `senha123` e `aluno` / `senha123`.
+ */
+export const createDefaultSeed = (): MockSeed => {
+  const posts = Array.from({ length: 24 }, (_, index): MockPost => {
+    const subject = SUBJECTS[index % SUBJECTS.length];
+    const part = Math.floor(index / SUBJECTS.length) + 1;
+    const createdAt = daysAgo(24 - index);
+
+    return {
+      id: `post-${index + 1}`,
+      title: part > 1 ? `${subject.title} (parte ${part})` : subject.title,
+      content: subject.content,
+      authorId: index % 3 === 0 ? "user-2" : "user-1",
+      authorName: index % 3 === 0 ? "Ana Souza" : "João Silva",
+      status: "published",
+      publishAt: createdAt,
+      tags: [...subject.tags],
+      createdAt,
+      updatedAt: createdAt,
+    };
+  });
+
+  // Alguns posts fora do ar para exercitar o fluxo de publicação
+  posts[19].status = "archived";
+  posts[20].status = "scheduled";
+  posts[20].publishAt = daysAgo(-3);
+  posts[21].status = "draft";
+  delete posts[21].publishAt;
+
+  // Histórico inicial: a versão criada por cada autor
+  const revisions = posts.map(
+    (post): MockRevision => ({
+      id: `revision-${post.id}-1`,
+      postId: post.id,
+      title: post.title,
+      content: post.content,
+      status: post.status,
+      tags: [...post.tags],
+      authorId: post.authorId,
+      authorName: post.authorName,
+      createdAt: post.createdAt,
+    })
+  );
+
+  // O último post recebeu uma revisão de outra professora
+  const latest = posts[23];
+  revisions[23].content =
+    "<p>De 1500 a 1822 o Brasil foi colônia de Portugal.</p>";
+  latest.updatedAt = daysAgo(0, 0);
+  revisions.push({
+    id: `revision-${latest.id}-2`,
+    postId: latest.id,
+    title: latest.title,
+    content: latest.content,
+    status: latest.status,
+    tags: [...latest.tags],
+    authorId: "user-2",
+    authorName: "Ana Souza",
+    createdAt: latest.updatedAt,
+  });
+
+  return {
+    users: [
+      {
+        id: "user-1",
+        username: "professor",
+        password: "senha123",
+        name: "João Silva",
+        email: "joao@escola.com",
+        role: "teacher",
+      },
+      {
+        id: "user-2",
+        username: "ana",
+        password: "senha123",
+        name: "Ana Souza",
+        email: "ana@escola.com",
+        role: "teacher",
+      },
+      {
+        id: "user-3",
+        username: "aluno",
+        password: "senha123",
+        name: "Maria Santos",
+        email: "maria@escola.com",
+        role: "student",
+      },
+    ],
+    posts,
+    comments: [
+      {
+        id: "comment-1",
+        postId: "post-24",
+        authorId: "user-3",
+        author: "Maria Santos",
+        content: "Excelente aula! Muito esclarecedor.",
+        status: "visible",
+        flagged: false,
+        reports: [],
+        createdAt: daysAgo(1, 11),
+        updatedAt: daysAgo(1, 11),
+      },
+      {
+        id: "comment-2",
+        postId: "post-24",
+        author: "Pedro Costa",
+        content: "Obrigado por compartilhar essas informações.",
+        status: "visible",
+        flagged: false,
+        reports: [],
+        createdAt: daysAgo(1, 12),
+        updatedAt: daysAgo(1, 12),
+      },
+      {
+        id: "comment-3",
+        postId: "post-24",
+        authorId: "user-1",
+        parentId: "comment-1",
+        author: "João Silva",
+        content: "Obrigado, Maria! Na próxima aula vamos aprofundar o tema.",
+        status: "visible",
+        flagged: false,
+        reports: [],
+        createdAt: daysAgo(1, 13),
+        updatedAt: daysAgo(1, 13),
+      },
+      {
+        id: "comment-4",
+        postId: "post-23",
+        author: "Pedro Costa",
+        content: "Ninguém precisa disso, essa matéria é inútil.",
+        status: "visible",
+        flagged: true,
+        reports: [
+          { userId: "user-3", reason: "offensive", createdAt: daysAgo(1, 9) },
+        ],
+        createdAt: daysAgo(2, 15),
+        updatedAt: daysAgo(2, 15),
+      },
+      {
+        id: "comment-5",
+        postId: "post-23",
+        author: "Conta Promocional",
+        content: "Compre seguidores baratos em spam.example!",
+        status: "hidden",
+        flagged: true,
+        reports: ["user-3", "student-4", "student-5"].map((userId) => ({
+          userId,
+          reason: "spam" as const,
+          createdAt: daysAgo(2, 17),
+        })),
+        createdAt: daysAgo(2, 16),
+        updatedAt: daysAgo(2, 16),
+      },
+    ],
+    revisions,
+    media: MEDIA.map(({ label, color, filename }, index): MockMedia => {
+      const url = placeholderImage(color, label);
+      return {
+        id: `media-${index + 1}`,
+        url,
+        filename,
+        mimeType: "image/svg+xml",
+        size: url.length,
+        width: 640,
+        height: 360,
+        uploadedBy: "user-1",
+        createdAt: daysAgo(10 - index),
+      };
+    }),
+  };
+};
@@ -0,0 +1,156 @@
+import {
+  MockSeed,
+  MockUser,
+  MockPost,
+  MockComment,
+  MockMedia,
+  MockRevision,
+  MockTrashedPost,
+} from "./types";
+
+export interface MockStoreOptions {
+  accessTokenTtlMs?: number;
+  refreshTokenTtlMs?: number;
+  // Denúncias necessárias para ocultar um comentário automaticamente
+  reportThreshold?: number;
+  // Dias que um post excluído fica na lixeira antes de sumir de vez
+  trashRetentionDays?: number;
+}
+
+interface IssuedToken {
+  userId: string;
+  expiresAt: number;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_REPORT_THRESHOLD = 3;
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const base64Url = (value: string) =>
+  btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// JWT sem assinatura, apenas para o cliente conseguir ler `exp`
+const createJwt = (payload: Record<string, unknown>) =>
+  [
+    base64Url(JSON.stringify({ alg: "none", typ: "JWT" })),
+    base64Url(JSON.stringify(payload)),
+    "mock-signature",
+  ].join(".");
+
+/**
+ * Estado em memória do backend simulado
+ *
+ * Guarda usuários, posts, comentários, mídias, revisões e a lixeira, e emite/valida tokens. Cada
+ * instância é independente, o que permite isolar testes.
+ */
+export const createMockStore = (
+  seed: MockSeed,
+  options: MockStoreOptions = {}
+) => {
+  const accessTokenTtlMs =
+    options.accessTokenTtlMs ?? DEFAULT_ACCESS_TOKEN_TTL_MS;
+  const refreshTokenTtlMs =
+    options.refreshTokenTtlMs ?? DEFAULT_REFRESH_TOKEN_TTL_MS;
+
+  // Cópia profunda: o seed não pode ser alterado pelas rotas
+  const clone = <T>(items: T[]): T[] => JSON.parse(JSON.stringify(items));
+
+  const users: MockUser[] = [];
+  const posts: MockPost[] = [];
+  const comments: MockComment[] = [];
+  const media: MockMedia[] = [];
+  const revisions: MockRevision[] = [];
+  const trash: MockTrashedPost[] = [];
+  const accessTokens = new Map<string, IssuedToken>();
+  const refreshTokens = new Map<string, IssuedToken>();
+  let sequence = 0;
+
+  // Substitui o conteúdo mantendo as mesmas referências de array
+  const load = (data: MockSeed) => {
+    users.splice(0, users.length, ...clone(data.users));
+    posts.splice(0, posts.length, ...clone(data.posts));
+    comments.splice(0, comments.length, ...clone(data.comments));
+    media.splice(0, media.length, ...clone(data.media));
+    revisions.splice(0, revisions.length, ...clone(data.revisions));
+    trash.splice(0, trash.length, ...clone(data.trash ?? []));
+    accessTokens.clear();
+    refreshTokens.clear();
+  };
+  load(seed);
+
+  const nextId = (prefix: string) => {
+    sequence += 1;
+    return `${prefix}-${Date.now().toString(36)}${sequence}`;
+  };
+
+  const issueTokens = (user: MockUser) => {
+    const now = Date.now();
+    const accessToken = createJwt({
+      sub: user.id,
+      role: user.role,
+      iat: Math.floor(now / 1000),
+      exp: Math.floor((now + accessTokenTtlMs) / 1000),
+      jti: nextId("at"),
+    });
+    const refreshToken = nextId("rt");
+
+    accessTokens.set(accessToken, {
+      userId: user.id,
+      expiresAt: now + accessTokenTtlMs,
+    });
+    refreshTokens.set(refreshToken, {
+      userId: user.id,
+      expiresAt: now + refreshTokenTtlMs,
+    });
+
+    return { accessToken, refreshToken };
+  };
+
+  const findValid = (tokens: Map<string, IssuedToken>, token: string) => {
+    const issued = tokens.get(token);
+    if (!issued) return null;
+    if (issued.expiresAt <= Date.now()) {
+      tokens.delete(token);
+      return null;
+    }
+    return users.find((user) => user.id === issued.userId) || null;
+  };
+
+  return {
+    reportThreshold: options.reportThreshold ?? DEFAULT_REPORT_THRESHOLD,
+    trashRetentionDays:
+      options.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+    users,
+    posts,
+    comments,
+    media,
+    revisions,
+    trash,
+    nextId,
+    issueTokens,
+
+    authenticate: (accessToken: string): MockUser | null =>
+      findValid(accessTokens, accessToken),
+
+    // Refresh tokens são de uso único: cada renovação invalida o anterior
+    rotateRefreshToken: (refreshToken: string) => {
+      const user = findValid(refreshTokens, refreshToken);
+      if (!user) return null;
+      refreshTokens.delete(refreshToken);
+      return issueTokens(user);
+    },
+
+    revokeAccessToken: (accessToken: string) => {
+      accessTokens.delete(accessToken);
+    },
+
+    expireAccessTokens: () => {
+      accessTokens.clear();
+    },
+
+    reset: (data: MockSeed = seed) => load(data),
+  };
+};
+
+export type MockStore = ReturnType<typeof createMockStore>;
@@ -0,0 +1,124 @@
+export type MockRole = "student" | "teacher" | "admin";
+
+export interface MockUser {
+  id: string;
+  username: string;
+  password: string;
+  name: string;
+  email: string;
+  role: MockRole;
+}
+
+export type MockPostStatus = "draft" | "published" | "scheduled" | "archived";
+
+export interface MockPost {
+  id: string;
+  title: string;
+  content: string;
+  authorId: string;
+  authorName: string;
+  status: MockPostStatus;
+  // Ausente em rascunhos que nunca foram publicados
+  publishAt?: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Post excluído, guardado até ser restaurado ou vencer o prazo da lixeira
+export interface MockTrashedPost {
+  post: MockPost;
+  deletedAt: string;
+  deletedById: string;
+  deletedByName: string;
+}
+
+// Retrato de um post após cada criação ou edição
+export interface MockRevision {
+  id: string;
+  postId: string;
+  title: string;
+  content: string;
+  status: MockPostStatus;
+  tags: string[];
+  // Quem salvou esta versão
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+}
+
+export type MockCommentStatus = "visible" | "hidden";
+
+export type MockReportReason = "spam" | "offensive" | "off_topic" | "other";
+
+export interface MockReport {
+  userId: string;
+  reason: MockReportReason;
+  details?: string;
+  createdAt: string;
+}
+
+export interface MockComment {
+  id: string;
+  postId: string;
+  // Comentários antigos não registravam o autor, apenas o nome
+  authorId?: string;
+  parentId?: string;
+  author: string;
+  content: string;
+  status: MockCommentStatus;
+  flagged: boolean;
+  reports: MockReport[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockMedia {
+  id: string;
+  // Object URL ou data URL com o conteúdo do arquivo
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+export interface MockSeed {
+  users: MockUser[];
+  posts: MockPost[];
+  comments: MockComment[];
+  media: MockMedia[];
+  revisions: MockRevision[];
+  trash?: MockTrashedPost[];
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  // JSON já interpretado ou FormData; as rotas validam antes de usar
+  body: unknown;
+  // Usuário autenticado pelo header Authorization, se houver
+  user: MockUser | null;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler = (
+  request: MockRequest
+) => MockResponse | Promise<MockResponse>;
+
+export interface MockRoute {
+  method: string;
+  path: string;
+  handler: MockHandler;
+}
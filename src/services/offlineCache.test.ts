@@ -0,0 +1,174 @@
+import type { Comment, Post } from "./api";
+import { offlineCache } from "./offlineCache";
+
+/**
+ * IndexedDB em memória, só com o que o offlineCache usa
+ *
+ * As requisições respondem em microtasks e a transação termina no próximo
+ * timer, depois de todas elas.
+ */
+const createFakeIndexedDB = () => {
+  const stores = new Map<string, Map<string, unknown>>();
+
+  const request = <T>(run: () => T) => {
+    const fake = {
+      result: undefined as T | undefined,
+      onsuccess: null as (() => void) | null,
+      onerror: null as (() => void) | null,
+    };
+    Promise.resolve().then(() => {
+      fake.result = run();
+      fake.onsuccess?.();
+    });
+    return fake;
+  };
+
+  const objectStore = (name: string, keyPath: string) => {
+    const records = stores.get(name) as Map<string, unknown>;
+    return {
+      get: (key: string) => request(() => records.get(key)),
+      getAll: () => request(() => Array.from(records.values())),
+      put: (value: Record<string, string>) =>
+        request(() => records.set(value[keyPath], value)),
+      delete: (key: string) => request(() => records.delete(key)),
+      clear: () => request(() => records.clear()),
+    };
+  };
+
+  const keyPaths = new Map<string, string>();
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string, { keyPath }: { keyPath: string }) => {
+      stores.set(name, new Map());
+      keyPaths.set(name, keyPath);
+    },
+    transaction: () => {
+      const transaction = {
+        oncomplete: null as (() => void) | null,
+        onerror: null,
+        onabort: null,
+        objectStore: (name: string) =>
+          objectStore(name, keyPaths.get(name) as string),
+      };
+      setTimeout(() => transaction.oncomplete?.());
+      return transaction;
+    },
+  };
+
+  return {
+    stores,
+    open: () => {
+      const openRequest = {
+        result: db,
+        onupgradeneeded: null as (() => void) | null,
+        onsuccess: null as (() => void) | null,
+        onerror: null,
+      };
+      Promise.resolve().then(() => {
+        openRequest.onupgradeneeded?.();
+        openRequest.onsuccess?.();
+      });
+      return openRequest;
+    },
+  };
+};
+
+const fakeIndexedDB = createFakeIndexedDB();
+
+const makePost = (id: string, overrides: Partial<Post> = {}): Post => ({
+  _id: id,
+  title: `Post ${id}`,
+  author: "João Silva",
+  authorId: "user-1",
+  content: `<p>Conteúdo do post ${id}</p>`,
+  status: "published",
+  tags: [],
+  createdAt: "2024-01-15T10:30:00Z",
+  updatedAt: "2024-01-15T10:30:00Z",
+  ...overrides,
+});
+
+const makeComment = (id: string, overrides: Partial<Comment> = {}): Comment => ({
+  _id: id,
+  postId: "post-1",
+  author: "Maria Santos",
+  content: `Comentário ${id}`,
+  status: "visible",
+  flagged: false,
+  reportCount: 0,
+  reportedByMe: false,
+  createdAt: "2024-01-15T14:30:00Z",
+  updatedAt: "2024-01-15T14:30:00Z",
+  ...overrides,
+});
+
+const SYNCED_AT = Date.parse("2024-01-16T10:00:00Z");
+
+beforeAll(() => {
+  (window as unknown as { indexedDB: unknown }).indexedDB = fakeIndexedDB;
+});
+
+afterAll(() => {
+  delete (window as unknown as { indexedDB?: unknown }).indexedDB;
+});
+
+beforeEach(async () => {
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  await offlineCache.load("user-1");
+  fakeIndexedDB.stores.forEach((records, name) => {
+    if (name !== "meta") records.clear();
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("offlineCache.saveComments", () => {
+  it("grava os comentários visíveis de posts públicos", async () => {
+    await offlineCache.saveComments(
+      makePost("post-1"),
+      [makeComment("comment-1"), makeComment("comment-2", { status: "hidden" })],
+      SYNCED_AT
+    );
+
+    const cached = await offlineCache.getComments("post-1");
+
+    expect(cached?.syncedAt).toBe(SYNCED_AT);
+    expect(cached?.comments.map((comment) => comment._id)).toEqual([
+      "comment-1",
+    ]);
+  });
+
+  it("não grava comentários de rascunhos nem de agendamentos", async () => {
+    await offlineCache.saveComments(
+      makePost("post-1", { status: "draft" }),
+      [makeComment("comment-1")],
+      SYNCED_AT
+    );
+    await offlineCache.saveComments(
+      makePost("post-2", { status: "scheduled", publishAt: "2999-01-01T00:00:00Z" }),
+      [makeComment("comment-2", { postId: "post-2" })],
+      SYNCED_AT
+    );
+
+    await expect(offlineCache.getComments("post-1")).resolves.toBeNull();
+    await expect(offlineCache.getComments("post-2")).resolves.toBeNull();
+  });
+
+  it("apaga os comentários já gravados quando o post deixa de ser público", async () => {
+    await offlineCache.saveComments(
+      makePost("post-1"),
+      [makeComment("comment-1")],
+      SYNCED_AT
+    );
+
+    await offlineCache.saveComments(
+      makePost("post-1", { status: "archived" }),
+      [makeComment("comment-1")],
+      SYNCED_AT
+    );
+
+    await expect(offlineCache.getComments("post-1")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,376 @@
+import type { Comment, Post, PostsResponse } from "./api";
+import { isPostPublic } from "../utils/postStatus";
+
+export interface OfflinePost {
+  post: Post;
+  // Quando esta versão veio do servidor (ms)
+  syncedAt: number;
+}
+
+export interface OfflineList {
+  key: string;
+  ids: string[];
+  pagination: Pick<PostsResponse, "page" | "limit" | "total" | "totalPages">;
+  syncedAt: number;
+}
+
+export interface OfflineComments {
+  comments: Comment[];
+  syncedAt: number;
+}
+
+// Tudo o que é lido do dispositivo ao abrir o app
+export interface OfflineSnapshot {
+  posts: OfflinePost[];
+  lists: OfflineList[];
+  // Posts marcados como "disponível offline"
+  offlineIds: string[];
+}
+
+// Um registro por post: a versão salva, os comentários e a marcação
+interface PostRecord {
+  id: string;
+  post?: Post;
+  syncedAt: number;
+  comments?: Comment[];
+  commentsSyncedAt?: number;
+  offline: boolean;
+  // Tamanho aproximado em bytes, usado no limite de espaço
+  size: number;
+}
+
+const DB_NAME = "tech-challenge-offline";
+const DB_VERSION = 2;
+const POSTS_STORE = "posts";
+const LISTS_STORE = "lists";
+const META_STORE = "meta";
+const OWNER_KEY = "owner";
+
+// Usuário a quem a cópia pertence; `null` para visitantes sem login
+interface OwnerRecord {
+  key: typeof OWNER_KEY;
+  ownerId: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EVICTION_DELAY_MS = 5000;
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number > 0 ? number : fallback;
+};
+
+const MAX_BYTES =
+  readNumber(process.env.REACT_APP_OFFLINE_CACHE_MAX_MB, 10) * 1024 * 1024;
+const MAX_AGE_MS =
+  readNumber(process.env.REACT_APP_OFFLINE_CACHE_MAX_AGE_DAYS, 30) * DAY_MS;
+
+// Strings em JavaScript usam 2 bytes por caractere
+const sizeOf = (record: PostRecord) =>
+  JSON.stringify({ ...record, size: 0 }).length * 2;
+
+const lastSyncOf = (record: PostRecord) =>
+  Math.max(record.syncedAt, record.commentsSyncedAt ?? 0);
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+interface Stores {
+  posts: IDBObjectStore;
+  lists: IDBObjectStore;
+  meta: IDBObjectStore;
+}
+
+/**
+ * Cópia dos posts e comentários no IndexedDB, para leitura sem conexão
+ *
+ * Sem IndexedDB (testes, navegação privada, cota esgotada) todas as
+ * operações viram no-op e o app segue só com o cache em memória. Só vai
+ * para o disco o que qualquer aluno pode ler: rascunhos, agendamentos e
+ * comentários ocultos ficam apenas em memória, e a cópia inteira é
+ * descartada quando outro usuário (ou ninguém) abre o app. Posts
+ * não marcados como "disponível offline" saem depois de
+ * REACT_APP_OFFLINE_CACHE_MAX_AGE_DAYS; acima de
+ * REACT_APP_OFFLINE_CACHE_MAX_MB saem primeiro os não marcados e os
+ * sincronizados há mais tempo.
+ */
+const createOfflineCache = () => {
+  let database: Promise<IDBDatabase | null> | null = null;
+  let evictionTimer: ReturnType<typeof setTimeout> | null = null;
+  // Toda operação espera a verificação de dono mais recente terminar
+  let ownership: Promise<void> = Promise.resolve();
+
+  const open = () => {
+    if (!database) {
+      database = new Promise((resolve) => {
+        if (typeof indexedDB === "undefined") {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(POSTS_STORE)) {
+            db.createObjectStore(POSTS_STORE, { keyPath: "id" });
+          }
+          if (!db.objectStoreNames.contains(LISTS_STORE)) {
+            db.createObjectStore(LISTS_STORE, { keyPath: "key" });
+          }
+          // Cópias da versão 1 não têm dono e são descartadas na primeira verificação
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE, { keyPath: "key" });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error("Error opening offline cache:", request.error);
+          resolve(null);
+        };
+      });
+    }
+    return database;
+  };
+
+  // Roda `work` numa transação; falhas são registradas e viram `fallback`
+  const runWithStores = async <T>(
+    mode: IDBTransactionMode,
+    work: (stores: Stores) => Promise<T>,
+    fallback: T
+  ): Promise<T> => {
+    const db = await open();
+    if (!db) return fallback;
+
+    try {
+      const transaction = db.transaction(
+        [POSTS_STORE, LISTS_STORE, META_STORE],
+        mode
+      );
+      const done = transactionDone(transaction);
+      const result = await work({
+        posts: transaction.objectStore(POSTS_STORE),
+        lists: transaction.objectStore(LISTS_STORE),
+        meta: transaction.objectStore(META_STORE),
+      });
+      await done;
+      return result;
+    } catch (error) {
+      console.error("Offline cache error:", error);
+      return fallback;
+    }
+  };
+
+  const withStores = async <T>(
+    mode: IDBTransactionMode,
+    work: (stores: Stores) => Promise<T>,
+    fallback: T
+  ): Promise<T> => {
+    await ownership;
+    return runWithStores(mode, work, fallback);
+  };
+
+  // Cópia de outro usuário (ou sem dono registrado) é apagada antes de qualquer leitura
+  const claim = (ownerId: string | null) => {
+    ownership = ownership.then(() =>
+      runWithStores(
+        "readwrite",
+        async ({ posts, lists, meta }) => {
+          const owner: OwnerRecord | undefined = await requestResult(
+            meta.get(OWNER_KEY)
+          );
+          if (owner && owner.ownerId === ownerId) return;
+          posts.clear();
+          lists.clear();
+          meta.put({ key: OWNER_KEY, ownerId });
+        },
+        undefined
+      )
+    );
+    return ownership;
+  };
+
+  const updateRecord = async (
+    store: IDBObjectStore,
+    id: string,
+    update: (record: PostRecord) => PostRecord
+  ) => {
+    const existing: PostRecord | undefined = await requestResult(store.get(id));
+    const record = update(existing ?? { id, syncedAt: 0, offline: false, size: 0 });
+    store.put({ ...record, size: sizeOf(record) });
+  };
+
+  const evict = () =>
+    withStores(
+      "readwrite",
+      async ({ posts, lists }) => {
+        const now = Date.now();
+        const records: PostRecord[] = await requestResult(posts.getAll());
+
+        const kept = records.filter((record) => {
+          const expired = !record.offline && now - lastSyncOf(record) > MAX_AGE_MS;
+          if (expired) posts.delete(record.id);
+          return !expired;
+        });
+
+        let total = kept.reduce((sum, record) => sum + record.size, 0);
+        kept
+          .sort(
+            (a, b) =>
+              Number(a.offline) - Number(b.offline) ||
+              lastSyncOf(a) - lastSyncOf(b)
+          )
+          .forEach((record) => {
+            if (total <= MAX_BYTES) return;
+            posts.delete(record.id);
+            total -= record.size;
+          });
+
+        const listRecords: OfflineList[] = await requestResult(lists.getAll());
+        listRecords
+          .filter((list) => now - list.syncedAt > MAX_AGE_MS)
+          .forEach((list) => lists.delete(list.key));
+      },
+      undefined
+    );
+
+  // Agrupa as gravações de uma navegação numa única verificação de limites
+  const scheduleEviction = () => {
+    if (evictionTimer) clearTimeout(evictionTimer);
+    evictionTimer = setTimeout(() => {
+      evictionTimer = null;
+      evict();
+    }, EVICTION_DELAY_MS);
+  };
+
+  const emptySnapshot: OfflineSnapshot = { posts: [], lists: [], offlineIds: [] };
+
+  return {
+    // Confere o dono, aplica os limites e devolve o que sobrou
+    load: async (ownerId: string | null): Promise<OfflineSnapshot> => {
+      await claim(ownerId);
+      await evict();
+      return withStores(
+        "readonly",
+        async ({ posts, lists }) => {
+          const records: PostRecord[] = await requestResult(posts.getAll());
+          const listRecords: OfflineList[] = await requestResult(lists.getAll());
+          return {
+            posts: records
+              .filter((record) => !!record.post)
+              .map((record) => ({
+                post: record.post as Post,
+                syncedAt: record.syncedAt,
+              })),
+            lists: listRecords,
+            offlineIds: records
+              .filter((record) => record.offline)
+              .map((record) => record.id),
+          };
+        },
+        emptySnapshot
+      );
+    },
+
+    // Um post que deixou de ser público sai do dispositivo
+    savePosts: async (entries: OfflinePost[]) => {
+      await withStores(
+        "readwrite",
+        async ({ posts }) => {
+          await Promise.all(
+            entries.map(({ post, syncedAt }) => {
+              if (!isPostPublic(post)) {
+                posts.delete(post._id);
+                return Promise.resolve();
+              }
+              return updateRecord(posts, post._id, (record) => ({
+                ...record,
+                post,
+                syncedAt,
+              }));
+            })
+          );
+        },
+        undefined
+      );
+      scheduleEviction();
+    },
+
+    saveLists: (entries: OfflineList[]) =>
+      withStores(
+        "readwrite",
+        async ({ lists }) => {
+          entries.forEach((entry) => lists.put(entry));
+        },
+        undefined
+      ),
+
+    // Posts excluídos no servidor saem mesmo que marcados
+    removePosts: (ids: string[]) =>
+      withStores(
+        "readwrite",
+        async ({ posts }) => {
+          ids.forEach((id) => posts.delete(id));
+        },
+        undefined
+      ),
+
+    getComments: (postId: string): Promise<OfflineComments | null> =>
+      withStores(
+        "readonly",
+        async ({ posts }) => {
+          const record: PostRecord | undefined = await requestResult(
+            posts.get(postId)
+          );
+          return record?.comments
+            ? { comments: record.comments, syncedAt: record.commentsSyncedAt ?? 0 }
+            : null;
+        },
+        null
+      ),
+
+    // Como em `savePosts`, um post que não é público sai com os comentários
+    saveComments: async (post: Post, comments: Comment[], syncedAt: number) => {
+      await withStores(
+        "readwrite",
+        async ({ posts }) => {
+          if (!isPostPublic(post)) {
+            posts.delete(post._id);
+            return;
+          }
+          await updateRecord(posts, post._id, (record) => ({
+            ...record,
+            comments: comments.filter((comment) => comment.status !== "hidden"),
+            commentsSyncedAt: syncedAt,
+          }));
+        },
+        undefined
+      );
+      scheduleEviction();
+    },
+
+    setAvailableOffline: (postId: string, available: boolean) =>
+      withStores(
+        "readwrite",
+        ({ posts }) =>
+          updateRecord(posts, postId, (record) => ({
+            ...record,
+            offline: available,
+          })),
+        undefined
+      ),
+
+    // Login, logout ou troca de conta na mesma aba
+    setOwner: (ownerId: string | null) => claim(ownerId),
+  };
+};
+
+export const offlineCache = createOfflineCache();
@@ -0,0 +1,155 @@
+import { RealtimeEvent } from "./api";
+import { decodeRealtimeEvent } from "./decoders";
+import { tokenStorage } from "./tokenStorage";
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (payload: unknown) => void;
+  onError: () => void;
+}
+
+// Abre a conexão e devolve a função que a encerra
+type RealtimeTransport = (handlers: TransportHandlers) => () => void;
+
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const REALTIME_URL = process.env.REACT_APP_REALTIME_URL || "";
+
+// EventSource não envia cabeçalhos: o token vai na query string
+const withAccessToken = (url: string, accessToken: string | null) =>
+  accessToken
+    ? `${url}${url.includes("?") ? "&" : "?"}access_token=${encodeURIComponent(
+        accessToken
+      )}`
+    : url;
+
+const sseTransport: RealtimeTransport = ({ onOpen, onMessage, onError }) => {
+  const source = new EventSource(
+    withAccessToken(REALTIME_URL, tokenStorage.getAccessToken())
+  );
+  source.onopen = onOpen;
+  source.onmessage = (message) => {
+    try {
+      onMessage(JSON.parse(message.data));
+    } catch (error) {
+      console.error("Invalid realtime message:", error);
+    }
+  };
+  // A reconexão automática do navegador reusaria o token antigo
+  source.onerror = () => {
+    source.close();
+    onError();
+  };
+  return () => source.close();
+};
+
+// Com o backend simulado os eventos vêm direto do mesmo barramento das rotas
+const mockTransport: RealtimeTransport = ({ onOpen, onMessage }) => {
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  import("./mock").then(({ getMockBackend }) => {
+    if (closed) return;
+    unsubscribe = getMockBackend().subscribe(
+      onMessage,
+      tokenStorage.getAccessToken
+    );
+    onOpen();
+  });
+
+  return () => {
+    closed = true;
+    unsubscribe?.();
+  };
+};
+
+const resolveTransport = (): RealtimeTransport | null => {
+  if (process.env.REACT_APP_USE_MOCK_API === "true") return mockTransport;
+  if (REALTIME_URL && typeof EventSource !== "undefined") return sseTransport;
+  return null;
+};
+
+/**
+ * Cliente do canal em tempo real (Server-Sent Events em GET /events)
+ *
+ * Conecta quando o primeiro ouvinte assina e desconecta quando o último
+ * sai. Quedas são recuperadas com espera crescente, e trocas de token
+ * reabrem a conexão para que o servidor filtre pelo usuário atual. Sem
+ * REACT_APP_REALTIME_URL (e fora do backend simulado) fica inativo.
+ */
+const createRealtimeClient = (transport: RealtimeTransport | null) => {
+  const listeners = new Set<RealtimeListener>();
+  let disconnect: (() => void) | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = RECONNECT_DELAY_MS;
+  let unsubscribeToken: (() => void) | null = null;
+
+  const handleMessage = (payload: unknown) => {
+    let event: RealtimeEvent | null;
+    try {
+      event = decodeRealtimeEvent(payload);
+    } catch (error) {
+      console.error("Invalid realtime event:", error);
+      return;
+    }
+    if (event) {
+      const received = event;
+      listeners.forEach((listener) => listener(received));
+    }
+  };
+
+  const clearReconnect = () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+  };
+
+  const close = () => {
+    clearReconnect();
+    disconnect?.();
+    disconnect = null;
+  };
+
+  const open = () => {
+    if (!transport) return;
+    close();
+    disconnect = transport({
+      onOpen: () => {
+        reconnectDelay = RECONNECT_DELAY_MS;
+      },
+      onMessage: handleMessage,
+      onError: () => {
+        disconnect = null;
+        clearReconnect();
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          open();
+        }, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      },
+    });
+  };
+
+  return {
+    subscribe: (listener: RealtimeListener): (() => void) => {
+      listeners.add(listener);
+      if (listeners.size === 1) {
+        open();
+        unsubscribeToken = tokenStorage.subscribe(() => open());
+      }
+
+      return () => {
+        if (!listeners.delete(listener) || listeners.size > 0) return;
+        unsubscribeToken?.();
+        unsubscribeToken = null;
+        close();
+      };
+    },
+  };
+};
+
+export const realtimeClient = createRealtimeClient(resolveTransport());
@@ -0,0 +1,169 @@
+import { CanceledError } from "axios";
+import { ApiError } from "./apiError";
+import {
+  DEFAULT_RETRY_CONFIG,
+  RetryAttempt,
+  computeRetryDelay,
+  parseRetryAfter,
+  resolveRetryConfig,
+  retryMonitor,
+  waitForRetry,
+} from "./retry";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+describe("resolveRetryConfig", () => {
+  it("repete GETs por padrão", () => {
+    expect(resolveRetryConfig("GET", undefined)).toEqual(DEFAULT_RETRY_CONFIG);
+    expect(resolveRetryConfig(undefined, undefined)).toEqual(
+      DEFAULT_RETRY_CONFIG
+    );
+  });
+
+  it("só repete PUT e DELETE quando pedido", () => {
+    expect(resolveRetryConfig("put", undefined)).toBeNull();
+    expect(resolveRetryConfig("put", true)).toEqual(DEFAULT_RETRY_CONFIG);
+    expect(resolveRetryConfig("delete", { retries: 1 })).toEqual({
+      ...DEFAULT_RETRY_CONFIG,
+      retries: 1,
+    });
+  });
+
+  it("nunca repete POST nem chamadas com retry desligado", () => {
+    expect(resolveRetryConfig("post", true)).toBeNull();
+    expect(resolveRetryConfig("get", false)).toBeNull();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2024-01-15T10:30:00Z");
+
+  it("aceita segundos", () => {
+    expect(parseRetryAfter("120", now)).toBe(120000);
+    expect(parseRetryAfter(2, now)).toBe(2000);
+  });
+
+  it("aceita uma data HTTP", () => {
+    expect(parseRetryAfter("Mon, 15 Jan 2024 10:30:30 GMT", now)).toBe(30000);
+  });
+
+  it("não devolve atrasos negativos", () => {
+    expect(parseRetryAfter("-5", now)).toBe(0);
+    expect(parseRetryAfter("Mon, 15 Jan 2024 10:00:00 GMT", now)).toBe(0);
+  });
+
+  it("ignora valores ausentes ou inválidos", () => {
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+    expect(parseRetryAfter("amanhã", now)).toBeNull();
+  });
+});
+
+describe("computeRetryDelay", () => {
+  it("dobra o atraso a cada tentativa, com equal jitter entre metade e o total", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeRetryDelay(1, DEFAULT_RETRY_CONFIG)).toBe(500);
+    expect(computeRetryDelay(3, DEFAULT_RETRY_CONFIG)).toBe(2000);
+
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    expect(computeRetryDelay(1, DEFAULT_RETRY_CONFIG)).toBe(1000);
+    expect(computeRetryDelay(3, DEFAULT_RETRY_CONFIG)).toBe(4000);
+  });
+
+  it("nunca espera menos que metade do backoff nem mais que ele", () => {
+    [0, 0.25, 0.5, 0.999].forEach((random) => {
+      jest.spyOn(Math, "random").mockReturnValue(random);
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        const exponential = Math.min(10000, 1000 * 2 ** (attempt - 1));
+        const delay = computeRetryDelay(attempt, DEFAULT_RETRY_CONFIG);
+        expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+        expect(delay).toBeLessThanOrEqual(exponential);
+      }
+    });
+  });
+
+  it("limita o backoff a maxDelayMs", () => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    expect(computeRetryDelay(10, DEFAULT_RETRY_CONFIG)).toBe(10000);
+  });
+
+  it("usa o Retry-After do servidor até maxRetryAfterMs", () => {
+    expect(computeRetryDelay(1, DEFAULT_RETRY_CONFIG, 3000)).toBe(3000);
+    expect(computeRetryDelay(1, DEFAULT_RETRY_CONFIG, 120000)).toBe(60000);
+  });
+});
+
+describe("waitForRetry", () => {
+  it("resolve depois do atraso", async () => {
+    jest.useFakeTimers();
+    const resolved = jest.fn();
+
+    const waiting = waitForRetry(1000).then(resolved);
+    jest.advanceTimersByTime(999);
+    await Promise.resolve();
+    expect(resolved).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    await waiting;
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it("é cancelado pelo signal", async () => {
+    jest.useFakeTimers();
+    const controller = new AbortController();
+
+    const waiting = waitForRetry(1000, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(CanceledError);
+  });
+
+  it("falha na hora se o signal já foi abortado", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(waitForRetry(1000, controller.signal)).rejects.toBeInstanceOf(
+      CanceledError
+    );
+  });
+});
+
+describe("retryMonitor", () => {
+  const makeAttempt = (requestId: number): RetryAttempt => ({
+    requestId,
+    method: "get",
+    url: "/posts",
+    attempt: 1,
+    maxAttempts: 3,
+    delayMs: 1000,
+    error: new ApiError({ kind: "server", status: 503 }),
+  });
+
+  it("avisa quem acompanha as tentativas em andamento", () => {
+    const listener = jest.fn();
+    const unsubscribe = retryMonitor.subscribe(listener);
+    const requestId = retryMonitor.createRequestId();
+
+    retryMonitor.markRetrying(makeAttempt(requestId));
+    expect(listener).toHaveBeenLastCalledWith([makeAttempt(requestId)]);
+
+    retryMonitor.markSettled(requestId);
+    expect(listener).toHaveBeenLastCalledWith([]);
+    expect(retryMonitor.getActive()).toEqual([]);
+
+    unsubscribe();
+  });
+
+  it("não avisa ao encerrar uma requisição que não estava sendo repetida", () => {
+    const listener = jest.fn();
+    const unsubscribe = retryMonitor.subscribe(listener);
+
+    retryMonitor.markSettled(undefined);
+    retryMonitor.markSettled(retryMonitor.createRequestId());
+
+    expect(listener).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,165 @@
+import { CanceledError, GenericAbortSignal } from "axios";
+import { ApiError } from "./apiError";
+
+export interface RetryConfig {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Teto para o Retry-After enviado pelo servidor
+  maxRetryAfterMs: number;
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Configuração de retry por chamada
+ *
+ * - `undefined`: padrão do método (GET tenta novamente, PUT/DELETE/POST não)
+ * - `false`: nunca tenta novamente
+ * - `true` ou objeto: habilita o retry (opt-in para PUT/DELETE)
+ */
+export type RetryOptions = boolean | Partial<RetryConfig>;
+
+export interface RetryAttempt {
+  requestId: number;
+  method: string;
+  url: string;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: ApiError;
+}
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    retry?: RetryOptions;
+    _retryCount?: number;
+    _retryRequestId?: number;
+  }
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000,
+};
+
+const IDEMPOTENT_METHODS = ["get", "head", "options"];
+const OPT_IN_METHODS = ["put", "delete"];
+
+export const resolveRetryConfig = (
+  method: string | undefined,
+  options: RetryOptions | undefined
+): RetryConfig | null => {
+  const normalizedMethod = (method || "get").toLowerCase();
+  if (options === false) return null;
+
+  const isDefaultOn = IDEMPOTENT_METHODS.includes(normalizedMethod);
+  const isOptedIn =
+    options !== undefined && OPT_IN_METHODS.includes(normalizedMethod);
+  if (!isDefaultOn && !isOptedIn) return null;
+
+  return {
+    ...DEFAULT_RETRY_CONFIG,
+    ...(typeof options === "object" ? options : {}),
+  };
+};
+
+/**
+ * Interpreta o header Retry-After (segundos ou data HTTP)
+ *
+ * @returns Atraso em milissegundos, ou null se ausente/inválido
+ */
+export const parseRetryAfter = (
+  value: unknown,
+  now: number = Date.now()
+): number | null => {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Atraso antes da próxima tentativa: backoff exponencial com "equal jitter"
+ * (entre metade e o total do atraso), ou o Retry-After do servidor em
+ * respostas 429/503
+ */
+export const computeRetryDelay = (
+  attempt: number,
+  config: RetryConfig,
+  retryAfterMs: number | null = null
+): number => {
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, config.maxRetryAfterMs);
+  }
+
+  const exponential = Math.min(
+    config.maxDelayMs,
+    config.baseDelayMs * Math.pow(2, attempt - 1)
+  );
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+export const waitForRetry = (
+  delayMs: number,
+  signal?: GenericAbortSignal
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener?.("abort", onAbort);
+  });
+
+type RetryListener = (attempts: RetryAttempt[]) => void;
+
+const activeRetries = new Map<number, RetryAttempt>();
+const listeners = new Set<RetryListener>();
+let nextRequestId = 1;
+
+const notify = () => {
+  const attempts = Array.from(activeRetries.values());
+  listeners.forEach((listener) => listener(attempts));
+};
+
+/**
+ * Acompanha as requisições que estão sendo repetidas, para que a interface
+ * possa avisar "servidor iniciando, tentando novamente…"
+ */
+export const retryMonitor = {
+  createRequestId: () => nextRequestId++,
+
+  markRetrying: (attempt: RetryAttempt) => {
+    activeRetries.set(attempt.requestId, attempt);
+    notify();
+  },
+
+  markSettled: (requestId: number | undefined) => {
+    if (requestId === undefined || !activeRetries.delete(requestId)) return;
+    notify();
+  },
+
+  getActive: (): RetryAttempt[] => Array.from(activeRetries.values()),
+
+  subscribe: (listener: RetryListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
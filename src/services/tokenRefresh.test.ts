@@ -0,0 +1,74 @@
+import { createRefreshCoordinator } from "./tokenRefresh";
+
+// Promise controlada pelo teste, para manter a renovação em andamento
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe("createRefreshCoordinator", () => {
+  it("faz uma única renovação para vários 401 simultâneos", async () => {
+    const pending = deferred<string>();
+    const refresh = jest.fn(() => pending.promise);
+    const coordinator = createRefreshCoordinator({
+      refresh,
+      onFailure: jest.fn(),
+    });
+
+    const waiters = Array.from({ length: 5 }, () => coordinator.refresh());
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(coordinator.isRefreshing()).toBe(true);
+
+    pending.resolve("novo-token");
+
+    await expect(Promise.all(waiters)).resolves.toEqual(
+      Array(5).fill("novo-token")
+    );
+    expect(coordinator.isRefreshing()).toBe(false);
+  });
+
+  it("rejeita todos que aguardam e chama onFailure uma única vez", async () => {
+    const pending = deferred<string>();
+    const onFailure = jest.fn();
+    const coordinator = createRefreshCoordinator({
+      refresh: () => pending.promise,
+      onFailure,
+    });
+    const error = new Error("Refresh token inválido ou expirado");
+
+    const waiters = Array.from({ length: 3 }, () =>
+      coordinator.refresh().then(
+        () => null,
+        (reason) => reason
+      )
+    );
+    pending.reject(error);
+
+    await expect(Promise.all(waiters)).resolves.toEqual([error, error, error]);
+    expect(onFailure).toHaveBeenCalledTimes(1);
+    expect(onFailure).toHaveBeenCalledWith(error);
+    expect(coordinator.isRefreshing()).toBe(false);
+  });
+
+  it("permite uma nova renovação depois que a anterior termina", async () => {
+    const refresh = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error("Falha de rede"))
+      .mockResolvedValueOnce("token-1")
+      .mockResolvedValueOnce("token-2");
+    const coordinator = createRefreshCoordinator({
+      refresh,
+      onFailure: jest.fn(),
+    });
+
+    await expect(coordinator.refresh()).rejects.toThrow("Falha de rede");
+    await expect(coordinator.refresh()).resolves.toBe("token-1");
+    await expect(coordinator.refresh()).resolves.toBe("token-2");
+    expect(refresh).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,46 @@
+interface RefreshCoordinatorOptions {
+  refresh: () => Promise<string>;
+  onFailure: (error: unknown) => void;
+}
+
+export interface RefreshCoordinator {
+  refresh: () => Promise<string>;
+  isRefreshing: () => boolean;
+}
+
+/**
+ * Coordena a renovação do access token
+ *
+ * Garante que apenas uma renovação rode por vez: requisições que falham
+ * com 401 enquanto a renovação está em andamento aguardam a mesma promise
+ * e são reenviadas com o novo token. Se a renovação falhar, todas são
+ * rejeitadas juntas e `onFailure` é chamado uma única vez.
+ */
+export const createRefreshCoordinator = ({
+  refresh,
+  onFailure,
+}: RefreshCoordinatorOptions): RefreshCoordinator => {
+  let inFlight: Promise<string> | null = null;
+
+  return {
+    refresh: () => {
+      if (!inFlight) {
+        inFlight = refresh().then(
+          (accessToken) => {
+            inFlight = null;
+            return accessToken;
+          },
+          (error) => {
+            inFlight = null;
+            onFailure(error);
+            throw error;
+          }
+        );
+      }
+
+      return inFlight;
+    },
+
+    isRefreshing: () => inFlight !== null,
+  };
+};
@@ -0,0 +1,53 @@
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const USER_KEY = "user";
+
+type AccessTokenListener = (accessToken: string | null) => void;
+
+const listeners = new Set<AccessTokenListener>();
+
+const notify = (accessToken: string | null) => {
+  listeners.forEach((listener) => listener(accessToken));
+};
+
+/**
+ * Armazenamento da sessão
+ *
+ * O access token fica no sessionStorage e o refresh token no localStorage.
+ * Toda troca de token passa por aqui para que o AuthContext seja avisado
+ * também das renovações feitas pelo interceptor do axios.
+ */
+export const tokenStorage = {
+  getAccessToken: (): string | null => sessionStorage.getItem(ACCESS_TOKEN_KEY),
+
+  getRefreshToken: (): string | null =>
+    localStorage.getItem(REFRESH_TOKEN_KEY),
+
+  setTokens: (tokens: { accessToken: string; refreshToken?: string }) => {
+    sessionStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+    if (tokens.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    }
+    notify(tokens.accessToken);
+  },
+
+  getUser: (): string | null => localStorage.getItem(USER_KEY),
+
+  setUser: (user: unknown) => {
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+  },
+
+  clear: () => {
+    sessionStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+    notify(null);
+  },
+
+  subscribe: (listener: AccessTokenListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
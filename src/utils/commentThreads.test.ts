@@ -0,0 +1,134 @@
+import { Comment } from '../services/api';
+import {
+  buildCommentTree,
+  collectThreadIds,
+  flattenReplies,
+  withoutHiddenThreads,
+} from './commentThreads';
+
+const makeComment = (
+  _id: string,
+  minute: number,
+  overrides: Partial<Comment> = {}
+): Comment => {
+  const createdAt = new Date(Date.UTC(2024, 0, 15, 14, minute)).toISOString();
+  return {
+    _id,
+    postId: 'post-1',
+    author: `Autor ${_id}`,
+    content: `Comentário ${_id}`,
+    status: 'visible',
+    flagged: false,
+    reportCount: 0,
+    reportedByMe: false,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+};
+
+const ids = (comments: Comment[]) => comments.map((comment) => comment._id);
+
+describe('buildCommentTree', () => {
+  it('aninha as respostas em ordem cronológica e conta as de todos os níveis', () => {
+    const tree = buildCommentTree([
+      makeComment('b', 5, { parentId: 'a' }),
+      makeComment('a', 0),
+      makeComment('c', 2, { parentId: 'a' }),
+      makeComment('d', 8, { parentId: 'c' }),
+    ]);
+
+    expect(tree).toHaveLength(1);
+    const [root] = tree;
+    expect(root.comment._id).toBe('a');
+    expect(root.replyCount).toBe(3);
+    expect(root.replies.map((node) => node.comment._id)).toEqual(['c', 'b']);
+    expect(root.replies[0].replies[0].comment._id).toBe('d');
+  });
+
+  it('mantém a ordem recebida entre os comentários raiz', () => {
+    const tree = buildCommentTree([makeComment('novo', 9), makeComment('antigo', 1)]);
+
+    expect(tree.map((node) => node.comment._id)).toEqual(['novo', 'antigo']);
+  });
+
+  it('trata como raiz a resposta cujo pai não está na lista', () => {
+    const tree = buildCommentTree([makeComment('a', 0, { parentId: 'sumiu' })]);
+
+    expect(tree.map((node) => node.comment._id)).toEqual(['a']);
+  });
+
+  it('trata como raiz os comentários de um ciclo de parentId', () => {
+    const tree = buildCommentTree([
+      makeComment('a', 0, { parentId: 'b' }),
+      makeComment('b', 1, { parentId: 'a' }),
+      makeComment('c', 2, { parentId: 'a' }),
+      makeComment('d', 3, { parentId: 'd' }),
+    ]);
+
+    expect(tree.map((node) => node.comment._id)).toEqual(['a', 'b', 'd']);
+    expect(tree[0].replies.map((node) => node.comment._id)).toEqual(['c']);
+    expect(tree[1].replyCount).toBe(0);
+  });
+});
+
+describe('flattenReplies', () => {
+  it('lista as respostas de todos os níveis com o autor respondido', () => {
+    const [root] = buildCommentTree([
+      makeComment('a', 0),
+      makeComment('b', 1, { parentId: 'a' }),
+      makeComment('c', 4, { parentId: 'b' }),
+      makeComment('d', 2, { parentId: 'a' }),
+    ]);
+
+    expect(
+      flattenReplies(root).map(({ comment, replyTo }) => [comment._id, replyTo])
+    ).toEqual([
+      ['b', 'Autor a'],
+      ['d', 'Autor a'],
+      ['c', 'Autor b'],
+    ]);
+  });
+});
+
+describe('collectThreadIds', () => {
+  it('inclui o comentário e todos os descendentes', () => {
+    const comments = [
+      makeComment('a', 0),
+      makeComment('b', 1, { parentId: 'a' }),
+      makeComment('c', 2, { parentId: 'b' }),
+      makeComment('outro', 3),
+    ];
+
+    expect(Array.from(collectThreadIds(comments, 'a')).sort()).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('withoutHiddenThreads', () => {
+  it('remove o comentário oculto junto com as respostas', () => {
+    const comments = [
+      makeComment('a', 0, { status: 'hidden' }),
+      makeComment('b', 1, { parentId: 'a' }),
+      makeComment('c', 2, { parentId: 'b' }),
+      makeComment('d', 3),
+    ];
+
+    expect(ids(withoutHiddenThreads(comments))).toEqual(['d']);
+  });
+
+  it('remove respostas a comentários que o servidor omitiu', () => {
+    const comments = [
+      makeComment('b', 1, { parentId: 'oculto' }),
+      makeComment('c', 2, { parentId: 'b' }),
+      makeComment('d', 3),
+    ];
+
+    expect(ids(withoutHiddenThreads(comments))).toEqual(['d']);
+  });
+
+  it('mantém threads sem comentários ocultos', () => {
+    const comments = [makeComment('a', 0), makeComment('b', 1, { parentId: 'a' })];
+
+    expect(withoutHiddenThreads(comments)).toEqual(comments);
+  });
+});
@@ -0,0 +1,139 @@
+import { Comment } from '../services/api';
+
+export interface CommentNode {
+  comment: Comment;
+  replies: CommentNode[];
+  // Total de respostas na thread, incluindo as aninhadas
+  replyCount: number;
+}
+
+const byCreatedAtAsc = (a: CommentNode, b: CommentNode) =>
+  new Date(a.comment.createdAt).getTime() - new Date(b.comment.createdAt).getTime();
+
+/**
+ * Monta a árvore de respostas a partir da lista plana de comentários
+ *
+ * Comentários raiz mantêm a ordem recebida; respostas ficam em ordem
+ * cronológica para a conversa ser lida de cima para baixo. Respostas cujo
+ * comentário pai não está na lista são tratadas como raiz, assim como os
+ * comentários de um ciclo de `parentId` (A responde B, que responde A).
+ *
+ * @param comments - Comentários do post, com `parentId` opcional
+ * @returns Threads de nível superior
+ */
+export function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach((comment) => {
+    nodes.set(comment._id, { comment, replies: [], replyCount: 0 });
+  });
+
+  // Sobe pelos pais até sair da lista ou voltar ao próprio comentário
+  const isInCycle = (comment: Comment) => {
+    const visited = new Set<string>();
+    let parentId = comment.parentId;
+    while (parentId && nodes.has(parentId) && !visited.has(parentId)) {
+      if (parentId === comment._id) return true;
+      visited.add(parentId);
+      parentId = nodes.get(parentId)?.comment.parentId;
+    }
+    return false;
+  };
+
+  const roots: CommentNode[] = [];
+  comments.forEach((comment) => {
+    const node = nodes.get(comment._id) as CommentNode;
+    const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+    if (parent && !isInCycle(comment)) parent.replies.push(node);
+    else roots.push(node);
+  });
+
+  const finalize = (node: CommentNode): number => {
+    node.replies.sort(byCreatedAtAsc);
+    node.replyCount = node.replies.reduce(
+      (total, reply) => total + 1 + finalize(reply),
+      0
+    );
+    return node.replyCount;
+  };
+  roots.forEach(finalize);
+
+  return roots;
+}
+
+/**
+ * Lista o comentário e todas as respostas abaixo dele
+ *
+ * @param comments - Comentários do post
+ * @param commentId - Comentário raiz da busca
+ * @returns IDs do comentário e de seus descendentes
+ */
+export function collectThreadIds(comments: Comment[], commentId: string): Set<string> {
+  const ids = new Set<string>([commentId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    for (const comment of comments) {
+      if (comment.parentId && ids.has(comment.parentId) && !ids.has(comment._id)) {
+        ids.add(comment._id);
+        added = true;
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Remove os comentários ocultos pela moderação junto com suas respostas
+ *
+ * O servidor não envia comentários ocultos para alunos, então uma resposta
+ * cujo comentário pai não está na lista também pertence a uma thread oculta.
+ *
+ * @param comments - Comentários do post
+ * @returns Comentários que podem ser exibidos para quem não modera
+ */
+export function withoutHiddenThreads(comments: Comment[]): Comment[] {
+  const ids = new Set(comments.map((comment) => comment._id));
+  const removed = new Set<string>();
+
+  comments.forEach((comment) => {
+    const isOrphan = !!comment.parentId && !ids.has(comment.parentId);
+    if (comment.status === 'hidden' || isOrphan) {
+      collectThreadIds(comments, comment._id).forEach((id) => removed.add(id));
+    }
+  });
+
+  return comments.filter((comment) => !removed.has(comment._id));
+}
+
+export interface FlatReply {
+  comment: Comment;
+  // Nome do autor do comentário respondido
+  replyTo: string;
+}
+
+/**
+ * Achata as respostas de uma thread em ordem cronológica
+ *
+ * Usado quando a thread passa da profundidade máxima exibida: as respostas
+ * deixam de ser indentadas e passam a indicar a quem respondem.
+ *
+ * @param node - Nó cujas respostas serão achatadas
+ * @returns Respostas de todos os níveis, da mais antiga para a mais recente
+ */
+export function flattenReplies(node: CommentNode): FlatReply[] {
+  const replies: FlatReply[] = [];
+
+  const visit = (parent: CommentNode) => {
+    parent.replies.forEach((reply) => {
+      replies.push({ comment: reply.comment, replyTo: parent.comment.author });
+      visit(reply);
+    });
+  };
+  visit(node);
+
+  return replies.sort(
+    (a, b) => new Date(a.comment.createdAt).getTime() - new Date(b.comment.createdAt).getTime()
+  );
+}
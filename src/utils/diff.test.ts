@@ -0,0 +1,60 @@
+import { diffWords, hasConflictMarkers, mergeText } from './diff';
+
+describe('diffWords', () => {
+  it('agrupa os trechos iguais, removidos e adicionados', () => {
+    expect(diffWords('o gato preto', 'o gato branco')).toEqual([
+      { type: 'equal', value: 'o gato ' },
+      { type: 'removed', value: 'preto' },
+      { type: 'added', value: 'branco' },
+    ]);
+  });
+
+  it('devolve um único trecho igual para textos idênticos', () => {
+    expect(diffWords('sem mudanças', 'sem mudanças')).toEqual([
+      { type: 'equal', value: 'sem mudanças' },
+    ]);
+  });
+});
+
+describe('mergeText', () => {
+  it('junta edições feitas em linhas diferentes', () => {
+    expect(mergeText('a\nb\nc\n', 'A\nb\nc\n', 'a\nb\nC\n')).toEqual({
+      text: 'A\nb\nC\n',
+      conflicts: 0,
+    });
+  });
+
+  it('aceita a mesma alteração feita dos dois lados', () => {
+    expect(mergeText('a\nb\n', 'z\nb\n', 'z\nb\n')).toEqual({
+      text: 'z\nb\n',
+      conflicts: 0,
+    });
+  });
+
+  it('marca como conflito a linha alterada dos dois lados', () => {
+    expect(mergeText('a\nb\n', 'x\nb\n', 'y\nb\n')).toEqual({
+      text:
+        '<<<<<<< Sua versão\nx\n=======\ny\n>>>>>>> Versão atual\nb\n',
+      conflicts: 1,
+    });
+  });
+
+  it('fecha a linha antes dos marcadores quando o texto não termina em quebra', () => {
+    const { text, conflicts } = mergeText('a', 'x', 'y');
+
+    expect(conflicts).toBe(1);
+    expect(text).toBe('<<<<<<< Sua versão\nx\n=======\ny\n>>>>>>> Versão atual\n');
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('encontra os marcadores deixados por mergeText', () => {
+    expect(hasConflictMarkers(mergeText('a\n', 'x\n', 'y\n').text)).toBe(true);
+  });
+
+  it('ignora sinais parecidos fora do início da linha', () => {
+    expect(hasConflictMarkers('texto <<<<<<< Sua versão')).toBe(false);
+    expect(hasConflictMarkers('======= título')).toBe(false);
+    expect(hasConflictMarkers('a\nb\n')).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+export type DiffType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+export interface MergeResult {
+  text: string;
+  // Quantidade de trechos alterados nas duas versões, marcados no texto
+  conflicts: number;
+}
+
+// Acima disso a tabela do LCS fica pesada demais para o navegador
+const MAX_DIFF_CELLS = 4000000;
+
+const MINE_MARKER = '<<<<<<< Sua versão\n';
+const SEPARATOR_MARKER = '=======\n';
+const THEIRS_MARKER = '>>>>>>> Versão atual\n';
+
+const tokenizeWords = (text: string) => text.match(/\s+|\S+/g) || [];
+
+const tokenizeLines = (text: string) => {
+  const lines = text.split('\n');
+  return lines
+    .map((line, index) => (index < lines.length - 1 ? `${line}\n` : line))
+    .filter((line) => line !== '');
+};
+
+/**
+ * Pares de índices [a, b] da maior subsequência comum entre as listas
+ *
+ * Prefixo e sufixo iguais são casados direto para reduzir a tabela.
+ */
+const matchTokens = (a: string[], b: string[]): Array<[number, number]> => {
+  const pairs: Array<[number, number]> = [];
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    pairs.push([start, start]);
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  const suffix: Array<[number, number]> = [];
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    suffix.unshift([endA, endB]);
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows > 0 && cols > 0 && rows * cols <= MAX_DIFF_CELLS) {
+    const width = cols + 1;
+    const table = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        table[i * width + j] =
+          a[start + i] === b[start + j]
+            ? table[(i + 1) * width + j + 1] + 1
+            : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (a[start + i] === b[start + j]) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  return pairs.concat(suffix);
+};
+
+const diffTokens = (before: string[], after: string[]): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  const push = (type: DiffType, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.value += value;
+    else parts.push({ type, value });
+  };
+
+  let i = 0;
+  let j = 0;
+  matchTokens(before, after)
+    .concat([[before.length, after.length]])
+    .forEach(([matchA, matchB]) => {
+      for (; i < matchA; i++) push('removed', before[i]);
+      for (; j < matchB; j++) push('added', after[j]);
+      if (matchA < before.length) {
+        push('equal', before[matchA]);
+        i = matchA + 1;
+        j = matchB + 1;
+      }
+    });
+
+  return parts;
+};
+
+/**
+ * Compara dois textos palavra por palavra
+ *
+ * @param before - Versão anterior
+ * @param after - Versão nova
+ * @returns Trechos iguais, adicionados e removidos, na ordem do texto
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  return diffTokens(tokenizeWords(before), tokenizeWords(after));
+}
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+const block = (lines: string[]) => {
+  const text = lines.join('');
+  return text && !text.endsWith('\n') ? `${text}\n` : text;
+};
+
+/**
+ * Mescla linha a linha duas edições feitas a partir do mesmo texto
+ *
+ * Trechos alterados só de um lado entram automaticamente; trechos alterados
+ * dos dois lados ficam entre marcadores, como no git, para revisão manual.
+ *
+ * @param base - Texto original das duas edições
+ * @param mine - Edição local
+ * @param theirs - Edição salva por outra pessoa
+ * @returns Texto mesclado e quantidade de conflitos
+ */
+export function mergeText(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = tokenizeLines(base);
+  const mineLines = tokenizeLines(mine);
+  const theirsLines = tokenizeLines(theirs);
+  const mineAt = new Map(matchTokens(baseLines, mineLines));
+  const theirsAt = new Map(matchTokens(baseLines, theirsLines));
+
+  let text = '';
+  let conflicts = 0;
+  let b = 0;
+  let m = 0;
+  let t = 0;
+
+  const resolve = (baseEnd: number, mineEnd: number, theirsEnd: number) => {
+    const baseChunk = baseLines.slice(b, baseEnd);
+    const mineChunk = mineLines.slice(m, mineEnd);
+    const theirsChunk = theirsLines.slice(t, theirsEnd);
+
+    if (sameLines(mineChunk, baseChunk)) text += theirsChunk.join('');
+    else if (sameLines(theirsChunk, baseChunk) || sameLines(mineChunk, theirsChunk)) {
+      text += mineChunk.join('');
+    } else {
+      conflicts++;
+      text = block([text]);
+      text += MINE_MARKER + block(mineChunk) + SEPARATOR_MARKER + block(theirsChunk) + THEIRS_MARKER;
+    }
+  };
+
+  for (let k = 0; k < baseLines.length; k++) {
+    const mineIndex = mineAt.get(k);
+    const theirsIndex = theirsAt.get(k);
+    // Linhas mantidas nas duas edições servem de ponto de sincronização
+    if (mineIndex === undefined || theirsIndex === undefined) continue;
+
+    resolve(k, mineIndex, theirsIndex);
+    text += baseLines[k];
+    b = k + 1;
+    m = mineIndex + 1;
+    t = theirsIndex + 1;
+  }
+  resolve(baseLines.length, mineLines.length, theirsLines.length);
+
+  return { text, conflicts };
+}
+
+/**
+ * Verifica se o texto ainda tem marcadores de conflito de `mergeText`
+ *
+ * @param text - Texto mesclado
+ * @returns true se algum conflito não foi resolvido
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return /^(<{7} |={7}$|>{7} )/m.test(text);
+}
@@ -0,0 +1,45 @@
+import { decodeJwt, getTokenExpiry, isTokenExpired } from './jwt';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const makeToken = (payload: unknown) =>
+  `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.assinatura`;
+
+describe('decodeJwt', () => {
+  it('lê o payload em base64url, incluindo acentos', () => {
+    const payload = { sub: 'user-123', name: 'João Conceição', exp: 1705314600 };
+
+    expect(decodeJwt(makeToken(payload))).toEqual(payload);
+  });
+
+  it('devolve null para tokens malformados', () => {
+    expect(decodeJwt('sem-pontos')).toBeNull();
+    expect(decodeJwt('cabecalho.@@@.assinatura')).toBeNull();
+    expect(decodeJwt(makeToken('texto'))).toBeNull();
+    expect(decodeJwt(makeToken(null))).toBeNull();
+  });
+});
+
+describe('getTokenExpiry', () => {
+  it('converte exp de segundos para milissegundos', () => {
+    expect(getTokenExpiry(makeToken({ exp: 1705314600 }))).toBe(1705314600000);
+  });
+
+  it('devolve null sem exp numérico', () => {
+    expect(getTokenExpiry(makeToken({ sub: 'user-123' }))).toBeNull();
+    expect(getTokenExpiry(makeToken({ exp: '1705314600' }))).toBeNull();
+  });
+});
+
+describe('isTokenExpired', () => {
+  const token = makeToken({ exp: 1705314600 });
+
+  it('compara exp com o instante informado', () => {
+    expect(isTokenExpired(token, 1705314599999)).toBe(false);
+    expect(isTokenExpired(token, 1705314600000)).toBe(true);
+  });
+
+  it('considera válidos os tokens sem exp', () => {
+    expect(isTokenExpired(makeToken({ sub: 'user-123' }), Date.now())).toBe(false);
+  });
+});
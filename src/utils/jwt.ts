@@ -0,0 +1,63 @@
+export interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  [claim: string]: unknown;
+}
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+
+  // atob devolve bytes em latin1; reconverte para UTF-8 (nomes com acento)
+  const bytes = Array.prototype.map
+    .call(binary, (char: string) => '%' + ('00' + char.charCodeAt(0).toString(16)).slice(-2))
+    .join('');
+  return decodeURIComponent(bytes);
+};
+
+/**
+ * Decodifica o payload de um JWT sem validar a assinatura
+ *
+ * A validação é responsabilidade do servidor; no cliente o payload serve
+ * apenas para ler claims como `exp`.
+ *
+ * @param token - JWT no formato header.payload.signature
+ * @returns Payload decodificado ou null se o token for malformado
+ */
+export function decodeJwt(token: string): JwtPayload | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const decoded = JSON.parse(decodeBase64Url(payload));
+    return decoded && typeof decoded === 'object' ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Retorna o instante de expiração do token em milissegundos
+ *
+ * @param token - JWT
+ * @returns Timestamp (ms) de expiração, ou null se o token não tiver `exp`
+ */
+export function getTokenExpiry(token: string): number | null {
+  const payload = decodeJwt(token);
+  return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+}
+
+/**
+ * Verifica se o token já expirou
+ *
+ * Tokens sem `exp` são considerados válidos, pois não há como saber.
+ *
+ * @param token - JWT
+ * @param now - Instante de referência (ms)
+ */
+export function isTokenExpired(token: string, now: number = Date.now()): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry <= now;
+}
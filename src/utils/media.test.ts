@@ -0,0 +1,119 @@
+import { MediaItem } from '../services/api';
+import { buildImageTag, insertAtSelection, isSupportedImage, resizeImage } from './media';
+
+const makeMedia = (overrides: Partial<MediaItem> = {}): MediaItem => ({
+  _id: 'media-1',
+  url: '/uploads/media-1.png',
+  filename: 'mapa_do-brasil.png',
+  mimeType: 'image/png',
+  size: 2048,
+  createdAt: '2024-01-15T10:30:00Z',
+  ...overrides,
+});
+
+// Imagem do jsdom que "carrega" com as dimensões informadas
+const stubImage = (naturalWidth: number, naturalHeight: number) => {
+  class LoadedImage {
+    naturalWidth = naturalWidth;
+    naturalHeight = naturalHeight;
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    set src(_url: string) {
+      setTimeout(() => this.onload?.());
+    }
+  }
+  jest.spyOn(window, 'Image').mockImplementation(() => new LoadedImage() as unknown as HTMLImageElement);
+};
+
+describe('isSupportedImage', () => {
+  it('aceita JPEG, PNG, GIF e WebP', () => {
+    ['image/jpeg', 'image/png', 'image/gif', 'image/webp'].forEach((type) => {
+      expect(isSupportedImage(new Blob([''], { type }))).toBe(true);
+    });
+  });
+
+  it('recusa outros tipos', () => {
+    expect(isSupportedImage(new Blob([''], { type: 'image/svg+xml' }))).toBe(false);
+    expect(isSupportedImage(new Blob([''], { type: 'application/pdf' }))).toBe(false);
+  });
+});
+
+describe('buildImageTag', () => {
+  it('usa o nome do arquivo como texto alternativo e informa as dimensões', () => {
+    expect(buildImageTag(makeMedia({ width: 800, height: 600 }))).toBe(
+      '<img src="/uploads/media-1.png" alt="mapa do brasil" width="800" height="600" />'
+    );
+  });
+
+  it('escapa aspas e sinais do HTML nos atributos', () => {
+    expect(
+      buildImageTag(makeMedia({ url: '/uploads/a"b.png', filename: '<script>.png' }))
+    ).toBe('<img src="/uploads/a&quot;b.png" alt="&lt;script&gt;" />');
+  });
+});
+
+describe('insertAtSelection', () => {
+  it('substitui a seleção do textarea', () => {
+    const textarea = document.createElement('textarea');
+    textarea.value = 'antes SELEÇÃO depois';
+    textarea.setSelectionRange(6, 13);
+
+    expect(insertAtSelection(textarea.value, '<img />', textarea)).toBe('antes <img /> depois');
+  });
+
+  it('insere no final sem textarea', () => {
+    expect(insertAtSelection('texto', '!', null)).toBe('texto!');
+  });
+});
+
+describe('resizeImage', () => {
+  beforeEach(() => {
+    URL.createObjectURL = jest.fn(() => 'blob:imagem');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('envia GIFs sem alteração para manter a animação', async () => {
+    stubImage(4000, 3000);
+    const file = new File(['gif'], 'animacao.gif', { type: 'image/gif' });
+
+    await expect(resizeImage(file)).resolves.toEqual({
+      blob: file,
+      filename: 'animacao.gif',
+      width: 4000,
+      height: 3000,
+    });
+  });
+
+  it('mantém PNGs que já cabem no limite', async () => {
+    stubImage(800, 600);
+    const file = new File(['png'], 'pequena.png', { type: 'image/png' });
+
+    const resized = await resizeImage(file);
+
+    expect(resized.blob).toBe(file);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:imagem');
+  });
+
+  it('reduz mantendo a proporção', async () => {
+    stubImage(3200, 1600);
+    const drawImage = jest.fn();
+    jest
+      .spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockReturnValue({ drawImage } as unknown as CanvasRenderingContext2D);
+    const compressed = new Blob(['jpg'], { type: 'image/jpeg' });
+    jest
+      .spyOn(HTMLCanvasElement.prototype, 'toBlob')
+      .mockImplementation((callback) => callback(compressed));
+    const file = new File(['original'], 'foto.jpg', { type: 'image/jpeg' });
+
+    const resized = await resizeImage(file, { maxWidth: 1600, maxHeight: 1600 });
+
+    expect(resized).toEqual({ blob: compressed, filename: 'foto.jpg', width: 1600, height: 800 });
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 1600, 800);
+  });
+});
@@ -0,0 +1,127 @@
+import { MediaItem } from '../services/api';
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+export interface ResizeOptions {
+  maxWidth?: number;
+  maxHeight?: number;
+  // Qualidade de 0 a 1 usada para JPEG e WebP
+  quality?: number;
+}
+
+export interface ResizedImage {
+  blob: Blob;
+  filename: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Verifica se o arquivo é uma imagem aceita pelo upload
+ *
+ * @param file - Arquivo escolhido, arrastado ou colado
+ * @returns true se o tipo é JPEG, PNG, GIF ou WebP
+ */
+export function isSupportedImage(file: Blob): boolean {
+  return ACCEPTED_IMAGE_TYPES.includes(file.type);
+}
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Não foi possível ler a imagem'));
+    };
+    image.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Reduz e comprime a imagem no navegador antes do upload
+ *
+ * Imagens maiores que o limite são redimensionadas mantendo a proporção.
+ * GIFs são enviados sem alteração para não perder a animação, e o arquivo
+ * original é mantido quando a versão comprimida não fica menor.
+ *
+ * @param file - Imagem original
+ * @param options - Dimensões máximas e qualidade
+ * @returns Imagem pronta para envio com as dimensões finais
+ */
+export async function resizeImage(
+  file: File,
+  { maxWidth = 1600, maxHeight = 1600, quality = 0.85 }: ResizeOptions = {}
+): Promise<ResizedImage> {
+  const image = await loadImage(file);
+  const original = {
+    blob: file as Blob,
+    filename: file.name,
+    width: image.naturalWidth,
+    height: image.naturalHeight
+  };
+  if (file.type === 'image/gif') return original;
+
+  const scale = Math.min(1, maxWidth / image.naturalWidth, maxHeight / image.naturalHeight);
+  // PNG não tem ajuste de qualidade: só vale reprocessar se for redimensionar
+  if (scale === 1 && file.type === 'image/png') return original;
+
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return original;
+  context.drawImage(image, 0, 0, width, height);
+
+  const blob = await canvasToBlob(canvas, file.type, quality);
+  if (!blob || (scale === 1 && blob.size >= file.size)) return original;
+
+  return { blob, filename: file.name, width, height };
+}
+
+const escapeAttribute = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+/**
+ * Monta a tag <img> inserida no conteúdo do post
+ *
+ * @param media - Imagem enviada ou escolhida na biblioteca
+ * @returns HTML da imagem com texto alternativo baseado no nome do arquivo
+ */
+export function buildImageTag(media: MediaItem): string {
+  const alt = media.filename.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+  const size =
+    media.width && media.height ? ` width="${media.width}" height="${media.height}"` : '';
+  return `<img src="${escapeAttribute(media.url)}" alt="${escapeAttribute(alt)}"${size} />`;
+}
+
+/**
+ * Insere um trecho no texto na posição do cursor do textarea
+ *
+ * @param value - Texto atual do campo
+ * @param insertion - Trecho a inserir
+ * @param textarea - Campo de onde vem a seleção; sem ele o trecho vai ao final
+ * @returns Texto com o trecho no lugar da seleção
+ */
+export function insertAtSelection(
+  value: string,
+  insertion: string,
+  textarea: HTMLTextAreaElement | null
+): string {
+  const start = textarea ? textarea.selectionStart : value.length;
+  const end = textarea ? textarea.selectionEnd : value.length;
+  return value.slice(0, start) + insertion + value.slice(end);
+}
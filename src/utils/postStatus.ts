@@ -0,0 +1,54 @@
+import { Post } from '../services/api';
+
+/**
+ * Indica se o post já pode ser lido por alunos
+ *
+ * Posts publicados ou agendados ficam visíveis quando a data de publicação
+ * passa. Sem `publishAt` (backends antigos) vale apenas o status.
+ *
+ * @param post - Post com status e data de publicação opcional
+ * @param now - Instante de referência em ms (padrão: agora)
+ * @returns true se o post é público
+ */
+export function isPostPublic(post: Post, now: number = Date.now()): boolean {
+  if (post.status !== 'published' && post.status !== 'scheduled') return false;
+  if (!post.publishAt) return post.status === 'published';
+  return Date.parse(post.publishAt) <= now;
+}
+
+/**
+ * Completa um número com zero à esquerda até dois dígitos
+ *
+ * @param value - Número entre 0 e 99 (ex.: mês, dia, hora ou minuto)
+ * @returns Texto com dois dígitos, como "05"
+ */
+export function padTwoDigits(value: number): string {
+  return ('0' + value).slice(-2);
+}
+
+/**
+ * Converte uma data ISO 8601 para o valor de um input datetime-local
+ *
+ * @param iso - Data em ISO 8601
+ * @returns Data no fuso local no formato YYYY-MM-DDTHH:mm, ou '' se inválida
+ */
+export function toDateTimeLocalValue(iso?: string): string {
+  const date = iso ? new Date(iso) : null;
+  if (!date || Number.isNaN(date.getTime())) return '';
+  return (
+    `${date.getFullYear()}-${padTwoDigits(date.getMonth() + 1)}-${padTwoDigits(date.getDate())}` +
+    `T${padTwoDigits(date.getHours())}:${padTwoDigits(date.getMinutes())}`
+  );
+}
+
+/**
+ * Converte o valor de um input datetime-local (fuso local) para ISO 8601
+ *
+ * @param value - Data no formato YYYY-MM-DDTHH:mm
+ * @returns Data em ISO 8601 (UTC), ou undefined se vazia ou inválida
+ */
+export function fromDateTimeLocalValue(value: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,27 @@
+import { padTwoDigits } from './postStatus';
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Descreve quando uma cópia local foi sincronizada com o servidor
+ *
+ * Ex.: "hoje às 14:30", "ontem às 09:05" ou "12/10/2026 às 18:00".
+ *
+ * @param timestamp - Instante da sincronização em ms
+ * @param now - Instante de referência em ms (padrão: agora)
+ * @returns Texto para completar frases como "sincronizado ..."
+ */
+export function formatSyncedAt(timestamp: number, now: number = Date.now()): string {
+  const date = new Date(timestamp);
+  const today = new Date(now);
+  const yesterday = new Date(now);
+  yesterday.setDate(today.getDate() - 1);
+  const time = `${padTwoDigits(date.getHours())}:${padTwoDigits(date.getMinutes())}`;
+
+  if (isSameDay(date, today)) return `hoje às ${time}`;
+  if (isSameDay(date, yesterday)) return `ontem às ${time}`;
+  return `${date.toLocaleDateString('pt-BR')} às ${time}`;
+}
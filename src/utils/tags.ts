@@ -0,0 +1,45 @@
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Normaliza uma tag digitada pelo usuário
+ *
+ * @param raw - Texto digitado
+ * @returns Tag sem espaços extras, ou '' se vazia
+ */
+export function normalizeTag(raw: string): string {
+  // Vírgulas separam tags na digitação e na query string
+  return raw.replace(/,/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Compara tags sem diferenciar maiúsculas de minúsculas
+ *
+ * @param a - Primeira tag
+ * @param b - Segunda tag
+ * @returns true se representam a mesma tag
+ */
+export function isSameTag(a: string, b: string): boolean {
+  return a.toLocaleLowerCase('pt-BR') === b.toLocaleLowerCase('pt-BR');
+}
+
+/**
+ * Verifica se a lista já contém a tag
+ *
+ * @param tags - Tags do post ou do filtro
+ * @param tag - Tag procurada
+ * @returns true se alguma tag da lista é equivalente
+ */
+export function hasTag(tags: string[], tag: string): boolean {
+  return tags.some((candidate) => isSameTag(candidate, tag));
+}
+
+/**
+ * Monta a rota que lista os posts de uma tag
+ *
+ * @param tag - Nome da tag
+ * @returns Caminho no formato /tags/:tag
+ */
+export function tagPath(tag: string): string {
+  return `/tags/${encodeURIComponent(tag)}`;
+}